@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Send } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { accessDurationOptions, type AccessRequest } from '@/lib/access-requests';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  owner_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface AccessRequestDialogProps {
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  requests: AccessRequest[];
+  currentProfileId: string | null;
+  onSubmitted: () => void;
+}
+
+type TargetType = 'action' | 'role';
+
+const OPEN_ENDED = 'none';
+
+export default function AccessRequestDialog({
+  roles,
+  actions,
+  requests,
+  currentProfileId,
+  onSubmitted
+}: AccessRequestDialogProps) {
+  const { toast } = useToast();
+  const [targetType, setTargetType] = useState<TargetType>('action');
+  const [targetId, setTargetId] = useState('');
+  const [justification, setJustification] = useState('');
+  const [duration, setDuration] = useState('30');
+  const [saving, setSaving] = useState(false);
+
+  const hasPendingRequest = (id: string) => requests.some(request =>
+    request.status === 'pending' &&
+    request.requester_id === currentProfileId &&
+    (request.action_id === id || request.role_id === id)
+  );
+
+  const submitRequest = async () => {
+    if (!targetId || !justification.trim()) {
+      toast({
+        title: "Validation Error",
+        description: `Choose ${targetType === 'action' ? 'an action' : 'a role'} and explain why you need it.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (hasPendingRequest(targetId)) {
+      toast({
+        title: "Validation Error",
+        description: "You already have a pending request for this.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (!currentProfileId) throw new Error('No profile found for the current user');
+
+      const { error } = await withChangeReason(
+        supabase
+          .from('access_requests')
+          .insert({
+            requester_id: currentProfileId,
+            action_id: targetType === 'action' ? targetId : null,
+            role_id: targetType === 'role' ? targetId : null,
+            justification: justification.trim(),
+            duration_days: duration === OPEN_ENDED ? null : Number(duration)
+          }),
+        justification
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Access request submitted successfully.",
+      });
+
+      setTargetId('');
+      setJustification('');
+      onSubmitted();
+    } catch (error) {
+      console.error('Error submitting access request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit access request.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const targetOwner = targetType === 'role' && roles.find(r => r.id === targetId)?.owner_id;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Request Access</DialogTitle>
+        <DialogDescription>
+          Ask for a single action or a whole role. Admins review every request; requests for a role with an owner can also be decided by that owner.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Request</Label>
+            <Select
+              value={targetType}
+              onValueChange={(value) => {
+                setTargetType(value as TargetType);
+                setTargetId('');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="action">An action</SelectItem>
+                <SelectItem value="role">A role</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Label>{targetType === 'action' ? 'Action' : 'Role'} *</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder={targetType === 'action' ? 'Select an action' : 'Select a role'} />
+              </SelectTrigger>
+              <SelectContent>
+                {targetType === 'action'
+                  ? actions.map(action => (
+                      <SelectItem key={action.id} value={action.id} disabled={hasPendingRequest(action.id)}>
+                        {action.name} - {action.category}
+                      </SelectItem>
+                    ))
+                  : roles.map(role => (
+                      <SelectItem key={role.id} value={role.id} disabled={hasPendingRequest(role.id)}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+            {targetType === 'role' && targetId && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {targetOwner ? 'Routed to the role owner and to admins' : 'Routed to admins'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="access-justification">Justification *</Label>
+          <Textarea
+            id="access-justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="What do you need this for?"
+          />
+        </div>
+
+        <div>
+          <Label>Duration</Label>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accessDurationOptions.map(option => (
+                <SelectItem key={option.label} value={option.days === null ? OPEN_ENDED : String(option.days)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button onClick={submitRequest} disabled={saving} className="w-full md:w-auto">
+          <Send className="mr-2 h-4 w-4" />
+          Submit Request
+        </Button>
+      </div>
+    </>
+  );
+}
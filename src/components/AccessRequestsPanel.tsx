@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Inbox, KeyRound, Undo2, X } from 'lucide-react';
+import {
+  accessRequestStatusLabels,
+  applyAccessRequest,
+  canDecideAccessRequest,
+  isDeniedByOverride,
+  type AccessRequest,
+  type AccessRequestStatus,
+} from '@/lib/access-requests';
+import { findIntroducedViolations, isBlocking, type SodData, type SodRule } from '@/lib/sod';
+import SodViolationList from './SodViolationList';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+  owner_id?: string | null;
+  parent_role_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface AccessRequestsPanelProps {
+  requests: AccessRequest[];
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  profiles: DatabaseProfile[];
+  permissions: SodData['permissions'];
+  exclusions: SodData['exclusions'];
+  assignments: SodData['assignments'];
+  delegations: SodData['delegations'];
+  sodRules: SodRule[];
+  currentProfileId: string | null;
+  isAdmin: boolean;
+  onDecide: (requestId: string, approve: boolean, comment: string) => void;
+  onCancel: (requestId: string) => void;
+}
+
+export default function AccessRequestsPanel({
+  requests,
+  roles,
+  actions,
+  profiles,
+  permissions,
+  exclusions,
+  assignments,
+  delegations,
+  sodRules,
+  currentProfileId,
+  isAdmin,
+  onDecide,
+  onCancel
+}: AccessRequestsPanelProps) {
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const getUserName = (profileId: string | null) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const myRequests = requests.filter(request => request.requester_id === currentProfileId);
+  const approvalQueue = requests.filter(request =>
+    request.status === 'pending' &&
+    canDecideAccessRequest(request, { profileId: currentProfileId, isAdmin }, roles)
+  );
+
+  const data: SodData = { assignments, roles, permissions, exclusions, delegations };
+  const getViolations = (request: AccessRequest) =>
+    findIntroducedViolations(sodRules, data, applyAccessRequest(data, request), profiles);
+
+  const renderTarget = (request: AccessRequest) => {
+    if (request.role_id) {
+      const role = roles.find(r => r.id === request.role_id);
+      return (
+        <Badge variant="outline" style={{ borderColor: role?.color, color: role?.color }}>
+          Role: {role?.name || 'Unknown role'}
+        </Badge>
+      );
+    }
+    return (
+      <span className="text-sm font-medium">
+        {actions.find(a => a.id === request.action_id)?.name || 'Unknown action'}
+      </span>
+    );
+  };
+
+  const renderDuration = (request: AccessRequest) => {
+    if (request.duration_days === null) return 'No end date';
+    return `${request.duration_days} day${request.duration_days === 1 ? '' : 's'}`;
+  };
+
+  const getStatusBadge = (status: AccessRequestStatus) => {
+    switch (status) {
+      case 'approved':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700">{accessRequestStatusLabels[status]}</Badge>;
+      case 'denied':
+        return <Badge variant="destructive">{accessRequestStatusLabels[status]}</Badge>;
+      case 'pending':
+        return <Badge variant="secondary">{accessRequestStatusLabels[status]}</Badge>;
+      default:
+        return <Badge variant="outline">{accessRequestStatusLabels[status]}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            My Requests
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Justification</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {myRequests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    {renderTarget(request)}
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {new Date(request.created_at).toLocaleString()}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs">{request.justification}</TableCell>
+                  <TableCell className="text-sm">{renderDuration(request)}</TableCell>
+                  <TableCell>
+                    {getStatusBadge(request.status)}
+                    {request.decided_at && request.status !== 'cancelled' && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        by {getUserName(request.approver_id)}
+                        {request.decision_comment && <>: {request.decision_comment}</>}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {request.status === 'pending' && (
+                      <Button size="sm" variant="outline" onClick={() => onCancel(request.id)}>
+                        <Undo2 className="mr-1 h-4 w-4" />
+                        Withdraw
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {myRequests.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    You have not requested any access
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {(isAdmin || approvalQueue.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              Approval Queue
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Approving an action grants it as a user override, approving a role assigns it; both end after the requested duration unless the user already holds them for longer
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested By</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Justification</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Decision</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvalQueue.map(request => {
+                  const violations = getViolations(request);
+                  const deniedByOverride = isDeniedByOverride(request, exclusions);
+                  const blocked = isBlocking(violations) || deniedByOverride;
+
+                  return (
+                  <TableRow key={request.id}>
+                    <TableCell className="text-sm">
+                      <div>{getUserName(request.requester_id)}</div>
+                      <div className="text-muted-foreground">{new Date(request.created_at).toLocaleString()}</div>
+                    </TableCell>
+                    <TableCell>{renderTarget(request)}</TableCell>
+                    <TableCell className="text-sm max-w-xs">{request.justification}</TableCell>
+                    <TableCell className="text-sm">{renderDuration(request)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-2 min-w-48">
+                        {deniedByOverride && (
+                          <p className="text-sm text-destructive">
+                            An override denies this action to {getUserName(request.requester_id)}; lift it before approving
+                          </p>
+                        )}
+                        {violations.length > 0 && (
+                          <div className="space-y-1 text-sm">
+                            <p className="font-medium">
+                              {blocked ? 'Blocked by segregation of duties:' : 'Segregation-of-duties conflicts:'}
+                            </p>
+                            <SodViolationList violations={violations} actions={actions} roles={roles} profiles={profiles} />
+                          </div>
+                        )}
+                        <Input
+                          placeholder="Comment (optional)"
+                          value={comments[request.id] ?? ''}
+                          onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            disabled={blocked}
+                            onClick={() => onDecide(request.id, true, comments[request.id] ?? '')}
+                          >
+                            <Check className="mr-1 h-4 w-4" />
+                            {violations.length > 0 ? 'Approve Anyway' : 'Approve'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => onDecide(request.id, false, comments[request.id] ?? '')}
+                          >
+                            <X className="mr-1 h-4 w-4" />
+                            Deny
+                          </Button>
+                        </div>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  );
+                })}
+                {approvalQueue.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No access requests are waiting for you
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
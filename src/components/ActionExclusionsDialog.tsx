@@ -0,0 +1,144 @@
+import { Badge } from '@/components/ui/badge';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { UserCog } from 'lucide-react';
+import { formatValidityDate, isActive } from '@/lib/validity';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface DatabaseUserRole {
+  user_id: string;
+  role_id: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface ActionExclusionsDialogProps {
+  action: DatabaseAction;
+  roles: DatabaseRole[];
+  profiles: DatabaseProfile[];
+  exclusions: DatabaseExclusion[];
+  assignments: DatabaseUserRole[];
+}
+
+export default function ActionExclusionsDialog({
+  action,
+  roles,
+  profiles,
+  exclusions,
+  assignments
+}: ActionExclusionsDialogProps) {
+  const actionExclusions = exclusions.filter(exclusion => exclusion.action_id === action.id);
+
+  const getStatusBadge = (status: DatabaseExclusion['status']) => {
+    switch (status) {
+      case 'granted':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700 text-xs">Granted</Badge>;
+      case 'conditional':
+        return <Badge variant="outline" className="border-yellow-500 text-yellow-700 text-xs">Conditional</Badge>;
+      default:
+        return <Badge variant="destructive" className="text-xs">Denied</Badge>;
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <UserCog className="h-5 w-5" />
+          {action.name} - Exceptions
+        </DialogTitle>
+        <DialogDescription>
+          Users whose access to this action differs from their role's permission
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 max-h-96 overflow-y-auto">
+        {actionExclusions.length > 0 ? (
+          actionExclusions.map(exclusion => {
+            const profile = profiles.find(p => p.id === exclusion.user_id);
+            const userRoles = roles.filter(r =>
+              assignments.some(a => a.user_id === exclusion.user_id && a.role_id === r.id)
+            );
+
+            return (
+              <div key={exclusion.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium">{profile?.full_name || 'N/A'}</h4>
+                    <p className="text-sm text-muted-foreground">{profile?.email}</p>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {userRoles.length > 0 ? userRoles.map(role => (
+                      <Badge key={role.id} variant="outline" style={{ borderColor: role.color, color: role.color }}>
+                        {role.name}
+                      </Badge>
+                    )) : (
+                      <Badge variant="secondary">No Role</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="bg-muted/50 p-3 rounded space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Exception Status:</span>
+                    {getStatusBadge(exclusion.status)}
+                  </div>
+                  {exclusion.conditions && (
+                    <div>
+                      <span className="text-sm font-medium">Conditions:</span>
+                      <p className="text-sm text-muted-foreground mt-1">{exclusion.conditions}</p>
+                    </div>
+                  )}
+                  {(exclusion.valid_from || exclusion.valid_until) && (
+                    <div>
+                      <span className="text-sm font-medium">Validity:</span>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {exclusion.valid_from ? formatValidityDate(exclusion.valid_from, 'from') : 'Always'}
+                        {' – '}
+                        {exclusion.valid_until ? formatValidityDate(exclusion.valid_until, 'until') : 'No end'}
+                        {!isActive(exclusion) && ' (inactive)'}
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <span className="text-sm font-medium">Reason:</span>
+                    <p className="text-sm text-muted-foreground mt-1">{exclusion.reason}</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No users have an exception for this action.</p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { requiresRiskApproval, type ActionChangeRequest } from '@/lib/change-requests';
+import { riskLevelLabels, riskLevels, type RiskLevel } from '@/lib/risk';
+import { getActionDeletionImpact, type DeletionImpactData } from '@/lib/deletion-impact';
+import RiskIcon from './RiskIcon';
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  risk_level: RiskLevel;
+}
+
+interface ActionManagementDialogProps extends Omit<DeletionImpactData, 'actions'> {
+  actions: DatabaseAction[];
+  actionRequests: ActionChangeRequest[];
+  currentProfileId: string | null;
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const emptyAction = {
+  name: '',
+  description: '',
+  category: '',
+  riskLevel: 'low' as RiskLevel
+};
+
+export default function ActionManagementDialog({
+  actions,
+  actionRequests,
+  currentProfileId,
+  changeReason,
+  onDataChange,
+  ...impactData
+}: ActionManagementDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyAction);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<DatabaseAction | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const editingAction = actions.find(action => action.id === editingId);
+  const pendingRiskRequest = editingAction && actionRequests.find(request =>
+    request.status === 'pending' && request.action_id === editingAction.id
+  );
+  const riskNeedsApproval = !!editingAction && requiresRiskApproval(editingAction.risk_level, form.riskLevel);
+  const categories = Array.from(new Set(actions.map(action => action.category))).sort();
+  const sortedActions = [...actions].sort((a, b) =>
+    a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+  );
+
+  const startEditing = (action: DatabaseAction) => {
+    setEditingId(action.id);
+    setForm({
+      name: action.name,
+      description: action.description || '',
+      category: action.category,
+      riskLevel: action.risk_level
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyAction);
+  };
+
+  const saveAction = async () => {
+    const name = form.name.trim();
+    const category = form.category.trim();
+    if (!name || !category) {
+      toast({
+        title: "Validation Error",
+        description: "An action name and category are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (actions.some(action => action.id !== editingId && action.name.toLowerCase() === name.toLowerCase())) {
+      toast({
+        title: "Validation Error",
+        description: "An action with this name already exists.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The risk level decides whether edits need four-eyes approval, so lowering a critical one
+    // is left out of the update and submitted for approval instead
+    const values = {
+      name,
+      description: form.description.trim(),
+      category,
+      ...(riskNeedsApproval ? {} : { risk_level: form.riskLevel })
+    };
+
+    try {
+      setSaving(true);
+      const { error } = await withChangeReason(
+        editingId
+          ? supabase.from('actions').update(values).eq('id', editingId)
+          : supabase.from('actions').insert(values),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      if (riskNeedsApproval) {
+        const { error: requestError } = await withChangeReason(
+          supabase
+            .from('action_change_requests')
+            .insert({
+              action_id: editingAction.id,
+              proposed_risk_level: form.riskLevel,
+              current_risk_level: editingAction.risk_level,
+              reason: changeReason.trim() || null,
+              requested_by: currentProfileId
+            }),
+          changeReason
+        );
+
+        if (requestError) throw requestError;
+      }
+
+      toast({
+        title: "Success",
+        description: riskNeedsApproval
+          ? "Action updated. Lowering its risk level takes effect once another admin approves it."
+          : editingId ? "Action updated successfully." : "Action created successfully.",
+      });
+
+      resetForm();
+      onDataChange();
+    } catch (error) {
+      console.error('Error saving action:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save action.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteAction = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('actions')
+          .delete()
+          .eq('id', deleting.id),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Action deleted successfully.",
+      });
+
+      if (editingId === deleting.id) resetForm();
+      setDeleting(null);
+      onDataChange();
+    } catch (error) {
+      console.error('Error deleting action:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete action.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const impact = deleting && getActionDeletionImpact(deleting.id, { ...impactData, actions });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Action Configuration</DialogTitle>
+        <DialogDescription>
+          Define the actions that appear as rows of the matrix
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+        {sortedActions.map(action => (
+          <div key={action.id} className="p-4 rounded-lg border space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <RiskIcon riskLevel={action.risk_level} />
+                <h4 className="font-medium">{action.name}</h4>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{action.category}</Badge>
+                <Button size="sm" variant="outline" onClick={() => startEditing(action)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDeleting(action)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {action.description && <p className="text-sm text-muted-foreground">{action.description}</p>}
+          </div>
+        ))}
+
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-3">{editingAction ? `Edit ${editingAction.name}` : 'Add New Action'}</h4>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="action-name">Action Name *</Label>
+              <Input
+                id="action-name"
+                placeholder="Enter action name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="action-category">Category *</Label>
+                <Input
+                  id="action-category"
+                  list="action-categories"
+                  placeholder="Enter category"
+                  value={form.category}
+                  onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                />
+                <datalist id="action-categories">
+                  {categories.map(category => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <Label>Risk Level</Label>
+                <Select
+                  value={form.riskLevel}
+                  disabled={!!pendingRiskRequest}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, riskLevel: value as RiskLevel }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {riskLevels.map(level => (
+                      <SelectItem key={level} value={level}>{riskLevelLabels[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {pendingRiskRequest ? (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Lowering to {riskLevelLabels[pendingRiskRequest.proposed_risk_level]} is awaiting approval
+                  </p>
+                ) : riskNeedsApproval && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Lowering a critical action needs another admin's approval
+                  </p>
+                )}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="action-description">Description</Label>
+              <Textarea
+                id="action-description"
+                placeholder="Enter action description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button className="gap-2" onClick={saveAction} disabled={saving}>
+                {editingAction ? <Edit className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                {editingAction ? 'Save Action' : 'Add Action'}
+              </Button>
+              {editingAction && (
+                <Button variant="outline" onClick={resetForm}>Cancel</Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Deleting the action also removes:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {impact && (
+            <ul className="space-y-2 text-sm">
+              <li>
+                <span className="font-medium">{impact.permissionRoles.length} permission(s)</span>
+                {impact.permissionRoles.length > 0 && (
+                  <span className="text-muted-foreground">: {impact.permissionRoles.join(', ')}</span>
+                )}
+              </li>
+              <li>
+                <span className="font-medium">{impact.overrideUsers.length} user override(s)</span>
+                {impact.overrideUsers.length > 0 && (
+                  <span className="text-muted-foreground">: {impact.overrideUsers.join(', ')}</span>
+                )}
+              </li>
+              {impact.sodRules.length > 0 && (
+                <li>
+                  <span className="font-medium">{impact.sodRules.length} SoD rule(s)</span>
+                  <span className="text-muted-foreground">: {impact.sodRules.join(', ')}</span>
+                </li>
+              )}
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteAction}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Action
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
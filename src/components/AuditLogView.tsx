@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, RefreshCw, Siren } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  auditOperationLabels,
+  auditTableLabels,
+  formatAuditValue,
+  getChangedFields,
+  type AuditOperation,
+} from '@/lib/audit';
+import { fromDateInputValue } from '@/lib/validity';
+
+interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  user_id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface DatabaseAuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  operation: AuditOperation;
+  actor_id: string | null;
+  actor_email: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  reason: string | null;
+  // Set when the actor made the change under break-glass emergency access
+  break_glass_session_id: string | null;
+  created_at: string;
+}
+
+interface AuditLogViewProps {
+  roles: NamedEntity[];
+  actions: NamedEntity[];
+  profiles: DatabaseProfile[];
+}
+
+const ALL = 'all';
+const PAGE_SIZE = 200;
+
+export default function AuditLogView({ roles, actions, profiles }: AuditLogViewProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<DatabaseAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({
+    actorId: ALL,
+    tableName: ALL,
+    from: '',
+    until: '',
+    breakGlassOnly: false
+  });
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (filters.actorId !== ALL) query = query.eq('actor_id', filters.actorId);
+      if (filters.tableName !== ALL) query = query.eq('table_name', filters.tableName);
+      const from = fromDateInputValue(filters.from, 'from');
+      if (from) query = query.gte('created_at', from);
+      const until = fromDateInputValue(filters.until, 'until');
+      if (until) query = query.lt('created_at', until);
+      if (filters.breakGlassOnly) query = query.not('break_glass_session_id', 'is', null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries((data || []) as DatabaseAuditEntry[]);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load audit log.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRoleName = (roleId: unknown) => roles.find(r => r.id === roleId)?.name || 'Unknown role';
+  const getActionName = (actionId: unknown) => actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  const getUserName = (profileId: unknown) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const describeRecord = (entry: DatabaseAuditEntry) => {
+    const values = entry.new_values ?? entry.old_values ?? {};
+    switch (entry.table_name) {
+      case 'permissions':
+        return `${getRoleName(values.role_id)} · ${getActionName(values.action_id)}`;
+      case 'permission_exclusions':
+        return `${getUserName(values.user_id)} · ${getActionName(values.action_id)}`;
+      case 'user_roles':
+        return `${getUserName(values.user_id)} · ${getRoleName(values.role_id)}`;
+      case 'access_requests':
+        return `${getUserName(values.requester_id)} · ${values.role_id ? getRoleName(values.role_id) : getActionName(values.action_id)}`;
+      case 'recertification_items':
+        return `${getUserName(values.user_id)} · ${values.role_id ? getRoleName(values.role_id) : getActionName(values.action_id)}`;
+      case 'delegations':
+        return `${getUserName(values.delegator_id)} → ${getUserName(values.delegate_id)}`;
+      case 'break_glass_sessions':
+        return `${getUserName(values.user_id)} · ${getRoleName(values.role_id)}`;
+      case 'profiles':
+        return String(values.full_name || values.email || entry.record_id);
+      default:
+        return String(values.name || entry.record_id);
+    }
+  };
+
+  const getActorName = (entry: DatabaseAuditEntry) => {
+    if (!entry.actor_id) return 'System';
+    const profile = profiles.find(p => p.user_id === entry.actor_id);
+    return profile?.full_name || entry.actor_email || profile?.email || 'Unknown user';
+  };
+
+  const getOperationBadge = (operation: AuditOperation) => {
+    switch (operation) {
+      case 'INSERT':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700">{auditOperationLabels[operation]}</Badge>;
+      case 'DELETE':
+        return <Badge variant="destructive">{auditOperationLabels[operation]}</Badge>;
+      default:
+        return <Badge variant="outline">{auditOperationLabels[operation]}</Badge>;
+    }
+  };
+
+  const renderChanges = (entry: DatabaseAuditEntry) => {
+    const changes = getChangedFields(entry.old_values, entry.new_values)
+      .filter(change => entry.operation === 'UPDATE' || change.before !== null || change.after !== null);
+
+    return (
+      <ul className="space-y-0.5">
+        {changes.map(change => (
+          <li key={change.field}>
+            <span className="font-medium">{change.field}</span>:{' '}
+            {entry.operation === 'INSERT' ? (
+              formatAuditValue(change.after)
+            ) : entry.operation === 'DELETE' ? (
+              <span className="line-through">{formatAuditValue(change.before)}</span>
+            ) : (
+              <>
+                <span className="text-muted-foreground">{formatAuditValue(change.before)}</span>
+                {' → '}
+                {formatAuditValue(change.after)}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Audit Log
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={loadEntries} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Every change to roles, actions, permissions, users and overrides, newest first (last {PAGE_SIZE} matching entries)
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="audit-actor">Actor</Label>
+            <Select value={filters.actorId} onValueChange={(value) => setFilters(prev => ({ ...prev, actorId: value }))}>
+              <SelectTrigger id="audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Actors</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.user_id}>
+                    {profile.full_name || profile.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-entity">Entity</Label>
+            <Select value={filters.tableName} onValueChange={(value) => setFilters(prev => ({ ...prev, tableName: value }))}>
+              <SelectTrigger id="audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Entities</SelectItem>
+                {Object.entries(auditTableLabels).map(([tableName, label]) => (
+                  <SelectItem key={tableName} value={tableName}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-until">Until</Label>
+            <Input
+              id="audit-until"
+              type="date"
+              value={filters.until}
+              onChange={(e) => setFilters(prev => ({ ...prev, until: e.target.value }))}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={filters.breakGlassOnly}
+            onCheckedChange={(checked) => setFilters(prev => ({ ...prev, breakGlassOnly: !!checked }))}
+          />
+          Only changes made under emergency access
+        </label>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {getActorName(entry)}
+                    {entry.break_glass_session_id && (
+                      <Badge variant="destructive" className="mt-1 flex w-fit items-center gap-1">
+                        <Siren className="h-3 w-3" />
+                        Emergency access
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="font-medium">{auditTableLabels[entry.table_name] || entry.table_name}</div>
+                    <div className="text-muted-foreground">{describeRecord(entry)}</div>
+                  </TableCell>
+                  <TableCell>{getOperationBadge(entry.operation)}</TableCell>
+                  <TableCell className="text-xs max-w-md">{renderChanges(entry)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{entry.reason || '—'}</TableCell>
+                </TableRow>
+              ))}
+              {!loading && entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No audit entries match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
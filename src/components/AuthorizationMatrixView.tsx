@@ -4,10 +4,57 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Download, FileSpreadsheet, FileText, Upload, UserCog, GitBranch, RotateCcw, AlertTriangle, Clock, Hourglass, MousePointerClick, Pencil, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { Condition } from '@/lib/conditions';
+import {
+  applyPermissionChange,
+  findUsersGainingAccess,
+  resolveRolePermission,
+  type Delegation,
+} from '@/lib/permission-resolver';
+import { riskLevelLabels, riskLevels, riskRank, type RiskLevel } from '@/lib/risk';
+import { findIntroducedViolations, isBlocking, type SodRule, type SodViolation } from '@/lib/sod';
+import { formatValidityDate, isActive, isExpiringSoon, type ValidityWindow } from '@/lib/validity';
+import {
+  describeProposedValues,
+  getPendingRequest,
+  getProposedStatus,
+  requiresApproval,
+  type PermissionChangeRequest,
+  type PermissionValues,
+} from '@/lib/change-requests';
+import { downloadBlob, downloadCsv, type CsvValue } from '@/lib/csv';
+import { buildMatrixReport } from '@/lib/matrix-report';
+import { buildMatrixWorkbook } from '@/lib/matrix-report-xlsx';
+import { buildMatrixPdf } from '@/lib/matrix-report-pdf';
+import { flattenUnitTree, getEnclosingUnit, getUnitDescendants, type OrgUnit } from '@/lib/org-units';
+import { cellKey, getCellRange, type PermissionCellChange } from '@/lib/bulk-edit';
+import type { EditorPresence } from '@/lib/realtime';
+import type { MatrixImportPayload } from '@/lib/matrix-import';
+import ActionExclusionsDialog from './ActionExclusionsDialog';
+import BulkEditDialog from './BulkEditDialog';
+import MatrixImportDialog from './MatrixImportDialog';
+import PermissionEditDialog from './PermissionEditDialog';
+import UserEffectivePermissions from './UserEffectivePermissions';
+import RiskIcon from './RiskIcon';
+import SodViolationList from './SodViolationList';
+import ValidityPopover from './ValidityPopover';
 
 interface DatabaseRole {
   id: string;
@@ -15,6 +62,8 @@ interface DatabaseRole {
   description: string;
   color: string;
   is_system_role: boolean;
+  parent_role_id?: string | null;
+  org_unit_id?: string | null;
 }
 
 interface DatabaseAction {
@@ -22,6 +71,7 @@ interface DatabaseAction {
   name: string;
   description: string;
   category: string;
+  risk_level: RiskLevel;
 }
 
 interface DatabasePermission {
@@ -31,36 +81,225 @@ interface DatabasePermission {
   status: 'granted' | 'denied' | 'conditional';
   limit_value?: number;
   conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+  org_unit_id?: string | null;
+}
+
+interface DatabaseUserRole {
+  id: string;
+  user_id: string;
+  role_id: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+type PermissionStatus = DatabasePermission['status'];
+
+const NO_UNIT = 'none';
+
+// A cell change waiting for confirmation: a critical grant and/or one that breaks a warning SoD rule
+interface PendingChange {
+  role: DatabaseRole;
+  action: DatabaseAction;
+  values: PermissionValues;
+  reason: string;
+  gainingProfiles: DatabaseProfile[] | null;
+  violations: SodViolation[];
 }
 
 interface AuthorizationMatrixViewProps {
   roles: DatabaseRole[];
   actions: DatabaseAction[];
   permissions: DatabasePermission[];
-  userRole: string;
-  onPermissionUpdate: (roleId: string, actionId: string, status: 'granted' | 'denied' | 'conditional') => void;
+  profiles: DatabaseProfile[];
+  exclusions: DatabaseExclusion[];
+  assignments: DatabaseUserRole[];
+  delegations: Delegation[];
+  orgUnits: OrgUnit[];
+  sodRules: SodRule[];
+  // Pending requests, shown as ghost values in their cells
+  changeRequests: PermissionChangeRequest[];
+  userRoles: string[];
+  // Named as the author of exported reports
+  authorName: string;
+  changeReason: string;
+  onPermissionUpdate: (roleId: string, actionId: string, values: PermissionValues, reason: string) => void;
+  onPermissionReset: (roleId: string, actionId: string) => void;
+  onPermissionValidityUpdate: (roleId: string, actionId: string, validity: ValidityWindow) => void;
+  onBulkApply: (changes: PermissionCellChange[], reason: string) => void;
+  onMatrixImport: (payload: MatrixImportPayload, reason: string) => void;
+  // Other people with the matrix open, and the cells they are editing
+  otherEditors: EditorPresence[];
+  // Cells changed by someone else a moment ago
+  remoteChanges: string[];
+  onEditingCellChange: (key: string | null) => void;
 }
 
 export default function AuthorizationMatrixView({ 
   roles, 
   actions, 
   permissions, 
-  userRole, 
-  onPermissionUpdate 
+  profiles,
+  exclusions,
+  assignments,
+  delegations,
+  orgUnits,
+  sodRules,
+  changeRequests,
+  userRoles,
+  authorName,
+  changeReason,
+  onPermissionUpdate,
+  onPermissionReset,
+  onPermissionValidityUpdate,
+  onBulkApply,
+  onMatrixImport,
+  otherEditors,
+  remoteChanges,
+  onEditingCellChange
 }: AuthorizationMatrixViewProps) {
   const { toast } = useToast();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [viewAs, setViewAs] = useState<string>('roles');
+  const [selectedRisk, setSelectedRisk] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<'name' | 'risk-desc' | 'risk-asc'>('name');
+  const [selectedUnit, setSelectedUnit] = useState<string>('all');
+  const [groupByDepartment, setGroupByDepartment] = useState(false);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [editingCell, setEditingCell] = useState<{ role: DatabaseRole; action: DatabaseAction } | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedCells, setSelectedCells] = useState<string[]>([]);
+  // Last plainly clicked cell, the fixed corner of a shift-click range
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const canEdit = userRoles.some(role => role === 'Edit & View' || role === 'Admin');
+  const isAdmin = userRoles.includes('Admin');
 
-  const canEdit = userRole === 'Edit & View' || userRole === 'Admin';
+  // Explicit or inherited grant for a role column
+  const getGrant = (roleId: string, actionId: string) => {
+    return resolveRolePermission(roleId, actionId, permissions, roles);
+  };
 
   const getPermission = (roleId: string, actionId: string) => {
+    return getGrant(roleId, actionId)?.permission;
+  };
+
+  const getRoleName = (roleId: string) => {
+    return roles.find(r => r.id === roleId)?.name || 'Unknown role';
+  };
+
+  // Overrides held by users of this role, i.e. cells where some members deviate from the column
+  const getCellExclusions = (roleId: string, actionId: string) => {
+    return exclusions.filter(exclusion =>
+      exclusion.action_id === actionId &&
+      isActive(exclusion) &&
+      assignments.some(assignment =>
+        assignment.user_id === exclusion.user_id && assignment.role_id === roleId && isActive(assignment)
+      )
+    );
+  };
+
+  // The role's own row, even when it is outside its validity window
+  const getOwnPermission = (roleId: string, actionId: string) => {
     return permissions.find(p => p.role_id === roleId && p.action_id === actionId);
   };
 
+  // Blocking SoD rules refuse the change; critical grants and warning rules are confirmed first
+  const changePermission = (role: DatabaseRole, action: DatabaseAction, values: PermissionValues, reason: string) => {
+    if (getPendingRequest(changeRequests, role.id, action.id)) {
+      toast({
+        title: "Validation Error",
+        description: "A change to this cell is already awaiting approval.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const status: PermissionStatus = values.status ?? 'denied';
+    const change = { role_id: role.id, action_id: action.id, status };
+    const data = { assignments, roles, permissions, exclusions, delegations };
+    const violations = findIntroducedViolations(
+      sodRules,
+      data,
+      { ...data, permissions: applyPermissionChange(permissions, change) },
+      profiles
+    );
+
+    if (isBlocking(violations)) {
+      const ruleNames = Array.from(new Set(
+        violations.filter(v => v.rule.enforcement === 'block').map(v => v.rule.name)
+      ));
+      toast({
+        title: "Blocked by segregation of duties",
+        description: `This change would break: ${ruleNames.join(', ')}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const isCriticalGrant = action.risk_level === 'critical' && status !== 'denied';
+    if (!isCriticalGrant && violations.length === 0) {
+      onPermissionUpdate(role.id, action.id, values, reason);
+      return;
+    }
+
+    const gainingProfiles = isCriticalGrant ? findUsersGainingAccess(profiles, data, change) : null;
+    setPendingChange({ role, action, values, reason, gainingProfiles, violations });
+  };
+
+  const openCellEditor = (role: DatabaseRole, action: DatabaseAction) => {
+    setEditingCell({ role, action });
+    onEditingCellChange(cellKey(role.id, action.id));
+  };
+
+  const closeCellEditor = () => {
+    setEditingCell(null);
+    onEditingCellChange(null);
+  };
+
+  const saveEditingCell = (values: PermissionValues, reason: string) => {
+    if (editingCell) {
+      changePermission(editingCell.role, editingCell.action, values, reason);
+    }
+    closeCellEditor();
+  };
+
+  const confirmPendingChange = () => {
+    if (pendingChange) {
+      onPermissionUpdate(pendingChange.role.id, pendingChange.action.id, pendingChange.values, pendingChange.reason);
+    }
+    setPendingChange(null);
+  };
+
   const exportToCSV = () => {
-    const csvData = [];
-    csvData.push(['Role', 'Action', 'Status', 'Limit', 'Conditions', 'Category']);
+    const csvData: CsvValue[][] = [];
+    csvData.push(['Role', 'Action', 'Status', 'Limit', 'Conditions', 'Category', 'Risk']);
     
     roles.forEach(role => {
       actions.forEach(action => {
@@ -71,24 +310,13 @@ export default function AuthorizationMatrixView({
           permission?.status || 'denied',
           permission?.limit_value || '',
           permission?.conditions || '',
-          action.category
+          action.category,
+          action.risk_level
         ]);
       });
     });
 
-    const csvContent = csvData.map(row => 
-      row.map(field => `"${field}"`).join(',')
-    ).join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `authorization-matrix-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(csvData, 'authorization-matrix');
 
     toast({
       title: "Success",
@@ -96,7 +324,31 @@ export default function AuthorizationMatrixView({
     });
   };
 
-  const getStatusBadge = (permission: DatabasePermission | undefined) => {
+  // Formatted deliverables of the whole matrix, whatever the filters show
+  const exportReport = async (format: 'xlsx' | 'pdf') => {
+    try {
+      setExporting(true);
+      const report = buildMatrixReport({ roles, actions, permissions, assignments }, authorName);
+      const blob = format === 'xlsx' ? await buildMatrixWorkbook(report) : await buildMatrixPdf(report);
+      downloadBlob(blob, 'authorization-matrix-report', format);
+
+      toast({
+        title: "Success",
+        description: `Authorization matrix report exported to ${format.toUpperCase()}.`,
+      });
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the report.",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const getStatusBadge = (permission: Pick<DatabasePermission, 'status'> | undefined) => {
     if (!permission) {
       return <Badge variant="secondary">Denied</Badge>;
     }
@@ -117,19 +369,137 @@ export default function AuthorizationMatrixView({
     const matchesCategory = selectedCategory === 'all' || action.category === selectedCategory;
     const matchesSearch = action.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          action.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
+    const matchesRisk = selectedRisk === 'all' || action.risk_level === selectedRisk;
+    return matchesCategory && matchesSearch && matchesRisk;
+  }).sort((a, b) => {
+    if (sortBy === 'name') return a.name.localeCompare(b.name);
+    const byRisk = riskRank[a.risk_level] - riskRank[b.risk_level];
+    return (sortBy === 'risk-desc' ? -byRisk : byRisk) || a.name.localeCompare(b.name);
   });
 
+  const actionExclusionCount = (actionId: string) => {
+    return exclusions.filter(exclusion => exclusion.action_id === actionId && isActive(exclusion)).length;
+  };
+
+  // A unit filter includes the roles of its teams
+  const selectedUnitIds = selectedUnit === 'all' || selectedUnit === NO_UNIT
+    ? []
+    : [selectedUnit, ...getUnitDescendants(selectedUnit, orgUnits)];
+
+  const getRoleDepartment = (role: DatabaseRole) => getEnclosingUnit(role.org_unit_id, 'department', orgUnits);
+
+  const visibleRoles = roles.filter(role => {
+    if (selectedUnit === 'all') return true;
+    if (selectedUnit === NO_UNIT) return !role.org_unit_id;
+    return !!role.org_unit_id && selectedUnitIds.includes(role.org_unit_id);
+  });
+
+  // Roles without a department go last
+  if (groupByDepartment) {
+    visibleRoles.sort((a, b) => {
+      const departmentA = getRoleDepartment(a)?.name;
+      const departmentB = getRoleDepartment(b)?.name;
+      if (departmentA === departmentB) return 0;
+      if (!departmentA) return 1;
+      if (!departmentB) return -1;
+      return departmentA.localeCompare(departmentB);
+    });
+  }
+
+  const departmentGroups = visibleRoles.reduce<{ name: string; span: number }[]>((groups, role) => {
+    const name = getRoleDepartment(role)?.name || 'No department';
+    const last = groups[groups.length - 1];
+    if (last && last.name === name) {
+      last.span += 1;
+    } else {
+      groups.push({ name, span: 1 });
+    }
+    return groups;
+  }, []);
+
   const categories = Array.from(new Set(actions.map(action => action.category)));
+  const viewedProfile = profiles.find(profile => profile.id === viewAs);
+  const editingGrant = editingCell && getGrant(editingCell.role.id, editingCell.action.id);
+
+  const rowCells = (actionId: string) => visibleRoles.map(role => cellKey(role.id, actionId));
+  const columnCells = (roleId: string) => filteredActions.map(action => cellKey(roleId, action.id));
+  const categoryCells = (category: string) =>
+    filteredActions.filter(action => action.category === category).flatMap(action => rowCells(action.id));
+  const allSelected = (keys: string[]) => keys.length > 0 && keys.every(key => selectedCells.includes(key));
+
+  // Selects the cells, or deselects them when they are all selected already
+  const toggleCells = (keys: string[]) => {
+    const deselect = allSelected(keys);
+    setSelectedCells(prev => deselect
+      ? prev.filter(key => !keys.includes(key))
+      : Array.from(new Set([...prev, ...keys])));
+  };
+
+  const clickCell = (key: string, extendRange: boolean) => {
+    if (extendRange && selectionAnchor) {
+      const range = getCellRange(
+        selectionAnchor,
+        key,
+        filteredActions.map(action => action.id),
+        visibleRoles.map(role => role.id)
+      );
+      setSelectedCells(prev => Array.from(new Set([...prev, ...range])));
+      return;
+    }
+    toggleCells([key]);
+    setSelectionAnchor(key);
+  };
+
+  const stopSelecting = () => {
+    setSelectMode(false);
+    setSelectedCells([]);
+    setSelectionAnchor(null);
+  };
+
+  const applyBulkEdit = (changes: PermissionCellChange[], reason: string) => {
+    setBulkEditOpen(false);
+    setSelectedCells([]);
+    setSelectionAnchor(null);
+    onBulkApply(changes, reason);
+  };
+
+  const applyImport = (payload: MatrixImportPayload, reason: string) => {
+    setImportOpen(false);
+    onMatrixImport(payload, reason);
+  };
 
   return (
     <div className="space-y-6">
-      {/* Export Button */}
-      <div className="flex justify-end">
-        <Button onClick={exportToCSV} variant="outline">
-          <Download className="mr-2 h-4 w-4" />
-          Export CSV
-        </Button>
+      {/* Import and Export Buttons */}
+      <div className="flex justify-end gap-2">
+        {canEdit && (
+          <Button onClick={() => setImportOpen(true)} variant="outline">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={exporting}>
+              <Download className="mr-2 h-4 w-4" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={exportToCSV}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportReport('xlsx')}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Excel Report (XLSX)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportReport('pdf')}>
+              <FileText className="mr-2 h-4 w-4" />
+              PDF Report
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Filters */}
@@ -138,7 +508,7 @@ export default function AuthorizationMatrixView({
           <CardTitle>Filters</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
             <div>
               <Label htmlFor="category-filter">Category</Label>
               <Select value={selectedCategory} onValueChange={setSelectedCategory}>
@@ -162,89 +532,500 @@ export default function AuthorizationMatrixView({
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
+            <div>
+              <Label htmlFor="risk-filter">Risk</Label>
+              <Select value={selectedRisk} onValueChange={setSelectedRisk}>
+                <SelectTrigger id="risk-filter">
+                  <SelectValue placeholder="Select risk" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Risk Levels</SelectItem>
+                  {riskLevels.map(level => (
+                    <SelectItem key={level} value={level}>{riskLevelLabels[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="sort-by">Sort By</Label>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+                <SelectTrigger id="sort-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="name">Name</SelectItem>
+                  <SelectItem value="risk-desc">Risk (highest first)</SelectItem>
+                  <SelectItem value="risk-asc">Risk (lowest first)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="unit-filter">Department</Label>
+              <Select value={selectedUnit} onValueChange={setSelectedUnit}>
+                <SelectTrigger id="unit-filter">
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Units</SelectItem>
+                  {flattenUnitTree(orgUnits).map(({ unit, depth }) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {'\u00a0'.repeat(depth * 2)}{unit.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                </SelectContent>
+              </Select>
+              <label className="mt-2 flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={groupByDepartment}
+                  onCheckedChange={(checked) => setGroupByDepartment(!!checked)}
+                />
+                Group by department
+              </label>
+            </div>
+            <div>
+              <Label htmlFor="view-as">View</Label>
+              <Select value={viewAs} onValueChange={setViewAs}>
+                <SelectTrigger id="view-as">
+                  <SelectValue placeholder="Select view" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="roles">All Roles</SelectItem>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.full_name || profile.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Authorization Matrix */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Permission Matrix</CardTitle>
-          <p className="text-sm text-muted-foreground">
-            {canEdit 
-              ? "Click on permission badges to toggle between granted, denied, and conditional states"
-              : "You have view-only access to the authorization matrix"
-            }
-          </p>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <table className="w-full border-collapse">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left p-4 font-medium">Action</th>
-                  {roles.map(role => (
-                    <th key={role.id} className="text-center p-4 font-medium min-w-32">
-                      <div className="flex flex-col items-center gap-2">
-                        <span>{role.name}</span>
-                        <div 
-                          className="w-4 h-4 rounded-full" 
-                          style={{ backgroundColor: role.color }}
-                        ></div>
-                      </div>
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {filteredActions.map(action => (
-                  <tr key={action.id} className="border-b hover:bg-muted/50">
-                    <td className="p-4">
-                      <div>
-                        <div className="font-medium">{action.name}</div>
-                        <div className="text-sm text-muted-foreground">{action.description}</div>
-                        <Badge variant="outline" className="mt-1">{action.category}</Badge>
-                      </div>
-                    </td>
-                    {roles.map(role => {
-                      const permission = getPermission(role.id, action.id);
-                      return (
-                        <td key={role.id} className="p-4 text-center">
-                          {canEdit ? (
-                            <button
-                              onClick={() => {
-                                const currentStatus = permission?.status || 'denied';
-                                const nextStatus = currentStatus === 'denied' ? 'granted' : 
-                                                 currentStatus === 'granted' ? 'conditional' : 'denied';
-                                onPermissionUpdate(role.id, action.id, nextStatus);
-                              }}
-                              className="hover:scale-105 transition-transform"
-                            >
-                              {getStatusBadge(permission)}
-                            </button>
-                          ) : (
-                            getStatusBadge(permission)
-                          )}
-                          {permission?.limit_value && (
-                            <div className="text-xs text-muted-foreground mt-1">
-                              Limit: {permission.limit_value}
-                            </div>
-                          )}
-                          {permission?.conditions && (
-                            <div className="text-xs text-muted-foreground mt-1">
-                              {permission.conditions}
-                            </div>
+      {viewedProfile ? (
+        <UserEffectivePermissions
+          key={viewedProfile.id}
+          profile={viewedProfile}
+          roles={roles}
+          actions={filteredActions}
+          permissions={permissions}
+          exclusions={exclusions}
+          assignments={assignments}
+          profiles={profiles}
+          delegations={delegations}
+          orgUnits={orgUnits}
+        />
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle>Permission Matrix</CardTitle>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button
+                    variant={selectMode ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => (selectMode ? stopSelecting() : setSelectMode(true))}
+                  >
+                    <MousePointerClick className="mr-2 h-4 w-4" />
+                    {selectMode ? 'Done Selecting' : 'Select Cells'}
+                  </Button>
+                </div>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {canEdit 
+                ? "Click on a permission badge to edit its status, limit and conditions."
+                : "You have view-only access to the authorization matrix"
+              }
+              {" "}Dashed badges are inherited from the parent role.
+              {canEdit && (isAdmin
+                ? " Changes to critical actions need approval from another admin."
+                : " Your changes are submitted for approval by an admin."
+              )}
+            </p>
+            {otherEditors.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Users className="h-4 w-4" />
+                Also here: {Array.from(new Set(otherEditors.map(editor => editor.name))).join(', ')}
+              </p>
+            )}
+            {selectMode && (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-muted/30 p-3 text-sm">
+                <span className="font-medium">{selectedCells.length} cell(s) selected</span>
+                <Select value="" onValueChange={(category) => toggleCells(categoryCells(category))}>
+                  <SelectTrigger className="w-48 h-8">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedCells([])} disabled={selectedCells.length === 0}>
+                  Clear
+                </Button>
+                <Button size="sm" onClick={() => setBulkEditOpen(true)} disabled={selectedCells.length === 0}>
+                  Edit Selected
+                </Button>
+                <span className="text-muted-foreground">
+                  Click cells to select them, shift-click to select a range, or tick a row or column.
+                </span>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  {groupByDepartment && (
+                    <tr className="border-b">
+                      <th className="p-2"></th>
+                      {departmentGroups.map((group, index) => (
+                        <th
+                          key={`${group.name}-${index}`}
+                          colSpan={group.span}
+                          className="p-2 text-center text-sm font-medium text-muted-foreground border-x"
+                        >
+                          {group.name}
+                        </th>
+                      ))}
+                    </tr>
+                  )}
+                  <tr className="border-b">
+                    <th className="text-left p-4 font-medium">Action</th>
+                    {visibleRoles.map(role => (
+                      <th key={role.id} className="text-center p-4 font-medium min-w-32">
+                        <div className="flex flex-col items-center gap-2">
+                          {selectMode && (
+                            <Checkbox
+                              checked={allSelected(columnCells(role.id))}
+                              onCheckedChange={() => toggleCells(columnCells(role.id))}
+                              aria-label={`Select all cells of ${role.name}`}
+                            />
                           )}
-                        </td>
-                      );
-                    })}
+                          <span>{role.name}</span>
+                        {role.parent_role_id && (
+                          <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                            <GitBranch className="h-3 w-3" />
+                            {getRoleName(role.parent_role_id)}
+                          </span>
+                        )}
+                          <div 
+                            className="w-4 h-4 rounded-full" 
+                            style={{ backgroundColor: role.color }}
+                          ></div>
+                        </div>
+                      </th>
+                    ))}
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </CardContent>
-      </Card>
+                </thead>
+                <tbody>
+                  {filteredActions.map(action => (
+                    <tr key={action.id} className="border-b hover:bg-muted/50">
+                      <td className="p-4">
+                        <div className="flex items-start gap-2">
+                          {selectMode && (
+                            <Checkbox
+                              className="mt-3"
+                              checked={allSelected(rowCells(action.id))}
+                              onCheckedChange={() => toggleCells(rowCells(action.id))}
+                              aria-label={`Select all cells of ${action.name}`}
+                            />
+                          )}
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <button className="text-left hover:bg-muted/30 p-2 rounded transition-colors cursor-pointer">
+                                <div className="font-medium flex items-center gap-2">
+                                  <RiskIcon riskLevel={action.risk_level} />
+                                  {action.name}
+                                  {actionExclusionCount(action.id) > 0 && (
+                                    <Badge variant="secondary" className="text-xs gap-1">
+                                      <UserCog className="h-3 w-3" />
+                                      {actionExclusionCount(action.id)}
+                                    </Badge>
+                                  )}
+                                </div>
+                                <div className="text-sm text-muted-foreground">{action.description}</div>
+                                <Badge variant="outline" className="mt-1">{action.category}</Badge>
+                              </button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <ActionExclusionsDialog
+                                action={action}
+                                roles={roles}
+                                profiles={profiles}
+                                exclusions={exclusions}
+                                assignments={assignments}
+                              />
+                            </DialogContent>
+                          </Dialog>
+                        </div>
+                      </td>
+                      {visibleRoles.map(role => {
+                        const grant = getGrant(role.id, action.id);
+                        const permission = grant?.permission;
+                        const cellExclusions = getCellExclusions(role.id, action.id);
+                        const ownPermission = getOwnPermission(role.id, action.id);
+                        const pendingRequest = getPendingRequest(changeRequests, role.id, action.id);
+                        const proposedStatus = pendingRequest && getProposedStatus(pendingRequest, ownPermission);
+                        const key = cellKey(role.id, action.id);
+                        const cellEditors = otherEditors.filter(editor => editor.cell === key);
+                        return (
+                          <td
+                            key={role.id}
+                            className={`p-4 text-center transition-colors ${
+                              selectedCells.includes(key) ? 'bg-primary/10 ring-2 ring-inset ring-primary' : ''
+                            } ${cellEditors.length > 0 ? 'ring-2 ring-inset ring-blue-400' : ''} ${
+                              remoteChanges.includes(key) ? 'bg-amber-100' : ''
+                            }`}
+                          >
+                            {canEdit ? (
+                              <button
+                                onClick={(e) => (selectMode ? clickCell(key, e.shiftKey) : openCellEditor(role, action))}
+                                className={`hover:scale-105 transition-transform ${grant?.inherited ? 'opacity-60 border border-dashed rounded-full' : ''}`}
+                              >
+                                {getStatusBadge(permission)}
+                              </button>
+                            ) : (
+                              <span className={grant?.inherited ? 'inline-block opacity-60 border border-dashed rounded-full' : ''}>
+                                {getStatusBadge(permission)}
+                              </span>
+                            )}
+                            {cellEditors.length > 0 && (
+                              <div className="flex items-center justify-center gap-1 text-xs text-blue-600 mt-1">
+                                <Pencil className="h-3 w-3" />
+                                {cellEditors.map(editor => editor.name).join(', ')}
+                              </div>
+                            )}
+                            {pendingRequest && (
+                              <div
+                                className="flex items-center justify-center gap-1 mt-1 opacity-50"
+                                title={`Pending approval: ${describeProposedValues(pendingRequest)}`}
+                              >
+                                <Hourglass className="h-3 w-3" />
+                                {proposedStatus ? (
+                                  <span className="inline-block border border-dashed rounded-full">
+                                    {getStatusBadge({ status: proposedStatus })}
+                                  </span>
+                                ) : (
+                                  <span className="text-xs italic">Inherit</span>
+                                )}
+                              </div>
+                            )}
+                            {grant?.inherited && (
+                              <div className="text-xs italic text-muted-foreground mt-1">
+                                Inherited from {getRoleName(grant.sourceRoleId)}
+                              </div>
+                            )}
+                            {canEdit && role.parent_role_id && grant && !grant.inherited && (
+                              <button
+                                onClick={() => onPermissionReset(role.id, action.id)}
+                                className="flex items-center justify-center gap-1 mx-auto text-xs text-muted-foreground hover:text-foreground mt-1"
+                                title={`Remove this override and inherit from ${getRoleName(role.parent_role_id)}`}
+                              >
+                                <RotateCcw className="h-3 w-3" />
+                                Inherit
+                              </button>
+                            )}
+                            {permission?.valid_until && (
+                              <div
+                                className={`flex items-center justify-center gap-1 text-xs mt-1 ${
+                                  isExpiringSoon(permission) ? 'text-destructive' : 'text-muted-foreground'
+                                }`}
+                              >
+                                <Clock className="h-3 w-3" />
+                                Until {formatValidityDate(permission.valid_until, 'until')}
+                              </div>
+                            )}
+                            {ownPermission && !isActive(ownPermission) && (
+                              <div className="text-xs italic text-muted-foreground mt-1">
+                                {ownPermission.valid_from && new Date(ownPermission.valid_from) > new Date()
+                                  ? `${ownPermission.status} from ${formatValidityDate(ownPermission.valid_from, 'from')}`
+                                  : `${ownPermission.status} expired`}
+                              </div>
+                            )}
+                            {canEdit && ownPermission && (
+                              <ValidityPopover
+                                title={`${role.name} – ${action.name}`}
+                                value={ownPermission}
+                                onSave={(validity) => onPermissionValidityUpdate(role.id, action.id, validity)}
+                              >
+                                <button
+                                  className="flex items-center justify-center gap-1 mx-auto text-xs text-muted-foreground hover:text-foreground mt-1"
+                                  title="Set when this permission is valid"
+                                >
+                                  <Clock className="h-3 w-3" />
+                                  Validity
+                                </button>
+                              </ValidityPopover>
+                            )}
+                            {permission?.limit_value && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Limit: {permission.limit_value}
+                              </div>
+                            )}
+                            {permission?.conditions && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {permission.conditions}
+                              </div>
+                            )}
+                            {permission?.condition_needs_review && (
+                              <div
+                                className="flex items-center justify-center gap-1 text-xs text-yellow-700 mt-1"
+                                title="This condition is free text that could not be parsed"
+                              >
+                                <AlertTriangle className="h-3 w-3" />
+                                Needs review
+                              </div>
+                            )}
+                            {cellExclusions.length > 0 && (
+                              <div
+                                className="flex items-center justify-center gap-1 text-xs text-primary mt-1"
+                                title={`${cellExclusions.length} user override(s) for this role`}
+                              >
+                                <UserCog className="h-3 w-3" />
+                                {cellExclusions.length} overridden
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editingCell} onOpenChange={(open) => !open && closeCellEditor()}>
+        <DialogContent>
+          {editingCell && (
+            <PermissionEditDialog
+              key={`${editingCell.role.id}-${editingCell.action.id}`}
+              roleName={editingCell.role.name}
+              actionName={editingCell.action.name}
+              permission={editingGrant?.permission}
+              inheritedFrom={editingGrant?.inherited ? getRoleName(editingGrant.sourceRoleId) : undefined}
+              roleNames={roles.map(role => role.name)}
+              orgUnits={orgUnits}
+              changeReason={changeReason}
+              needsApproval={requiresApproval(isAdmin, editingCell.action.risk_level)}
+              onSave={saveEditingCell}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={bulkEditOpen} onOpenChange={setBulkEditOpen}>
+        <DialogContent>
+          {bulkEditOpen && (
+            <BulkEditDialog
+              cells={selectedCells}
+              roles={roles}
+              actions={actions}
+              permissions={permissions}
+              profiles={profiles}
+              assignments={assignments}
+              exclusions={exclusions}
+              delegations={delegations}
+              sodRules={sodRules}
+              changeRequests={changeRequests}
+              orgUnits={orgUnits}
+              isAdmin={isAdmin}
+              changeReason={changeReason}
+              onApply={applyBulkEdit}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-3xl">
+          {importOpen && (
+            <MatrixImportDialog
+              roles={roles}
+              actions={actions}
+              permissions={permissions}
+              profiles={profiles}
+              assignments={assignments}
+              exclusions={exclusions}
+              delegations={delegations}
+              sodRules={sodRules}
+              changeRequests={changeRequests}
+              isAdmin={isAdmin}
+              changeReason={changeReason}
+              onImport={applyImport}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingChange} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingChange?.gainingProfiles ? 'Grant critical action?' : 'Confirm conflicting permission'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingChange && (
+                <>
+                  {pendingChange.gainingProfiles && `"${pendingChange.action.name}" is a critical-risk action. `}
+                  Setting it to {pendingChange.values.status} for {pendingChange.role.name} also applies to roles that
+                  inherit from it.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingChange && pendingChange.violations.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Segregation-of-duties conflicts:</p>
+              <SodViolationList
+                violations={pendingChange.violations}
+                actions={actions}
+                roles={roles}
+                profiles={profiles}
+              />
+            </div>
+          )}
+          {pendingChange?.gainingProfiles && (
+            pendingChange.gainingProfiles.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  {pendingChange.gainingProfiles.length} user(s) would gain access:
+                </p>
+                <ul className="max-h-48 overflow-y-auto text-sm list-disc pl-5">
+                  {pendingChange.gainingProfiles.map(profile => (
+                    <li key={profile.id}>
+                      {profile.full_name || profile.email}
+                      {profile.full_name && profile.email && (
+                        <span className="text-muted-foreground"> ({profile.email})</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No current user would gain access through this change.
+              </p>
+            )
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingChange}>
+              {pendingChange && requiresApproval(isAdmin, pendingChange.action.risk_level)
+                ? 'Submit for Approval'
+                : pendingChange?.gainingProfiles ? 'Grant Access' : 'Apply Anyway'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Siren } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { formatWindowLength } from '@/lib/break-glass';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  break_glass_minutes?: number | null;
+}
+
+interface BreakGlassDialogProps {
+  roles: DatabaseRole[];
+  onInvoked: () => void;
+}
+
+export default function BreakGlassDialog({ roles, onInvoked }: BreakGlassDialogProps) {
+  const { toast } = useToast();
+  const [roleId, setRoleId] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const emergencyRoles = roles.filter(role => role.break_glass_minutes);
+  const selectedRole = emergencyRoles.find(role => role.id === roleId);
+
+  const invokeBreakGlass = async () => {
+    if (!roleId || !reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Choose an emergency role and describe the emergency.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await withChangeReason(
+        supabase.rpc('invoke_break_glass', { emergency_role_id: roleId, reason: reason.trim() }),
+        reason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Emergency access granted",
+        description: `You hold ${selectedRole?.name} for ${formatWindowLength(selectedRole?.break_glass_minutes ?? 0)}. Admins have been notified.`,
+      });
+
+      setRoleId('');
+      setReason('');
+      onInvoked();
+    } catch (error) {
+      console.error('Error invoking break-glass access:', error);
+      toast({
+        title: "Error",
+        description: "Failed to grant emergency access.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Emergency Access</DialogTitle>
+        <DialogDescription>
+          Take on an emergency role immediately, without approval. Use this only when something is broken and waiting is not an option:
+          every admin is notified, everything you change is marked in the audit log, and the elevation is reviewed afterwards.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div>
+          <Label>Emergency Role *</Label>
+          <Select value={roleId} onValueChange={setRoleId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a role" />
+            </SelectTrigger>
+            <SelectContent>
+              {emergencyRoles.map(role => (
+                <SelectItem key={role.id} value={role.id}>
+                  {role.name} - {formatWindowLength(role.break_glass_minutes ?? 0)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedRole && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Ends automatically after {formatWindowLength(selectedRole.break_glass_minutes ?? 0)}
+            </p>
+          )}
+          {emergencyRoles.length === 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              No roles are set up for emergency access
+            </p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="break-glass-reason">Reason *</Label>
+          <Textarea
+            id="break-glass-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Incident number and what needs to be done"
+          />
+        </div>
+
+        <Button
+          variant="destructive"
+          onClick={invokeBreakGlass}
+          disabled={saving || emergencyRoles.length === 0}
+          className="w-full md:w-auto"
+        >
+          <Siren className="mr-2 h-4 w-4" />
+          Break Glass
+        </Button>
+      </div>
+    </>
+  );
+}
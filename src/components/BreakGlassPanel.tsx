@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Siren, Square, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import {
+  breakGlassStateLabels,
+  breakGlassWindowOptions,
+  formatTimeRemaining,
+  formatWindowLength,
+  getBreakGlassState,
+  postIncidentReviewStatusLabels,
+  type BreakGlassSession,
+  type PostIncidentReview,
+} from '@/lib/break-glass';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  break_glass_minutes?: number | null;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface BreakGlassPanelProps {
+  roles: DatabaseRole[];
+  profiles: DatabaseProfile[];
+  sessions: BreakGlassSession[];
+  reviews: PostIncidentReview[];
+  currentProfileId: string | null;
+  isAdmin: boolean;
+  changeReason: string;
+  onEnd: (sessionId: string) => void;
+  onDataChange: () => void;
+}
+
+export default function BreakGlassPanel({
+  roles,
+  profiles,
+  sessions,
+  reviews,
+  currentProfileId,
+  isAdmin,
+  changeReason,
+  onEnd,
+  onDataChange
+}: BreakGlassPanelProps) {
+  const { toast } = useToast();
+  const [newRoleId, setNewRoleId] = useState('');
+  const [newWindow, setNewWindow] = useState('60');
+  const [reviewing, setReviewing] = useState<PostIncidentReview | null>(null);
+  const [findings, setFindings] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const getUserName = (profileId: string | null) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const getRoleName = (roleId: string) => roles.find(r => r.id === roleId)?.name || 'Unknown role';
+
+  const emergencyRoles = roles.filter(role => role.break_glass_minutes);
+  const sortedSessions = [...sessions].sort((a, b) => b.started_at.localeCompare(a.started_at));
+  const openReviews = reviews.filter(review => review.status === 'open').length;
+
+  const setBreakGlassWindow = async (roleId: string, minutes: number | null) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('roles')
+          .update({ break_glass_minutes: minutes })
+          .eq('id', roleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: minutes
+          ? "Role is available for emergency access."
+          : "Role is no longer available for emergency access.",
+      });
+
+      setNewRoleId('');
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating emergency role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update emergency role.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const completeReview = async () => {
+    if (!reviewing) return;
+
+    if (!findings.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Record what was done and whether the elevation was justified.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await withChangeReason(
+        supabase.rpc('complete_post_incident_review', { review_id: reviewing.id, findings: findings.trim() }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Post-incident review completed successfully.",
+      });
+
+      setReviewing(null);
+      setFindings('');
+      onDataChange();
+    } catch (error) {
+      console.error('Error completing post-incident review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to complete post-incident review.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStateBadge = (session: BreakGlassSession) => {
+    const state = getBreakGlassState(session);
+    switch (state) {
+      case 'active':
+        return <Badge variant="destructive">{breakGlassStateLabels[state]}</Badge>;
+      default:
+        return <Badge variant="secondary">{breakGlassStateLabels[state]}</Badge>;
+    }
+  };
+
+  const renderReview = (session: BreakGlassSession) => {
+    const review = reviews.find(r => r.session_id === session.id);
+    if (!review) return <span className="text-muted-foreground">—</span>;
+
+    const canReview = isAdmin &&
+      review.status === 'open' &&
+      session.user_id !== currentProfileId &&
+      getBreakGlassState(session) !== 'active';
+
+    return (
+      <div className="space-y-1">
+        <Badge variant={review.status === 'open' ? 'outline' : 'default'}>
+          {postIncidentReviewStatusLabels[review.status]}
+        </Badge>
+        {review.status === 'completed' && (
+          <div className="text-xs text-muted-foreground">
+            {getUserName(review.reviewer_id)}: {review.findings}
+          </div>
+        )}
+        {canReview && (
+          <Button size="sm" variant="outline" onClick={() => setReviewing(review)}>
+            <ClipboardCheck className="mr-1 h-4 w-4" />
+            Review
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Siren className="h-5 w-5" />
+          Emergency Access
+          {isAdmin && openReviews > 0 && (
+            <Badge variant="outline">{openReviews} review(s) open</Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Break-glass elevations and their post-incident reviews. Audit entries made during an elevation are marked in the audit log.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isAdmin && (
+          <div className="space-y-3">
+            <Label>Emergency Roles</Label>
+            <div className="flex flex-wrap gap-2">
+              {emergencyRoles.map(role => (
+                <Badge key={role.id} variant="outline" className="gap-1">
+                  {role.name} · {formatWindowLength(role.break_glass_minutes ?? 0)}
+                  <button
+                    onClick={() => setBreakGlassWindow(role.id, null)}
+                    className="ml-1 hover:text-destructive"
+                    aria-label={`Disable emergency access to ${role.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {emergencyRoles.length === 0 && (
+                <span className="text-sm text-muted-foreground">No roles are set up for emergency access</span>
+              )}
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Select value={newRoleId} onValueChange={setNewRoleId}>
+                <SelectTrigger className="md:w-64">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.filter(role => !role.break_glass_minutes).map(role => (
+                    <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newWindow} onValueChange={setNewWindow}>
+                <SelectTrigger className="md:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {breakGlassWindowOptions.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatWindowLength(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => setBreakGlassWindow(newRoleId, Number(newWindow))}
+                disabled={!newRoleId}
+              >
+                Enable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Window</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Post-Incident Review</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedSessions.map(session => {
+              const active = getBreakGlassState(session) === 'active';
+              return (
+                <TableRow key={session.id}>
+                  <TableCell className="text-sm">{getUserName(session.user_id)}</TableCell>
+                  <TableCell className="text-sm">{getRoleName(session.role_id)}</TableCell>
+                  <TableCell className="text-sm max-w-xs">{session.reason}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    <div>{new Date(session.started_at).toLocaleString()}</div>
+                    <div className="text-muted-foreground">
+                      {active
+                        ? formatTimeRemaining(session.expires_at)
+                        : `until ${new Date(session.ended_at ?? session.expires_at).toLocaleString()}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>{getStateBadge(session)}</TableCell>
+                  <TableCell className="text-sm max-w-xs">{renderReview(session)}</TableCell>
+                  <TableCell>
+                    {active && (isAdmin || session.user_id === currentProfileId) && (
+                      <Button size="sm" variant="outline" onClick={() => onEnd(session.id)}>
+                        <Square className="mr-1 h-4 w-4" />
+                        End Now
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {sortedSessions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No emergency elevations
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Post-Incident Review</DialogTitle>
+            <DialogDescription>
+              Check the audit entries marked with this elevation, then record whether it was justified and any follow-up.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="review-findings">Findings *</Label>
+            <Textarea
+              id="review-findings"
+              value={findings}
+              onChange={(e) => setFindings(e.target.value)}
+              placeholder="Justified: restored payroll export during incident INC-311; no follow-up needed"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button onClick={completeReview} disabled={saving}>Complete Review</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
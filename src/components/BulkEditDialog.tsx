@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { formatConditions, type Condition } from '@/lib/conditions';
+import {
+  getPendingRequest,
+  requiresApproval,
+  type PermissionChangeRequest,
+  type PermissionValues,
+} from '@/lib/change-requests';
+import { applyCellChanges, parseCellKey, planBulkChanges, type PermissionCellChange } from '@/lib/bulk-edit';
+import type { PermissionStatus, RolePermission } from '@/lib/permission-resolver';
+import type { RiskLevel } from '@/lib/risk';
+import { findIntroducedViolations, isBlocking, type SodData, type SodRule } from '@/lib/sod';
+import type { OrgUnit } from '@/lib/org-units';
+import ConditionEditor from './ConditionEditor';
+import SodViolationList from './SodViolationList';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  parent_role_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  risk_level: RiskLevel;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface BulkEditDialogProps {
+  cells: string[];
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  permissions: RolePermission[];
+  profiles: DatabaseProfile[];
+  assignments: SodData['assignments'];
+  exclusions: SodData['exclusions'];
+  delegations: SodData['delegations'];
+  sodRules: SodRule[];
+  changeRequests: PermissionChangeRequest[];
+  orgUnits: OrgUnit[];
+  isAdmin: boolean;
+  changeReason: string;
+  onApply: (changes: PermissionCellChange[], reason: string) => void;
+}
+
+// Leaves each cell's status as it is
+const KEEP = 'keep';
+
+export default function BulkEditDialog({
+  cells,
+  roles,
+  actions,
+  permissions,
+  profiles,
+  assignments,
+  exclusions,
+  delegations,
+  sodRules,
+  changeRequests,
+  orgUnits,
+  isAdmin,
+  changeReason,
+  onApply
+}: BulkEditDialogProps) {
+  const [form, setForm] = useState({
+    status: KEEP as PermissionStatus | typeof KEEP,
+    setLimit: false,
+    limit: '',
+    setConditions: false,
+    conditions: [] as Condition[],
+    reason: changeReason
+  });
+
+  const patch: PermissionValues = {};
+  if (form.status !== KEEP) patch.status = form.status;
+  if (form.setLimit) patch.limit_value = form.limit.trim() ? Number(form.limit) : null;
+  if (form.setConditions) {
+    patch.conditions = formatConditions(form.conditions) || null;
+    patch.condition_spec = form.conditions.length > 0 ? form.conditions : null;
+    patch.condition_needs_review = false;
+  }
+  const hasPatch = Object.keys(patch).length > 0;
+
+  // Cells with a request already awaiting approval are left out, as in single-cell edits
+  const awaitingApproval = cells.filter(key => {
+    const { roleId, actionId } = parseCellKey(key);
+    return !!getPendingRequest(changeRequests, roleId, actionId);
+  });
+  const plan = planBulkChanges(cells.filter(key => !awaitingApproval.includes(key)), patch, permissions, roles);
+  const data = { assignments, roles, permissions, exclusions, delegations };
+  const violations = plan.changes.length > 0
+    ? findIntroducedViolations(sodRules, data, { ...data, permissions: applyCellChanges(permissions, plan.changes) }, profiles)
+    : [];
+  const blocked = isBlocking(violations);
+
+  const riskOf = (actionId: string) => actions.find(a => a.id === actionId)?.risk_level ?? 'low';
+  const approvalCount = plan.changes.filter(change => requiresApproval(isAdmin, riskOf(change.action_id))).length;
+  const criticalGrants = plan.changes.filter(change =>
+    riskOf(change.action_id) === 'critical' && change.values?.status !== 'denied'
+  ).length;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Edit {cells.length} Selected Cells</DialogTitle>
+        <DialogDescription>
+          Only the fields you set are changed; everything else in each cell stays as it is
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+        <div>
+          <Label>Permission Status</Label>
+          <Select
+            value={form.status}
+            onValueChange={(value) => setForm(prev => ({ ...prev, status: value as typeof prev.status }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Keep current status</SelectItem>
+              <SelectItem value="granted">Granted</SelectItem>
+              <SelectItem value="denied">Denied</SelectItem>
+              <SelectItem value="conditional">Conditional</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={form.setLimit}
+              disabled={form.status === 'denied'}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, setLimit: !!checked }))}
+            />
+            Set limit (leave empty to remove it)
+          </label>
+          {form.setLimit && form.status !== 'denied' && (
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              placeholder="No limit"
+              value={form.limit}
+              onChange={(e) => setForm(prev => ({ ...prev, limit: e.target.value }))}
+            />
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={form.setConditions}
+              disabled={form.status === 'denied'}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, setConditions: !!checked }))}
+            />
+            Replace conditions
+          </label>
+          {form.setConditions && form.status !== 'denied' && (
+            <ConditionEditor
+              value={form.conditions}
+              onChange={(conditions) => setForm(prev => ({ ...prev, conditions }))}
+              roleNames={roles.map(role => role.name)}
+              orgUnits={orgUnits}
+            />
+          )}
+        </div>
+        <div>
+          <Label htmlFor="bulk-reason">Reason for Change</Label>
+          <Textarea
+            id="bulk-reason"
+            placeholder="Recorded in the audit log"
+            value={form.reason}
+            onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+          />
+        </div>
+
+        {hasPatch && (
+          <div className="rounded-lg border p-3 space-y-2 text-sm">
+            <p className="font-medium">
+              {plan.changes.length} of {cells.length} cell(s) will change
+            </p>
+            {plan.unchanged > 0 && (
+              <p className="text-muted-foreground">{plan.unchanged} already match and are left alone.</p>
+            )}
+            {awaitingApproval.length > 0 && (
+              <p className="text-muted-foreground">
+                {awaitingApproval.length} already have a change awaiting approval and are skipped.
+              </p>
+            )}
+            {approvalCount > 0 && (
+              <p className="text-muted-foreground">
+                {approvalCount} change(s) are submitted for approval instead of applied.
+              </p>
+            )}
+            {criticalGrants > 0 && (
+              <p className="text-muted-foreground">{criticalGrants} change(s) grant a critical-risk action.</p>
+            )}
+            {plan.invalid > 0 && (
+              <p className="flex items-start gap-1 text-destructive">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {plan.invalid} cell(s) cannot take this change: {plan.error}
+              </p>
+            )}
+            {violations.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">
+                  {blocked ? 'Blocked by segregation of duties:' : 'Segregation-of-duties conflicts:'}
+                </p>
+                <SodViolationList violations={violations} actions={actions} roles={roles} profiles={profiles} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <Button
+          className="w-full"
+          disabled={plan.changes.length === 0 || plan.invalid > 0 || blocked}
+          onClick={() => onApply(plan.changes, form.reason.trim())}
+        >
+          {violations.length > 0 ? 'Apply Anyway' : `Apply to ${plan.changes.length} Cell(s)`}
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, ClipboardCheck, Undo2, X } from 'lucide-react';
+import {
+  describeProposedValues,
+  type ActionChangeRequest,
+  type PermissionChangeRequest,
+} from '@/lib/change-requests';
+import { riskLevelLabels, type RiskLevel } from '@/lib/risk';
+import RiskIcon from './RiskIcon';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  risk_level: RiskLevel;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface ChangeRequestsPanelProps {
+  requests: PermissionChangeRequest[];
+  actionRequests: ActionChangeRequest[];
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  profiles: DatabaseProfile[];
+  currentProfileId: string | null;
+  isAdmin: boolean;
+  onApprove: (requestId: string, comment: string) => void;
+  onReject: (requestId: string, comment: string) => void;
+  onCancel: (requestId: string) => void;
+  onApproveAction: (requestId: string, comment: string) => void;
+  onRejectAction: (requestId: string, comment: string) => void;
+  onCancelAction: (requestId: string) => void;
+}
+
+export default function ChangeRequestsPanel({
+  requests,
+  actionRequests,
+  roles,
+  actions,
+  profiles,
+  currentProfileId,
+  isAdmin,
+  onApprove,
+  onReject,
+  onCancel,
+  onApproveAction,
+  onRejectAction,
+  onCancelAction
+}: ChangeRequestsPanelProps) {
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const getRole = (roleId: string) => roles.find(r => r.id === roleId);
+  const getAction = (actionId: string) => actions.find(a => a.id === actionId);
+  const getUserName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const pendingActionRequests = actionRequests.filter(request => request.status === 'pending');
+
+  const renderReview = (
+    request: { id: string; requested_by: string },
+    approve: (requestId: string, comment: string) => void,
+    reject: (requestId: string, comment: string) => void,
+    cancel: (requestId: string) => void
+  ) => {
+    const isAuthor = request.requested_by === currentProfileId;
+    return isAuthor ? (
+      <Button size="sm" variant="outline" onClick={() => cancel(request.id)}>
+        <Undo2 className="mr-1 h-4 w-4" />
+        Withdraw
+      </Button>
+    ) : isAdmin ? (
+      <div className="space-y-2 min-w-48">
+        <Input
+          placeholder="Comment (optional)"
+          value={comments[request.id] ?? ''}
+          onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => approve(request.id, comments[request.id] ?? '')}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-destructive hover:text-destructive"
+            onClick={() => reject(request.id, comments[request.id] ?? '')}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+        </div>
+      </div>
+    ) : (
+      <span className="text-sm text-muted-foreground">Awaiting an admin</span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Pending Approvals
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Matrix edits by editors, any edit to a critical action, and lowering a critical action's risk level take effect only after a different admin approves them
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Cell</TableHead>
+              <TableHead>Proposed Change</TableHead>
+              <TableHead>Requested By</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Review</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pendingRequests.map(request => {
+              const role = getRole(request.role_id);
+              const action = getAction(request.action_id);
+
+              return (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <Badge variant="outline" style={{ borderColor: role?.color, color: role?.color }}>
+                      {role?.name || 'Unknown role'}
+                    </Badge>
+                    <div className="flex items-center gap-1 mt-1 text-sm font-medium">
+                      {action && <RiskIcon riskLevel={action.risk_level} />}
+                      {action?.name || 'Unknown action'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs">
+                    {request.current_values?.status && (
+                      <div className="text-muted-foreground">Currently: {request.current_values.status}</div>
+                    )}
+                    <div>{describeProposedValues(request)}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{getUserName(request.requested_by)}</div>
+                    <div className="text-muted-foreground">{new Date(request.created_at).toLocaleString()}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{request.reason || '—'}</TableCell>
+                  <TableCell>
+                    {renderReview(request, onApprove, onReject, onCancel)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {pendingRequests.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No matrix changes are waiting for approval
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {pendingActionRequests.length > 0 && (
+          <Table className="mt-6">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Action</TableHead>
+                <TableHead>Proposed Risk Level</TableHead>
+                <TableHead>Requested By</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pendingActionRequests.map(request => {
+                const action = getAction(request.action_id);
+
+                return (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-1 text-sm font-medium">
+                        {action && <RiskIcon riskLevel={action.risk_level} />}
+                        {action?.name || 'Unknown action'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div className="text-muted-foreground">Currently: {riskLevelLabels[request.current_risk_level]}</div>
+                      <div>{riskLevelLabels[request.proposed_risk_level]}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{getUserName(request.requested_by)}</div>
+                      <div className="text-muted-foreground">{new Date(request.created_at).toLocaleString()}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{request.reason || '—'}</TableCell>
+                    <TableCell>
+                      {renderReview(request, onApproveAction, onRejectAction, onCancelAction)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import {
+  conditionTypeLabels,
+  environments,
+  formatConditions,
+  scopeLevelLabels,
+  validateCondition,
+  type Condition,
+  type ConditionType,
+  type Environment,
+  type ScopeLevel,
+} from '@/lib/conditions';
+import type { OrgUnit } from '@/lib/org-units';
+
+interface ConditionEditorProps {
+  value: Condition[];
+  onChange: (conditions: Condition[]) => void;
+  // Role names offered for approval conditions
+  roleNames: string[];
+  // Units offered for department and team scopes; without them the unit is typed by name
+  orgUnits?: OrgUnit[];
+}
+
+const OWN_UNIT = 'own';
+// A unit typed by name before org units existed, kept until someone picks a real one
+const NAMED_UNIT = 'named';
+
+const newCondition = (type: ConditionType): Condition => {
+  switch (type) {
+    case 'scope':
+      return { type: 'scope', scope: 'department' };
+    case 'approval':
+      return { type: 'approval', role: '' };
+    case 'amount':
+      return { type: 'amount', max: 0 };
+    case 'environment':
+      return { type: 'environment', environments: ['staging'] };
+  }
+};
+
+export default function ConditionEditor({ value, onChange, roleNames, orgUnits = [] }: ConditionEditorProps) {
+  const updateAt = (index: number, condition: Condition) => {
+    onChange(value.map((existing, i) => (i === index ? condition : existing)));
+  };
+
+  const removeAt = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const renderFields = (condition: Condition, index: number) => {
+    switch (condition.type) {
+      case 'scope':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={condition.scope}
+              onValueChange={(scope) => updateAt(index, {
+                type: 'scope',
+                scope: scope as ScopeLevel,
+                unit: scope === 'team' || scope === 'department' ? condition.unit : undefined,
+                unitId: scope === 'team' || scope === 'department' ? condition.unitId : undefined
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(scopeLevelLabels) as ScopeLevel[]).map(scope => (
+                  <SelectItem key={scope} value={scope}>{scopeLevelLabels[scope]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {(condition.scope === 'team' || condition.scope === 'department') && orgUnits.length > 0 && (
+              <Select
+                value={condition.unitId ?? (condition.unit ? NAMED_UNIT : OWN_UNIT)}
+                onValueChange={(unitId) => {
+                  if (unitId === NAMED_UNIT) return;
+                  const unit = orgUnits.find(u => u.id === unitId);
+                  updateAt(index, { type: 'scope', scope: condition.scope, unit: unit?.name, unitId: unit?.id });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={OWN_UNIT}>Requester's own {condition.scope}</SelectItem>
+                  {condition.unit && !condition.unitId && (
+                    <SelectItem value={NAMED_UNIT}>{condition.unit} (by name)</SelectItem>
+                  )}
+                  {orgUnits.filter(unit => unit.kind === condition.scope).map(unit => (
+                    <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {(condition.scope === 'team' || condition.scope === 'department') && orgUnits.length === 0 && (
+              <Input
+                placeholder="Requester's own (or name one)"
+                value={condition.unit ?? ''}
+                onChange={(e) => updateAt(index, { ...condition, unit: e.target.value || undefined })}
+              />
+            )}
+          </div>
+        );
+      case 'approval':
+        return (
+          <Select value={condition.role} onValueChange={(role) => updateAt(index, { type: 'approval', role })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select approving role" />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...roleNames, ...(condition.role ? [condition.role] : [])])).map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'amount':
+        return (
+          <Input
+            type="number"
+            min="1"
+            placeholder="Maximum amount ($)"
+            value={condition.max || ''}
+            onChange={(e) => updateAt(index, { type: 'amount', max: Number(e.target.value) })}
+          />
+        );
+      case 'environment':
+        return (
+          <div className="flex gap-4">
+            {environments.map(environment => (
+              <label key={environment} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={condition.environments.includes(environment)}
+                  onCheckedChange={(checked) => updateAt(index, {
+                    type: 'environment',
+                    environments: checked
+                      ? [...condition.environments, environment]
+                      : condition.environments.filter((e: Environment) => e !== environment)
+                  })}
+                />
+                {environment}
+              </label>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((condition, index) => {
+        const error = validateCondition(condition);
+        return (
+          <div key={index} className="p-3 border rounded space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{conditionTypeLabels[condition.type]}</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => removeAt(index)}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderFields(condition, index)}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+
+      <Select value="" onValueChange={(type) => onChange([...value, newCondition(type as ConditionType)])}>
+        <SelectTrigger>
+          <SelectValue placeholder="Add a condition..." />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(conditionTypeLabels) as ConditionType[]).map(type => (
+            <SelectItem key={type} value={type}>{conditionTypeLabels[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Stored as: {formatConditions(value)}
+        </p>
+      )}
+    </div>
+  );
+}
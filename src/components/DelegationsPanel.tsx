@@ -0,0 +1,424 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Handshake, Plus, Square } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import type { Delegation, RoleAssignment, RoleNode, RolePermission, UserExclusion } from '@/lib/permission-resolver';
+import { delegationStateLabels, getDelegableActionIds, getDelegationState } from '@/lib/delegations';
+import { findIntroducedViolations, isBlocking, type SodRule } from '@/lib/sod';
+import { formatValidityDate, validateValidityWindow, type ValidityWindow } from '@/lib/validity';
+import SodViolationList from './SodViolationList';
+import ValidityFields from './ValidityFields';
+
+interface DatabaseRole extends RoleNode {
+  name: string;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface DatabaseDelegation extends Delegation {
+  created_by: string | null;
+  created_at: string;
+}
+
+interface DelegationsPanelProps {
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  profiles: DatabaseProfile[];
+  permissions: RolePermission[];
+  exclusions: UserExclusion[];
+  assignments: RoleAssignment[];
+  delegations: DatabaseDelegation[];
+  sodRules: SodRule[];
+  currentProfileId: string | null;
+  isAdmin: boolean;
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const emptyForm = {
+  delegatorId: '',
+  delegateId: '',
+  allActions: true,
+  actionIds: [] as string[],
+  limit: '',
+  validity: { valid_from: null, valid_until: null } as ValidityWindow,
+  reason: ''
+};
+
+export default function DelegationsPanel({
+  roles,
+  actions,
+  profiles,
+  permissions,
+  exclusions,
+  assignments,
+  delegations,
+  sodRules,
+  currentProfileId,
+  isAdmin,
+  changeReason,
+  onDataChange
+}: DelegationsPanelProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // Only admins delegate on someone else's behalf
+  const delegatorId = isAdmin ? form.delegatorId || currentProfileId || '' : currentProfileId || '';
+
+  const getUserName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const delegableActionIds = delegatorId
+    ? getDelegableActionIds(delegatorId, { assignments, roles, permissions, exclusions }, actions.map(a => a.id))
+    : [];
+
+  // Checked as if the delegation ran from now on; a later start does not make the conflict go away
+  const data = { assignments, roles, permissions, exclusions, delegations };
+  const violations = delegatorId && form.delegateId && delegatorId !== form.delegateId
+    ? findIntroducedViolations(sodRules, data, {
+        ...data,
+        delegations: [...delegations, {
+          id: 'new-delegation',
+          delegator_id: delegatorId,
+          delegate_id: form.delegateId,
+          action_ids: form.allActions ? [] : form.actionIds,
+        }],
+      }, profiles)
+    : [];
+  const blocked = isBlocking(violations);
+
+  const visibleDelegations = delegations
+    .filter(delegation =>
+      isAdmin || delegation.delegator_id === currentProfileId || delegation.delegate_id === currentProfileId
+    )
+    .sort((a, b) => new Date(b.valid_until ?? 0).getTime() - new Date(a.valid_until ?? 0).getTime());
+
+  const createDelegation = async () => {
+    if (!delegatorId || !form.delegateId || !form.validity.valid_until) {
+      toast({
+        title: "Validation Error",
+        description: "Choose who receives the authority and when the delegation ends.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (delegatorId === form.delegateId) {
+      toast({
+        title: "Validation Error",
+        description: "Users cannot delegate to themselves.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!form.allActions && form.actionIds.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Select at least one action to delegate.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const limit = form.limit.trim() === '' ? null : Number(form.limit);
+    if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+      toast({
+        title: "Validation Error",
+        description: "The limit must be a whole number of zero or more.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const validityError = validateValidityWindow(form.validity);
+    if (validityError) {
+      toast({
+        title: "Validation Error",
+        description: validityError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await withChangeReason(
+        supabase
+          .from('delegations')
+          .insert({
+            delegator_id: delegatorId,
+            delegate_id: form.delegateId,
+            action_ids: form.allActions ? [] : form.actionIds,
+            limit_value: limit,
+            reason: form.reason.trim() || null,
+            valid_from: form.validity.valid_from ?? undefined,
+            valid_until: form.validity.valid_until,
+            created_by: currentProfileId
+          }),
+        changeReason || form.reason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Delegation created successfully.",
+      });
+
+      setForm(emptyForm);
+      onDataChange();
+    } catch (error) {
+      console.error('Error creating delegation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create delegation.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A delegation that has not started yet is removed, a running one is cut short
+  const endDelegation = async (delegation: DatabaseDelegation) => {
+    try {
+      const query = supabase.from('delegations');
+      const { error } = await withChangeReason(
+        getDelegationState(delegation) === 'scheduled'
+          ? query.delete().eq('id', delegation.id)
+          : query.update({ valid_until: new Date().toISOString() }).eq('id', delegation.id),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Delegation ended successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error ending delegation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to end delegation.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeScope = (delegation: DatabaseDelegation) => {
+    if (delegation.action_ids.length === 0) return 'All permissions';
+    return delegation.action_ids
+      .map(actionId => actions.find(a => a.id === actionId)?.name || 'Unknown action')
+      .join(', ');
+  };
+
+  const getStateBadge = (delegation: DatabaseDelegation) => {
+    const state = getDelegationState(delegation);
+    switch (state) {
+      case 'active':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700">{delegationStateLabels[state]}</Badge>;
+      case 'scheduled':
+        return <Badge variant="outline">{delegationStateLabels[state]}</Badge>;
+      default:
+        return <Badge variant="secondary">{delegationStateLabels[state]}</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Handshake className="h-5 w-5" />
+          Delegations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Lend your permissions to a colleague while you are away. They act with your authority, never more than you hold yourself, until the end date.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {isAdmin && (
+            <div>
+              <Label>Delegate From</Label>
+              <Select
+                value={delegatorId}
+                onValueChange={(value) => setForm(prev => ({ ...prev, delegatorId: value, actionIds: [] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.full_name || profile.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label>Delegate To *</Label>
+            <Select value={form.delegateId} onValueChange={(value) => setForm(prev => ({ ...prev, delegateId: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.filter(profile => profile.id !== delegatorId).map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.full_name || profile.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="delegation-limit">Limit (optional)</Label>
+            <Input
+              id="delegation-limit"
+              type="number"
+              min="0"
+              value={form.limit}
+              onChange={(e) => setForm(prev => ({ ...prev, limit: e.target.value }))}
+              placeholder="Keep the delegator's limit"
+            />
+          </div>
+          <div>
+            <Label htmlFor="delegation-reason">Reason</Label>
+            <Input
+              id="delegation-reason"
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="Annual leave"
+            />
+          </div>
+        </div>
+
+        <ValidityFields
+          value={form.validity}
+          onChange={(validity) => setForm(prev => ({ ...prev, validity }))}
+        />
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={form.allActions}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, allActions: !!checked }))}
+            />
+            Delegate all of {delegatorId === currentProfileId ? 'my' : `${getUserName(delegatorId)}'s`} permissions
+          </label>
+          {!form.allActions && (
+            <div className="flex flex-wrap gap-4 pl-6">
+              {actions.filter(action => delegableActionIds.includes(action.id)).map(action => (
+                <label key={action.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.actionIds.includes(action.id)}
+                    onCheckedChange={(checked) => setForm(prev => ({
+                      ...prev,
+                      actionIds: checked
+                        ? [...prev.actionIds, action.id]
+                        : prev.actionIds.filter(id => id !== action.id)
+                    }))}
+                  />
+                  {action.name}
+                </label>
+              ))}
+              {delegableActionIds.length === 0 && (
+                <span className="text-sm text-muted-foreground">No permissions to delegate</span>
+              )}
+            </div>
+          )}
+        </div>
+
+        {violations.length > 0 && (
+          <div className="space-y-2 text-sm">
+            <p className="font-medium">
+              {blocked ? 'Blocked by segregation of duties:' : 'Segregation-of-duties conflicts:'}
+            </p>
+            <SodViolationList violations={violations} actions={actions} roles={roles} profiles={profiles} />
+          </div>
+        )}
+
+        <Button onClick={createDelegation} disabled={saving || !delegatorId || blocked} className="w-full md:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          {violations.length > 0 ? 'Create Delegation Anyway' : 'Create Delegation'}
+        </Button>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>From → To</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead>Limit</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleDelegations.map(delegation => {
+              const canManage = isAdmin || delegation.delegator_id === currentProfileId;
+              return (
+                <TableRow key={delegation.id}>
+                  <TableCell className="text-sm">
+                    <div>{getUserName(delegation.delegator_id)} → {getUserName(delegation.delegate_id)}</div>
+                    {delegation.reason && <div className="text-muted-foreground">{delegation.reason}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs">{describeScope(delegation)}</TableCell>
+                  <TableCell className="text-sm">{delegation.limit_value ?? '—'}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {delegation.valid_from ? formatValidityDate(delegation.valid_from, 'from') : '—'}
+                    {' – '}
+                    {delegation.valid_until ? formatValidityDate(delegation.valid_until, 'until') : '—'}
+                  </TableCell>
+                  <TableCell>{getStateBadge(delegation)}</TableCell>
+                  <TableCell>
+                    {canManage && getDelegationState(delegation) !== 'expired' && (
+                      <Button size="sm" variant="outline" onClick={() => endDelegation(delegation)}>
+                        <Square className="mr-1 h-4 w-4" />
+                        End Now
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {visibleDelegations.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No delegations
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import type { EditHistory } from '@/lib/history';
+
+interface EditHistoryMenuProps {
+  history: EditHistory;
+  // True while an undo or redo is being written
+  busy: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modifierKey = isMac ? '⌘' : 'Ctrl+';
+
+export default function EditHistoryMenu({ history, busy, onUndo, onRedo }: EditHistoryMenuProps) {
+  const lastDone = history.past[history.past.length - 1];
+  const lastUndone = history.future[history.future.length - 1];
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onUndo}
+        disabled={busy || !lastDone}
+        title={lastDone ? `Undo ${lastDone.label} (${modifierKey}Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onRedo}
+        disabled={busy || !lastUndone}
+        title={lastUndone ? `Redo ${lastUndone.label} (${modifierKey}Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" title="Edit history">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="border-b p-3">
+            <div className="font-medium">Edit History</div>
+            <div className="text-xs text-muted-foreground">
+              Your changes in this session. Undo with {modifierKey}Z, redo with {modifierKey}Shift+Z.
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {/* Undone entries stay above the current point until a new edit replaces them */}
+            {history.future.map(entry => (
+              <div key={entry.id} className="border-b p-3 text-sm text-muted-foreground">
+                <div className="line-through">{entry.label}</div>
+                <div className="mt-1 text-xs">Undone</div>
+              </div>
+            ))}
+            {[...history.past].reverse().map((entry, index) => (
+              <div key={entry.id} className="border-b p-3 text-sm">
+                <div className={index === 0 ? 'font-medium' : ''}>{entry.label}</div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {new Date(entry.at).toLocaleTimeString()}
+                </div>
+              </div>
+            ))}
+            {history.past.length === 0 && history.future.length === 0 && (
+              <p className="p-6 text-center text-sm text-muted-foreground">No changes yet</p>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
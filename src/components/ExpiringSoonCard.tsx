@@ -0,0 +1,100 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+import { daysUntil, EXPIRING_SOON_DAYS, isExpiringSoon, type ValidityWindow } from '@/lib/validity';
+
+interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface ExpiringSoonCardProps {
+  roles: NamedEntity[];
+  actions: NamedEntity[];
+  profiles: DatabaseProfile[];
+  permissions: (ValidityWindow & { id: string; role_id: string; action_id: string })[];
+  exclusions: (ValidityWindow & { id: string; user_id: string; action_id: string })[];
+  assignments: (ValidityWindow & { id: string; user_id: string; role_id: string })[];
+}
+
+interface ExpiringItem {
+  key: string;
+  kind: 'Permission' | 'Override' | 'Role';
+  label: string;
+  validUntil: string;
+}
+
+export default function ExpiringSoonCard({
+  roles,
+  actions,
+  profiles,
+  permissions,
+  exclusions,
+  assignments
+}: ExpiringSoonCardProps) {
+  const getRoleName = (roleId: string) => roles.find(r => r.id === roleId)?.name || 'Unknown role';
+  const getActionName = (actionId: string) => actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  const getUserName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const items: ExpiringItem[] = [
+    ...permissions.filter(p => isExpiringSoon(p)).map(p => ({
+      key: `permission-${p.id}`,
+      kind: 'Permission' as const,
+      label: `${getRoleName(p.role_id)} · ${getActionName(p.action_id)}`,
+      validUntil: p.valid_until as string,
+    })),
+    ...exclusions.filter(e => isExpiringSoon(e)).map(e => ({
+      key: `override-${e.id}`,
+      kind: 'Override' as const,
+      label: `${getUserName(e.user_id)} · ${getActionName(e.action_id)}`,
+      validUntil: e.valid_until as string,
+    })),
+    ...assignments.filter(a => isExpiringSoon(a)).map(a => ({
+      key: `role-${a.id}`,
+      kind: 'Role' as const,
+      label: `${getUserName(a.user_id)} · ${getRoleName(a.role_id)}`,
+      validUntil: a.valid_until as string,
+    })),
+  ].sort((a, b) => new Date(a.validUntil).getTime() - new Date(b.validUntil).getTime());
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Expiring Soon</CardTitle>
+        <Clock className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{items.length}</div>
+        {items.length > 0 ? (
+          <ul className="mt-2 max-h-32 overflow-y-auto space-y-1 text-xs">
+            {items.map(item => {
+              const days = daysUntil(item.validUntil);
+              return (
+                <li key={item.key} className="flex items-center justify-between gap-2">
+                  <span className="truncate" title={item.label}>
+                    <Badge variant="outline" className="mr-1 px-1 py-0 text-[10px]">{item.kind}</Badge>
+                    {item.label}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {days <= 1 ? 'today' : `${days} days`}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground mt-1">Nothing expires in the next {EXPIRING_SOON_DAYS} days</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
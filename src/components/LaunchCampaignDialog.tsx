@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Rocket } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { riskLevelLabels, riskLevels, type RiskLevel } from '@/lib/risk';
+import { fromDateInputValue } from '@/lib/validity';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+}
+
+interface DatabaseAction {
+  id: string;
+  category: string;
+}
+
+interface LaunchCampaignDialogProps {
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  changeReason: string;
+  onLaunched: (campaignId: string) => void;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  roleIds: [] as string[],
+  categories: [] as string[],
+  riskLevels: [] as RiskLevel[],
+  dueDate: ''
+};
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter(v => v !== value);
+}
+
+export default function LaunchCampaignDialog({ roles, actions, changeReason, onLaunched }: LaunchCampaignDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const categories = [...new Set(actions.map(action => action.category))].sort();
+
+  const launchCampaign = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "A campaign name is required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { data, error } = await withChangeReason(
+        supabase.rpc('launch_recertification_campaign', {
+          campaign_name: form.name.trim(),
+          campaign_description: form.description.trim() || undefined,
+          scope_role_ids: form.roleIds,
+          scope_categories: form.categories,
+          scope_risk_levels: form.riskLevels,
+          due: fromDateInputValue(form.dueDate, 'until') ?? undefined
+        }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Recertification campaign launched successfully.",
+      });
+
+      setForm(emptyForm);
+      onLaunched(data);
+    } catch (error) {
+      console.error('Error launching recertification campaign:', error);
+      toast({
+        title: "Error",
+        description: "Failed to launch recertification campaign.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Launch Recertification Campaign</DialogTitle>
+        <DialogDescription>
+          Snapshots the current role assignments and granting overrides in scope. Leave a scope empty to include everything.
+          Role assignments go to the role owner if there is one, everything else to admins.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="campaign-name">Name *</Label>
+            <Input
+              id="campaign-name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Q3 access review"
+            />
+          </div>
+          <div>
+            <Label htmlFor="campaign-due">Due Date</Label>
+            <Input
+              id="campaign-due"
+              type="date"
+              value={form.dueDate}
+              onChange={(e) => setForm(prev => ({ ...prev, dueDate: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="campaign-description">Description</Label>
+          <Textarea
+            id="campaign-description"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+          />
+        </div>
+
+        <div>
+          <Label>Roles</Label>
+          <div className="flex flex-wrap gap-4 mt-1">
+            {roles.map(role => (
+              <label key={role.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.roleIds.includes(role.id)}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, roleIds: toggle(prev.roleIds, role.id, !!checked) }))}
+                />
+                {role.name}
+              </label>
+            ))}
+          </div>
+          {form.roleIds.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">User overrides are not reviewed in a campaign scoped to roles.</p>
+          )}
+        </div>
+
+        <div>
+          <Label>Categories</Label>
+          <div className="flex flex-wrap gap-4 mt-1">
+            {categories.map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.categories.includes(category)}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, categories: toggle(prev.categories, category, !!checked) }))}
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label>Risk Levels</Label>
+          <div className="flex flex-wrap gap-4 mt-1">
+            {riskLevels.map(level => (
+              <label key={level} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.riskLevels.includes(level)}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, riskLevels: toggle(prev.riskLevels, level, !!checked) }))}
+                />
+                {riskLevelLabels[level]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={launchCampaign} disabled={saving} className="w-full md:w-auto">
+          <Rocket className="mr-2 h-4 w-4" />
+          Launch Campaign
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { requiresApproval, type PermissionChangeRequest, type PermissionValues } from '@/lib/change-requests';
+import { applyCellChanges } from '@/lib/bulk-edit';
+import type { RolePermission } from '@/lib/permission-resolver';
+import type { RiskLevel } from '@/lib/risk';
+import { findIntroducedViolations, isBlocking, type SodData, type SodRule } from '@/lib/sod';
+import { readSpreadsheet, SPREADSHEET_ACCEPT } from '@/lib/spreadsheet';
+import {
+  CELL_SYNTAX_EXAMPLE,
+  CREATE,
+  SKIP,
+  getDefaultMapping,
+  planImport,
+  readMatrix,
+  toImportPayload,
+  type ImportMapping,
+  type ImportedMatrix,
+  type MatrixImportPayload,
+} from '@/lib/matrix-import';
+import SodViolationList from './SodViolationList';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  parent_role_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  risk_level: RiskLevel;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface MatrixImportDialogProps {
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  permissions: RolePermission[];
+  profiles: DatabaseProfile[];
+  assignments: SodData['assignments'];
+  exclusions: SodData['exclusions'];
+  delegations: SodData['delegations'];
+  sodRules: SodRule[];
+  changeRequests: PermissionChangeRequest[];
+  isAdmin: boolean;
+  changeReason: string;
+  onImport: (payload: MatrixImportPayload, reason: string) => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const describeValues = (values: PermissionValues) => {
+  const parts: string[] = [values.status ?? 'denied'];
+  if (values.limit_value) parts.push(`limit ${values.limit_value.toLocaleString('en-US')}`);
+  if (values.conditions) parts.push(values.conditions);
+  return parts.join(', ');
+};
+
+export default function MatrixImportDialog({
+  roles,
+  actions,
+  permissions,
+  profiles,
+  assignments,
+  exclusions,
+  delegations,
+  sodRules,
+  changeRequests,
+  isAdmin,
+  changeReason,
+  onImport
+}: MatrixImportDialogProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [matrix, setMatrix] = useState<ImportedMatrix | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({ roles: {}, actions: {} });
+  const [reason, setReason] = useState(changeReason);
+  const [reading, setReading] = useState(false);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setReading(true);
+      const imported = readMatrix(await readSpreadsheet(file));
+      setFileName(file.name);
+      setMatrix(imported);
+      setMapping(getDefaultMapping(imported, roles, actions, isAdmin));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file.",
+        variant: "destructive"
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const plan = matrix ? planImport(matrix, mapping, { roles, actions, permissions, changeRequests }) : null;
+  const changes = plan?.diffs.map(diff => diff.change) ?? [];
+  const data = { assignments, roles, permissions, exclusions, delegations };
+  const violations = changes.length > 0
+    ? findIntroducedViolations(sodRules, data, { ...data, permissions: applyCellChanges(permissions, changes) }, profiles)
+    : [];
+  const blocked = isBlocking(violations);
+  const approvalCount = plan?.diffs.filter(diff => requiresApproval(isAdmin, diff.riskLevel)).length ?? 0;
+  const hasWork = !!plan && (plan.diffs.length > 0 || plan.newRoles.length > 0 || plan.newActions.length > 0);
+
+  const setTarget = (kind: keyof ImportMapping, name: string, target: string) => {
+    setMapping(prev => ({ ...prev, [kind]: { ...prev[kind], [name]: target } }));
+  };
+
+  const renderTargetSelect = (kind: keyof ImportMapping, name: string, options: { id: string; name: string }[]) => (
+    <Select value={mapping[kind][name] ?? SKIP} onValueChange={(value) => setTarget(kind, name, value)}>
+      <SelectTrigger className="h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {isAdmin && (
+          <SelectItem value={CREATE}>Create "{name}"</SelectItem>
+        )}
+        <SelectItem value={SKIP}>Skip</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import Permission Matrix{fileName && ` - ${fileName}`}</DialogTitle>
+        <DialogDescription>
+          {step === 'upload' && 'Read a CSV or XLSX file and apply it to the matrix in one transaction'}
+          {step === 'map' && 'Choose which role each column and which action each row of the file belongs to'}
+          {step === 'preview' && 'Review every cell that changes before applying the import'}
+        </DialogDescription>
+      </DialogHeader>
+
+      {step === 'upload' && (
+        <div className="space-y-4 text-sm">
+          <div>
+            <Label htmlFor="matrix-import-file">File</Label>
+            <Input
+              id="matrix-import-file"
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              disabled={reading}
+              onChange={(e) => readFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="rounded-lg border p-3 space-y-2 text-muted-foreground">
+            <p>Two layouts are understood:</p>
+            <ul className="list-disc pl-5 space-y-1">
+              <li>
+                The layout of <span className="font-medium text-foreground">Export › CSV</span>: one row per role
+                and action with Role, Action, Status, Limit and Conditions columns, optionally Category and Risk.
+              </li>
+              <li>
+                A grid with an action per row and a role per column. Optional Category and Risk columns describe
+                new actions, blank cells are left as they are, and other cells read like
+                <code className="ml-1 rounded bg-muted px-1">{CELL_SYNTAX_EXAMPLE}</code>.
+              </li>
+            </ul>
+            <p>Only the first worksheet of an XLSX file is read.</p>
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && matrix && (
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <div>
+            <p className="mb-2 text-sm font-medium">Roles ({matrix.roleNames.length})</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>In File</TableHead>
+                  <TableHead>Import Into</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.roleNames.map(name => (
+                  <TableRow key={name}>
+                    <TableCell className="font-medium">{name}</TableCell>
+                    <TableCell>{renderTargetSelect('roles', name, roles)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div>
+            <p className="mb-2 text-sm font-medium">Actions ({matrix.actions.length})</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>In File</TableHead>
+                  <TableHead>Import Into</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.actions.map(action => (
+                  <TableRow key={action.name}>
+                    <TableCell>
+                      <div className="font-medium">{action.name}</div>
+                      {(action.category || action.riskLevel) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[action.category, action.riskLevel].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{renderTargetSelect('actions', action.name, actions)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && plan && (
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+          <div className="rounded-lg border p-3 space-y-2">
+            <p className="font-medium">{plan.diffs.length} cell(s) will change</p>
+            {(plan.newRoles.length > 0 || plan.newActions.length > 0) && (
+              <p className="text-muted-foreground">
+                Creates {plan.newRoles.length} role(s) and {plan.newActions.length} action(s) first.
+              </p>
+            )}
+            {plan.unchanged > 0 && (
+              <p className="text-muted-foreground">{plan.unchanged} already match and are left alone.</p>
+            )}
+            {plan.skipped > 0 && (
+              <p className="text-muted-foreground">
+                {plan.skipped} are skipped, in skipped columns or rows or already awaiting approval.
+              </p>
+            )}
+            {approvalCount > 0 && (
+              <p className="text-muted-foreground">
+                {approvalCount} change(s) are submitted for approval instead of applied.
+              </p>
+            )}
+            {violations.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">
+                  {blocked ? 'Blocked by segregation of duties:' : 'Segregation-of-duties conflicts:'}
+                </p>
+                <SodViolationList violations={violations} actions={actions} roles={roles} profiles={profiles} />
+              </div>
+            )}
+          </div>
+
+          {plan.invalid.length > 0 && (
+            <div className="rounded-lg border border-destructive p-3 space-y-2">
+              <p className="flex items-center gap-1 font-medium text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {plan.invalid.length} cell(s) cannot be read. Fix the file, or skip their rows or columns.
+              </p>
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {plan.invalid.map((cell, index) => (
+                  <li key={index}>
+                    Row {cell.row}, {cell.roleName || '?'} / {cell.actionName || '?'}: {cell.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.diffs.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Now</TableHead>
+                  <TableHead>After Import</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.diffs.map(diff => (
+                  <TableRow key={`${diff.change.role_id}-${diff.change.action_id}`}>
+                    <TableCell>
+                      {diff.actionName}
+                      {diff.riskLevel === 'critical' && (
+                        <Badge variant="destructive" className="ml-2 text-xs">Critical</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{diff.roleName}</TableCell>
+                    <TableCell className="text-muted-foreground">{describeValues(diff.before)}</TableCell>
+                    <TableCell className="font-medium">{describeValues(diff.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div>
+            <Label htmlFor="import-reason">Reason for Change</Label>
+            <Textarea
+              id="import-reason"
+              placeholder="Recorded in the audit log"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {step !== 'upload' && plan && (
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}>
+            Back
+          </Button>
+          {step === 'map' ? (
+            <Button onClick={() => setStep('preview')}>Preview Changes</Button>
+          ) : (
+            <Button
+              disabled={!hasWork || plan.invalid.length > 0 || blocked}
+              onClick={() => onImport(toImportPayload(plan), reason.trim())}
+            >
+              {violations.length > 0 ? 'Import Anyway' : `Import ${plan.diffs.length} Cell(s)`}
+            </Button>
+          )}
+        </DialogFooter>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, CheckCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface DatabaseNotification {
+  id: string;
+  kind: string;
+  title: string;
+  body: string | null;
+  related_table: string | null;
+  related_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationsMenuProps {
+  // Called with the table of the record a notification is about
+  onOpenNotification: (relatedTable: string | null) => void;
+}
+
+const PAGE_SIZE = 50;
+
+export default function NotificationsMenu({ onOpenNotification }: NotificationsMenuProps) {
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<DatabaseNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [open]);
+
+  // Row level security limits this to the current user's notifications
+  const loadNotifications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
+
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  };
+
+  const markRead = async (notificationIds?: string[]) => {
+    try {
+      const { error } = await supabase.rpc('mark_notifications_read', { notification_ids: notificationIds });
+      if (error) throw error;
+
+      await loadNotifications();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openNotification = (notification: DatabaseNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    setOpen(false);
+    onOpenNotification(notification.related_table);
+  };
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 rounded-full bg-destructive px-1.5 text-xs text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b p-3">
+          <span className="font-medium">Notifications</span>
+          <Button variant="ghost" size="sm" onClick={() => markRead()} disabled={unreadCount === 0}>
+            <CheckCheck className="mr-1 h-4 w-4" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.map(notification => (
+            <button
+              key={notification.id}
+              onClick={() => openNotification(notification)}
+              className={`block w-full border-b p-3 text-left text-sm hover:bg-muted/50 ${notification.read_at ? 'text-muted-foreground' : ''}`}
+            >
+              <div className="flex items-center gap-2 font-medium">
+                {!notification.read_at && <span className="h-2 w-2 rounded-full bg-destructive" />}
+                {notification.title}
+              </div>
+              {notification.body && <div className="mt-1">{notification.body}</div>}
+              <div className="mt-1 text-xs text-muted-foreground">
+                {new Date(notification.created_at).toLocaleString()}
+              </div>
+            </button>
+          ))}
+          {notifications.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">No notifications</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import {
+  flattenUnitTree,
+  getUnitDescendants,
+  orgUnitKindLabels,
+  wouldCreateUnitCycle,
+  type OrgUnit,
+  type OrgUnitKind,
+} from '@/lib/org-units';
+
+interface OrgUnitsManagementProps {
+  orgUnits: OrgUnit[];
+  // Members are counted per unit
+  roles: { org_unit_id?: string | null }[];
+  profiles: { org_unit_id?: string | null }[];
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const NO_PARENT = 'none';
+
+const emptyUnit = {
+  name: '',
+  kind: 'department' as OrgUnitKind,
+  parentId: NO_PARENT
+};
+
+export default function OrgUnitsManagement({ orgUnits, roles, profiles, changeReason, onDataChange }: OrgUnitsManagementProps) {
+  const { toast } = useToast();
+  const [newUnit, setNewUnit] = useState(emptyUnit);
+
+  const getUnitName = (unitId: string | null) => {
+    return orgUnits.find(u => u.id === unitId)?.name || 'Unknown unit';
+  };
+
+  const createUnit = async () => {
+    if (!newUnit.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "A unit name is required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (orgUnits.some(unit => unit.name.toLowerCase() === newUnit.name.trim().toLowerCase())) {
+      toast({
+        title: "Validation Error",
+        description: "A unit with this name already exists.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('org_units')
+          .insert({
+            name: newUnit.name.trim(),
+            kind: newUnit.kind,
+            parent_id: newUnit.parentId === NO_PARENT ? null : newUnit.parentId
+          }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Org unit created successfully.",
+      });
+
+      setNewUnit(emptyUnit);
+      onDataChange();
+    } catch (error) {
+      console.error('Error creating org unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create org unit.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateUnit = async (unitId: string, update: { kind?: OrgUnitKind; parent_id?: string | null }) => {
+    if (update.parent_id !== undefined && wouldCreateUnitCycle(unitId, update.parent_id, orgUnits)) {
+      toast({
+        title: "Validation Error",
+        description: `${getUnitName(update.parent_id)} is already part of ${getUnitName(unitId)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('org_units')
+          .update(update)
+          .eq('id', unitId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Org unit updated successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating org unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update org unit.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Child units move up to the top level and members are left without a unit
+  const deleteUnit = async (unitId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('org_units')
+          .delete()
+          .eq('id', unitId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Org unit deleted successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error deleting org unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete org unit.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const countMembers = (unitId: string) => {
+    const unitIds = [unitId, ...getUnitDescendants(unitId, orgUnits)];
+    return {
+      roles: roles.filter(role => role.org_unit_id && unitIds.includes(role.org_unit_id)).length,
+      users: profiles.filter(profile => profile.org_unit_id && unitIds.includes(profile.org_unit_id)).length,
+    };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Departments & Teams
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Attach roles and users to units here and in the tables above. "Own department" and "own team" conditions compare the requester's unit with the target's, counting a team as part of its department.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="unit-name">Name *</Label>
+            <Input
+              id="unit-name"
+              value={newUnit.name}
+              onChange={(e) => setNewUnit(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Accounts Payable"
+            />
+          </div>
+          <div>
+            <Label>Kind</Label>
+            <Select
+              value={newUnit.kind}
+              onValueChange={(value) => setNewUnit(prev => ({ ...prev, kind: value as OrgUnitKind }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="department">{orgUnitKindLabels.department}</SelectItem>
+                <SelectItem value="team">{orgUnitKindLabels.team}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Part Of</Label>
+            <Select value={newUnit.parentId} onValueChange={(value) => setNewUnit(prev => ({ ...prev, parentId: value }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>Top level</SelectItem>
+                {flattenUnitTree(orgUnits).map(({ unit, depth }) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    {'\u00a0'.repeat(depth * 2)}{unit.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button onClick={createUnit} className="w-full md:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Unit
+        </Button>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Unit</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Part Of</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flattenUnitTree(orgUnits).map(({ unit, depth }) => {
+              const members = countMembers(unit.id);
+              return (
+                <TableRow key={unit.id}>
+                  <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                    {unit.name}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={unit.kind} onValueChange={(value) => updateUnit(unit.id, { kind: value as OrgUnitKind })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="department">{orgUnitKindLabels.department}</SelectItem>
+                        <SelectItem value="team">{orgUnitKindLabels.team}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={unit.parent_id || NO_PARENT}
+                      onValueChange={(value) => updateUnit(unit.id, { parent_id: value === NO_PARENT ? null : value })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>Top level</SelectItem>
+                        {orgUnits.filter(candidate => candidate.id !== unit.id).map(candidate => (
+                          <SelectItem
+                            key={candidate.id}
+                            value={candidate.id}
+                            disabled={wouldCreateUnitCycle(unit.id, candidate.id, orgUnits)}
+                          >
+                            {candidate.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {members.roles} role(s), {members.users} user(s)
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteUnit(unit.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {orgUnits.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No org units defined
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { PermissionValues } from '@/lib/change-requests';
+import {
+  conflictFieldLabels,
+  getConflictFields,
+  mergeConflict,
+  toPermissionValues,
+  type ConflictChoice,
+  type ConflictField,
+  type PermissionConflict,
+} from '@/lib/concurrency';
+import { normalizePermissionValues, validatePermissionValues } from '@/lib/permission-edit';
+import { formatValidityDate } from '@/lib/validity';
+
+interface PermissionConflictDialogProps {
+  conflict: PermissionConflict;
+  roleName: string;
+  actionName: string;
+  onResolve: (values: PermissionValues) => void;
+  onTakeTheirs: () => void;
+}
+
+const describeField = (field: ConflictField, values: PermissionValues) => {
+  switch (field) {
+    case 'status':
+      return values.status ?? 'denied';
+    case 'limit_value':
+      return values.limit_value ? String(values.limit_value) : 'No limit';
+    case 'conditions':
+      return values.conditions || 'None';
+    case 'validity':
+      return `${values.valid_from ? formatValidityDate(values.valid_from, 'from') : 'always'} – ${
+        values.valid_until ? formatValidityDate(values.valid_until, 'until') : 'no end'
+      }`;
+  }
+};
+
+export default function PermissionConflictDialog({
+  conflict,
+  roleName,
+  actionName,
+  onResolve,
+  onTakeTheirs
+}: PermissionConflictDialogProps) {
+  const { toast } = useToast();
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, ConflictChoice>>>({});
+
+  const fields = getConflictFields(conflict);
+  const theirs = toPermissionValues(conflict.theirs);
+
+  const resolve = (fieldChoices: Partial<Record<ConflictField, ConflictChoice>>) => {
+    const values = normalizePermissionValues(mergeConflict(conflict, fieldChoices));
+    const error = validatePermissionValues(values);
+    if (error) {
+      toast({
+        title: "Validation Error",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+    onResolve(values);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Conflicting Change - {roleName} - {actionName}</DialogTitle>
+        <DialogDescription>
+          {conflict.theirs
+            ? 'Someone else saved this permission after you opened it. Choose which values to keep.'
+            : 'Someone else removed this permission after you opened it. Choose which values to keep.'}
+        </DialogDescription>
+      </DialogHeader>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Yours</TableHead>
+            <TableHead>Theirs</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={field}>
+              <TableCell className="font-medium">{conflictFieldLabels[field]}</TableCell>
+              <TableCell colSpan={2} className="p-0">
+                <RadioGroup
+                  value={choices[field] ?? 'mine'}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: value as ConflictChoice }))}
+                  className="grid grid-cols-2 gap-0"
+                >
+                  <label className="flex items-start gap-2 p-4 text-sm cursor-pointer">
+                    <RadioGroupItem value="mine" className="mt-0.5" />
+                    {describeField(field, { ...theirs, ...conflict.mine })}
+                  </label>
+                  <label className="flex items-start gap-2 p-4 text-sm cursor-pointer">
+                    <RadioGroupItem value="theirs" className="mt-0.5" />
+                    {describeField(field, theirs)}
+                  </label>
+                </RadioGroup>
+              </TableCell>
+            </TableRow>
+          ))}
+          {fields.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-muted-foreground">
+                The other change already matches yours
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onTakeTheirs}>Take Theirs</Button>
+        <Button variant="outline" onClick={() => resolve({})}>Keep Mine</Button>
+        <Button onClick={() => resolve(choices)}>Save Merge</Button>
+      </DialogFooter>
+    </>
+  );
+}
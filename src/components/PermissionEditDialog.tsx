@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hourglass } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatConditions, parseConditions, type Condition } from '@/lib/conditions';
+import type { PermissionValues } from '@/lib/change-requests';
+import { normalizePermissionValues, validatePermissionValues } from '@/lib/permission-edit';
+import type { OrgUnit } from '@/lib/org-units';
+import ConditionEditor from './ConditionEditor';
+
+interface DatabasePermission {
+  status: 'granted' | 'denied' | 'conditional';
+  limit_value?: number | null;
+  conditions?: string | null;
+  condition_spec?: Condition[] | null;
+}
+
+interface PermissionEditDialogProps {
+  roleName: string;
+  actionName: string;
+  // What the cell shows now, explicit or inherited
+  permission: DatabasePermission | undefined;
+  // Set when the cell has no row of its own; saving creates one
+  inheritedFrom?: string;
+  roleNames: string[];
+  orgUnits: OrgUnit[];
+  changeReason: string;
+  needsApproval: boolean;
+  onSave: (values: PermissionValues, reason: string) => void;
+}
+
+export default function PermissionEditDialog({
+  roleName,
+  actionName,
+  permission,
+  inheritedFrom,
+  roleNames,
+  orgUnits,
+  changeReason,
+  needsApproval,
+  onSave
+}: PermissionEditDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(() => {
+    const parsed = permission?.condition_spec
+      ? { conditions: permission.condition_spec, unparsed: [] }
+      : parseConditions(permission?.conditions);
+    return {
+      status: permission?.status || 'denied',
+      limit: permission?.limit_value?.toString() || '',
+      conditions: parsed.conditions,
+      // Free-text clauses from older rows that the parser did not understand
+      unparsedConditions: parsed.unparsed,
+      reason: changeReason
+    };
+  });
+
+  const isDenied = form.status === 'denied';
+
+  const save = () => {
+    const conditionText = [formatConditions(form.conditions), ...form.unparsedConditions]
+      .filter(Boolean)
+      .join('; ');
+    const values = normalizePermissionValues({
+      status: form.status,
+      limit_value: form.limit.trim() ? Number(form.limit) : null,
+      conditions: conditionText || null,
+      condition_spec: form.conditions.length > 0 ? form.conditions : null,
+      condition_needs_review: form.unparsedConditions.length > 0
+    });
+
+    const error = validatePermissionValues(values);
+    if (error) {
+      toast({
+        title: "Validation Error",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onSave(values, form.reason.trim());
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {roleName} - {actionName}
+        </DialogTitle>
+        <DialogDescription>
+          {inheritedFrom
+            ? `Currently inherited from ${inheritedFrom}. Saving gives ${roleName} its own permission.`
+            : 'Configure permission settings for this role-action combination'}
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+        <div>
+          <Label>Permission Status</Label>
+          <Select
+            value={form.status}
+            onValueChange={(value) => setForm(prev => ({ ...prev, status: value as DatabasePermission['status'] }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="granted">Granted</SelectItem>
+              <SelectItem value="denied">Denied</SelectItem>
+              <SelectItem value="conditional">Conditional</SelectItem>
+            </SelectContent>
+          </Select>
+          {isDenied && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Denying the action clears its limit and conditions.
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="permission-limit">Limit (Optional)</Label>
+          <Input
+            id="permission-limit"
+            type="number"
+            min={1}
+            step={1}
+            placeholder="No limit"
+            value={isDenied ? '' : form.limit}
+            disabled={isDenied}
+            onChange={(e) => setForm(prev => ({ ...prev, limit: e.target.value }))}
+          />
+        </div>
+        <div>
+          <Label>Conditions{form.status === 'conditional' ? ' *' : ' (Optional)'}</Label>
+          {!isDenied && form.unparsedConditions.length > 0 && (
+            <div className="flex items-start justify-between gap-2 p-2 mb-2 rounded border border-yellow-500 bg-yellow-50 text-xs text-yellow-800">
+              <span>
+                Not understood, kept as text: {form.unparsedConditions.join('; ')}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-auto p-1 text-xs"
+                onClick={() => setForm(prev => ({ ...prev, unparsedConditions: [] }))}
+              >
+                Discard
+              </Button>
+            </div>
+          )}
+          {isDenied ? (
+            <p className="text-sm text-muted-foreground">Denied permissions have no conditions.</p>
+          ) : (
+            <ConditionEditor
+              value={form.conditions}
+              onChange={(conditions) => setForm(prev => ({ ...prev, conditions }))}
+              roleNames={roleNames}
+              orgUnits={orgUnits}
+            />
+          )}
+        </div>
+        <div>
+          <Label htmlFor="permission-reason">Reason for Change</Label>
+          <Textarea
+            id="permission-reason"
+            placeholder="Recorded in the audit log"
+            value={form.reason}
+            onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+          />
+        </div>
+        {needsApproval && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Hourglass className="h-4 w-4" />
+            This change takes effect once it is approved.
+          </p>
+        )}
+        <Button className="w-full" onClick={save}>
+          {needsApproval ? 'Submit for Approval' : 'Save Changes'}
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, Download } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { downloadText } from '@/lib/csv';
+import { describeSkippedCells } from '@/lib/bulk-edit';
+import { requiresRiskApproval, type PermissionValues } from '@/lib/change-requests';
+import { findIntroducedViolations, isBlocking, type SodData, type SodRule } from '@/lib/sod';
+import {
+  applyPolicyPlan,
+  buildPolicy,
+  formatPolicy,
+  isEmptyPlan,
+  parsePolicy,
+  planPolicyImport,
+  toPolicyPayload,
+  type PolicyData,
+  type PolicyDocument,
+  type PolicyEntityChange,
+  type PolicyFormat,
+  type PolicyGrantChange,
+  type PolicyImportResult,
+} from '@/lib/policy';
+import SodViolationList from './SodViolationList';
+
+interface PolicyDialogProps extends PolicyData {
+  assignments: SodData['assignments'];
+  delegations: SodData['delegations'];
+  sodRules: SodRule[];
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const POLICY_ACCEPT = '.json,.yaml,.yml';
+
+const describeValues = (values: PermissionValues | null) => {
+  if (!values) return 'none';
+  const parts: string[] = [values.status ?? 'denied'];
+  if (values.limit_value) parts.push(`limit ${values.limit_value.toLocaleString('en-US')}`);
+  if (values.conditions) parts.push(values.conditions);
+  return parts.join(', ');
+};
+
+export default function PolicyDialog({
+  assignments,
+  delegations,
+  sodRules,
+  changeReason,
+  onDataChange,
+  ...data
+}: PolicyDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [policy, setPolicy] = useState<PolicyDocument | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [reason, setReason] = useState(changeReason);
+  const [applying, setApplying] = useState(false);
+
+  const exportPolicy = (format: PolicyFormat) => {
+    downloadText(
+      formatPolicy(buildPolicy(data), format),
+      'authorization-policy',
+      format,
+      format === 'json' ? 'application/json;charset=utf-8;' : 'application/yaml;charset=utf-8;'
+    );
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const format: PolicyFormat = /\.json$/i.test(file.name) ? 'json' : 'yaml';
+      const parsed = parsePolicy(await file.text(), format);
+      setFileName(file.name);
+      setPolicy(parsed.policy);
+      setErrors(parsed.errors);
+    } catch (error) {
+      console.error('Error reading policy file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read the file.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const reset = () => {
+    setFileName('');
+    setPolicy(null);
+    setErrors([]);
+  };
+
+  const plan = policy ? planPolicyImport(policy, data) : null;
+  const sodData = { assignments, delegations, roles: data.roles, permissions: data.permissions, exclusions: data.exclusions };
+  const violations = plan && !isEmptyPlan(plan)
+    ? findIntroducedViolations(sodRules, sodData, { ...sodData, ...applyPolicyPlan(policy, plan, data) }, data.profiles)
+    : [];
+  const blocked = isBlocking(violations) || (plan?.invalid.length ?? 0) > 0;
+  const riskApprovals = policy?.actions.filter(action => {
+    const existing = data.actions.find(a => a.name === action.name);
+    return !!existing && requiresRiskApproval(existing.risk_level, action.risk);
+  }) ?? [];
+
+  const applyPolicy = async () => {
+    if (!policy || !plan || blocked) return;
+    const auditReason = reason.trim() || changeReason;
+
+    try {
+      setApplying(true);
+      const { data: result, error } = await withChangeReason(
+        supabase.rpc('import_policy', { ...toPolicyPayload(policy, plan), reason: auditReason || undefined }),
+        auditReason
+      );
+
+      if (error) throw error;
+      const counts = result as unknown as PolicyImportResult;
+
+      toast({
+        title: "Success",
+        description: `Policy applied: ${counts.roles_changed} role(s), ${counts.actions_changed} action(s), `
+          + `${counts.applied} cell(s) and ${counts.exclusions_changed} override(s) written`
+          + (counts.requested > 0 ? `, ${counts.requested} cell(s) submitted for approval` : '')
+          + (counts.risk_changes_requested > 0 ? `, ${counts.risk_changes_requested} risk level change(s) submitted for approval.` : '.')
+          + describeSkippedCells(counts),
+      });
+      reset();
+      onDataChange();
+    } catch (error) {
+      console.error('Error importing policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to apply the policy. Nothing was changed.",
+        variant: "destructive"
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderEntityChanges = (title: string, changes: PolicyEntityChange[]) => changes.length > 0 && (
+    <div>
+      <p className="mb-1 font-medium">{title} ({changes.length})</p>
+      <ul className="space-y-1">
+        {changes.map(change => (
+          <li key={change.name} className="flex items-center gap-2">
+            <Badge variant={change.operation === 'create' ? 'default' : 'secondary'} className="text-xs">
+              {change.operation === 'create' ? 'New' : 'Changed'}
+            </Badge>
+            <span>{change.name}</span>
+            {change.fields.length > 0 && (
+              <span className="text-muted-foreground">{change.fields.join(', ')}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderGrantChanges = (title: string, changes: PolicyGrantChange[]) => changes.length > 0 && (
+    <div>
+      <p className="mb-1 font-medium">{title} ({changes.length})</p>
+      <ul className="space-y-1">
+        {changes.map(change => (
+          <li key={`${change.subject}-${change.action}`}>
+            <span className="font-medium">{change.subject} / {change.action}:</span>{' '}
+            <span className="text-muted-foreground">{describeValues(change.before)}</span>
+            {' → '}
+            {change.operation === 'delete' ? 'removed' : describeValues(change.after)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Policy as Code{fileName && ` - ${fileName}`}</DialogTitle>
+        <DialogDescription>
+          Export roles, actions, permissions and user overrides as a JSON or YAML document to keep in version
+          control, and apply an edited document back
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => exportPolicy('yaml')}>
+            <Download className="mr-2 h-4 w-4" />
+            Export YAML
+          </Button>
+          <Button variant="outline" onClick={() => exportPolicy('json')}>
+            <Download className="mr-2 h-4 w-4" />
+            Export JSON
+          </Button>
+        </div>
+
+        <div>
+          <Label htmlFor="policy-import-file">Import</Label>
+          <Input
+            id="policy-import-file"
+            type="file"
+            accept={POLICY_ACCEPT}
+            disabled={applying}
+            onChange={(e) => readFile(e.target.files?.[0])}
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            Roles and actions are matched by name and never deleted. Cells and overrides of the roles and actions
+            in the file are replaced by what it lists; users are named by email.
+          </p>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="rounded-lg border border-destructive p-3 space-y-2">
+            <p className="flex items-center gap-1 font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              The file does not match the policy schema
+            </p>
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {plan && (isEmptyPlan(plan) ? (
+          <p className="rounded-lg border p-3 text-muted-foreground">No changes: the file matches the current policy.</p>
+        ) : (
+          <div className="rounded-lg border p-3 space-y-3">
+            {renderEntityChanges('Roles', plan.roles)}
+            {renderEntityChanges('Actions', plan.actions)}
+            {riskApprovals.length > 0 && (
+              <p className="text-muted-foreground">
+                Lowering the risk level of {riskApprovals.map(action => action.name).join(', ')} is submitted for
+                approval; until then they stay critical and their cells need approval too.
+              </p>
+            )}
+            {renderGrantChanges('Permissions', plan.permissions)}
+            {renderGrantChanges('User Overrides', plan.exclusions)}
+            {violations.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">
+                  {blocked ? 'Blocked by segregation of duties:' : 'Segregation-of-duties conflicts:'}
+                </p>
+                <SodViolationList violations={violations} actions={data.actions} roles={data.roles} profiles={data.profiles} />
+              </div>
+            )}
+          </div>
+        ))}
+
+        {plan && plan.invalid.length > 0 && (
+          <div className="rounded-lg border border-destructive p-3 space-y-2">
+            <p className="flex items-center gap-1 font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Entries the matrix would refuse; fix them in the file to apply it
+            </p>
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {plan.invalid.map(entry => (
+                <li key={`${entry.subject} / ${entry.action}`}>
+                  {entry.subject} / {entry.action}: {entry.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {plan && plan.unknownUsers.length > 0 && (
+          <p className="text-muted-foreground">
+            Skipped overrides for users without an account: {plan.unknownUsers.join(', ')}
+          </p>
+        )}
+        {plan && (plan.untouchedRoles.length > 0 || plan.untouchedActions.length > 0) && (
+          <p className="text-muted-foreground">
+            Not in the file and left as they are:{' '}
+            {[...plan.untouchedRoles, ...plan.untouchedActions].join(', ')}
+          </p>
+        )}
+
+        {plan && !isEmptyPlan(plan) && (
+          <div>
+            <Label htmlFor="policy-reason">Reason for Change</Label>
+            <Textarea
+              id="policy-reason"
+              placeholder="Recorded in the audit log"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      {plan && !isEmptyPlan(plan) && (
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={reset} disabled={applying}>
+            Discard
+          </Button>
+          <Button onClick={applyPolicy} disabled={applying || blocked}>
+            {violations.length > 0 ? 'Apply Anyway' : 'Apply Policy'}
+          </Button>
+        </DialogFooter>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,428 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Check, Download, ListChecks, Lock, Plus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { downloadCsv } from '@/lib/csv';
+import { formatValidityDate } from '@/lib/validity';
+import {
+  buildCampaignReport,
+  canReviewItem,
+  describeCampaignScope,
+  getCampaignStats,
+  recertificationDecisionLabels,
+  recertificationItemTypeLabels,
+  type RecertificationCampaign,
+  type RecertificationDecision,
+  type RecertificationItem,
+} from '@/lib/recertification';
+import LaunchCampaignDialog from './LaunchCampaignDialog';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface RecertificationCampaignsProps {
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  profiles: DatabaseProfile[];
+  currentProfileId: string | null;
+  isAdmin: boolean;
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+export default function RecertificationCampaigns({
+  roles,
+  actions,
+  profiles,
+  currentProfileId,
+  isAdmin,
+  changeReason,
+  onDataChange
+}: RecertificationCampaignsProps) {
+  const { toast } = useToast();
+  const [campaigns, setCampaigns] = useState<RecertificationCampaign[]>([]);
+  const [items, setItems] = useState<RecertificationItem[]>([]);
+  const [selectedCampaignId, setSelectedCampaignId] = useState('');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [launchOpen, setLaunchOpen] = useState(false);
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [signOffNote, setSignOffNote] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
+
+  const loadCampaigns = async (campaignId?: string) => {
+    try {
+      setLoading(true);
+
+      // Items are limited by RLS to what the current user may review
+      const [campaignsRes, itemsRes] = await Promise.all([
+        supabase.from('recertification_campaigns').select('*').order('created_at', { ascending: false }),
+        supabase.from('recertification_items').select('*').order('created_at')
+      ]);
+
+      if (campaignsRes.error) throw campaignsRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+
+      const loadedCampaigns = (campaignsRes.data || []) as RecertificationCampaign[];
+      setCampaigns(loadedCampaigns);
+      setItems((itemsRes.data || []) as RecertificationItem[]);
+      setSelectedCampaignId(prev => campaignId || prev || loadedCampaigns[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading recertification campaigns:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recertification campaigns.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRoleName = (roleId: string) => roles.find(r => r.id === roleId)?.name || 'Unknown role';
+  const getActionName = (actionId: string) => actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  const getUserName = (profileId: string | null) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const campaign = campaigns.find(c => c.id === selectedCampaignId);
+  const campaignItems = items.filter(item => item.campaign_id === selectedCampaignId);
+  const stats = getCampaignStats(campaignItems);
+  const isOpen = campaign?.status === 'open';
+
+  const decideItem = async (itemId: string, decision: RecertificationDecision) => {
+    const comment = comments[itemId]?.trim() || undefined;
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('decide_recertification_item', { item_id: itemId, decision, comment }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadCampaigns();
+    } catch (error) {
+      console.error('Error recording recertification decision:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record decision.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const closeCampaign = async () => {
+    if (!campaign) return;
+    try {
+      const { data, error } = await withChangeReason(
+        supabase.rpc('close_recertification_campaign', {
+          campaign_id: campaign.id,
+          sign_off_note: signOffNote.trim() || undefined
+        }),
+        changeReason || signOffNote
+      );
+
+      if (error) throw error;
+
+      setSignOffNote('');
+      await loadCampaigns();
+      onDataChange();
+      toast({
+        title: "Success",
+        description: `Campaign closed. ${data ?? 0} access grant(s) revoked.`,
+      });
+    } catch (error) {
+      console.error('Error closing recertification campaign:', error);
+      toast({
+        title: "Error",
+        description: "Failed to close recertification campaign.",
+        variant: "destructive"
+      });
+    } finally {
+      setCloseOpen(false);
+    }
+  };
+
+  const exportReport = () => {
+    if (!campaign) return;
+    downloadCsv(
+      buildCampaignReport(campaign, campaignItems, { getUserName, getRoleName, getActionName }),
+      `recertification-${campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+    );
+
+    toast({
+      title: "Success",
+      description: "Recertification report exported to CSV.",
+    });
+  };
+
+  const getDecisionBadge = (item: RecertificationItem) => {
+    switch (item.decision) {
+      case 'certify':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700">{recertificationDecisionLabels.certify}</Badge>;
+      case 'revoke':
+        return <Badge variant="destructive">{item.revoked_at ? 'Removed' : recertificationDecisionLabels.revoke}</Badge>;
+      default:
+        return <Badge variant="secondary">{recertificationDecisionLabels.pending}</Badge>;
+    }
+  };
+
+  const renderAccess = (item: RecertificationItem) => {
+    if (item.role_id) {
+      const role = roles.find(r => r.id === item.role_id);
+      return (
+        <Badge variant="outline" style={{ borderColor: role?.color, color: role?.color }}>
+          {role?.name || 'Unknown role'}
+        </Badge>
+      );
+    }
+    return <span className="text-sm font-medium">{item.action_id ? getActionName(item.action_id) : '—'}</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Access Recertification
+          </CardTitle>
+          <div className="flex gap-2">
+            {campaign && (
+              <Button variant="outline" size="sm" onClick={exportReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Export Report
+              </Button>
+            )}
+            {isAdmin && campaign && isOpen && (
+              <Button variant="outline" size="sm" onClick={() => setCloseOpen(true)}>
+                <Lock className="mr-2 h-4 w-4" />
+                Close & Sign Off
+              </Button>
+            )}
+            {isAdmin && (
+              <Dialog open={launchOpen} onOpenChange={setLaunchOpen}>
+                <DialogTrigger asChild>
+                  <Button size="sm">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Launch Campaign
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <LaunchCampaignDialog
+                    roles={roles}
+                    actions={actions}
+                    changeReason={changeReason}
+                    onLaunched={(campaignId) => {
+                      setLaunchOpen(false);
+                      loadCampaigns(campaignId);
+                    }}
+                  />
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Reviewers certify or revoke each user's access; revocations are applied when an admin closes the campaign
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {campaigns.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {loading ? 'Loading campaigns...' : 'No recertification campaigns yet'}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Campaign</Label>
+                <Select value={selectedCampaignId} onValueChange={setSelectedCampaignId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaigns.map(c => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name} ({c.status === 'open' ? 'Open' : 'Closed'})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {campaign && (
+                <div className="md:col-span-2 space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{stats.completion}% reviewed</span>
+                    <span className="text-muted-foreground">
+                      {stats.certified} certified · {stats.revoked} revoked · {stats.pending} not reviewed
+                    </span>
+                  </div>
+                  <Progress value={stats.completion} />
+                </div>
+              )}
+            </div>
+
+            {campaign && (
+              <div className="text-sm text-muted-foreground space-y-1">
+                <div>Scope: {describeCampaignScope(campaign, getRoleName)}</div>
+                {campaign.description && <div>{campaign.description}</div>}
+                <div>
+                  Launched {new Date(campaign.created_at).toLocaleDateString()} by {getUserName(campaign.created_by)}
+                  {campaign.due_date && <> · due {formatValidityDate(campaign.due_date, 'until')}</>}
+                </div>
+                {campaign.closed_at && (
+                  <div>
+                    Signed off {new Date(campaign.closed_at).toLocaleString()} by {getUserName(campaign.closed_by)}
+                    {campaign.sign_off_note && <>: {campaign.sign_off_note}</>}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Access</TableHead>
+                  <TableHead>Granted Until</TableHead>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead>Decision</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaignItems.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-sm">{getUserName(item.user_id)}</TableCell>
+                    <TableCell>
+                      {renderAccess(item)}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {recertificationItemTypeLabels[item.item_type]}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.granted_until ? formatValidityDate(item.granted_until, 'until') : 'No end date'}
+                    </TableCell>
+                    <TableCell className="text-sm">{item.reviewer_id ? getUserName(item.reviewer_id) : 'Admins'}</TableCell>
+                    <TableCell>
+                      <div className="space-y-2 min-w-48">
+                        <div className="flex items-center gap-2">
+                          {getDecisionBadge(item)}
+                          {item.decided_by && (
+                            <span className="text-xs text-muted-foreground">by {getUserName(item.decided_by)}</span>
+                          )}
+                        </div>
+                        {item.comment && <div className="text-xs text-muted-foreground">{item.comment}</div>}
+                        {isOpen && canReviewItem(item, { profileId: currentProfileId, isAdmin }) && (
+                          <>
+                            <Input
+                              placeholder="Comment (optional)"
+                              value={comments[item.id] ?? ''}
+                              onChange={(e) => setComments(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            />
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant={item.decision === 'certify' ? 'default' : 'outline'}
+                                onClick={() => decideItem(item.id, 'certify')}
+                              >
+                                <Check className="mr-1 h-4 w-4" />
+                                Certify
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => decideItem(item.id, 'revoke')}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Revoke
+                              </Button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {campaignItems.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Nothing in this campaign is assigned to you for review
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={closeOpen} onOpenChange={setCloseOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close and sign off {campaign?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {stats.revoked} revoked access grant(s) will be removed now.
+              {stats.pending > 0 && ` ${stats.pending} item(s) were not reviewed and keep their access.`}
+              {' '}The campaign cannot be reopened.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div>
+            <Label htmlFor="sign-off-note">Sign-off note</Label>
+            <Textarea
+              id="sign-off-note"
+              value={signOffNote}
+              onChange={(e) => setSignOffNote(e.target.value)}
+              placeholder="Reviewed and approved for the Q3 audit"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={closeCampaign}>Close Campaign</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
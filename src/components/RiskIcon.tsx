@@ -0,0 +1,14 @@
+import { AlertTriangle, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { riskLevelLabels, type RiskLevel } from '@/lib/risk';
+
+export default function RiskIcon({ riskLevel }: { riskLevel: RiskLevel }) {
+  const title = `${riskLevelLabels[riskLevel]} risk`;
+
+  switch (riskLevel) {
+    case 'low': return <CheckCircle className="h-4 w-4 shrink-0 text-success" aria-label={title}><title>{title}</title></CheckCircle>;
+    case 'medium': return <Clock className="h-4 w-4 shrink-0 text-warning" aria-label={title}><title>{title}</title></Clock>;
+    case 'high': return <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" aria-label={title}><title>{title}</title></AlertTriangle>;
+    case 'critical': return <XCircle className="h-4 w-4 shrink-0 text-destructive" aria-label={title}><title>{title}</title></XCircle>;
+    default: return null;
+  }
+}
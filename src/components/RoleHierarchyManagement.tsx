@@ -0,0 +1,243 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GitBranch } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getRoleAncestors, getRoleDescendants, wouldCreateCycle } from '@/lib/permission-resolver';
+import { withChangeReason } from '@/lib/audit';
+import { flattenUnitTree, type OrgUnit } from '@/lib/org-units';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+  parent_role_id?: string | null;
+  owner_id?: string | null;
+  org_unit_id?: string | null;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface RoleHierarchyManagementProps {
+  roles: DatabaseRole[];
+  profiles: DatabaseProfile[];
+  orgUnits: OrgUnit[];
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const NO_PARENT = 'none';
+const NO_OWNER = 'none';
+const NO_UNIT = 'none';
+
+export default function RoleHierarchyManagement({ roles, profiles, orgUnits, changeReason, onDataChange }: RoleHierarchyManagementProps) {
+  const { toast } = useToast();
+
+  const getRoleName = (roleId: string) => {
+    return roles.find(r => r.id === roleId)?.name || 'Unknown role';
+  };
+
+  const updateParentRole = async (roleId: string, value: string) => {
+    const parentRoleId = value === NO_PARENT ? null : value;
+
+    if (wouldCreateCycle(roleId, parentRoleId, roles)) {
+      toast({
+        title: "Validation Error",
+        description: `${getRoleName(parentRoleId)} already inherits from ${getRoleName(roleId)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('roles')
+          .update({ parent_role_id: parentRoleId })
+          .eq('id', roleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      const descendantCount = getRoleDescendants(roleId, roles).length;
+      toast({
+        title: "Success",
+        description: descendantCount > 0
+          ? `Role hierarchy updated. ${descendantCount} descendant role(s) inherit the change.`
+          : "Role hierarchy updated successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating role hierarchy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role hierarchy.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateRoleOrgUnit = async (roleId: string, value: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('roles')
+          .update({ org_unit_id: value === NO_UNIT ? null : value })
+          .eq('id', roleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Role org unit updated successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating role org unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role org unit.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The owner decides access requests for the role alongside the admins
+  const updateRoleOwner = async (roleId: string, value: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('roles')
+          .update({ owner_id: value === NO_OWNER ? null : value })
+          .eq('id', roleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Role owner updated successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating role owner:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role owner.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Role Hierarchy
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          A role inherits every permission of its parent that it does not set itself. Its owner can approve access requests for it.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Inherits From</TableHead>
+              <TableHead>Ancestry</TableHead>
+              <TableHead>Org Unit</TableHead>
+              <TableHead>Owner</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map(role => (
+              <TableRow key={role.id}>
+                <TableCell>
+                  <Badge variant="outline" style={{ borderColor: role.color, color: role.color }}>
+                    {role.name}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={role.parent_role_id || NO_PARENT}
+                    onValueChange={(value) => updateParentRole(role.id, value)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>No parent</SelectItem>
+                      {roles.filter(candidate => candidate.id !== role.id).map(candidate => (
+                        <SelectItem
+                          key={candidate.id}
+                          value={candidate.id}
+                          disabled={wouldCreateCycle(role.id, candidate.id, roles)}
+                        >
+                          {candidate.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {getRoleAncestors(role.id, roles).map(getRoleName).join(' → ') || '—'}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={role.org_unit_id || NO_UNIT}
+                    onValueChange={(value) => updateRoleOrgUnit(role.id, value)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                      {flattenUnitTree(orgUnits).map(({ unit, depth }) => (
+                        <SelectItem key={unit.id} value={unit.id}>
+                          {'\u00a0'.repeat(depth * 2)}{unit.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={role.owner_id || NO_OWNER}
+                    onValueChange={(value) => updateRoleOwner(role.id, value)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.full_name || profile.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
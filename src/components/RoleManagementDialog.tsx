@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, Lock, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { withChangeReason } from '@/lib/audit';
+import { getRoleDeletionImpact, type DeletionImpactData } from '@/lib/deletion-impact';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  description: string;
+  color: string;
+  is_system_role: boolean;
+  parent_role_id?: string | null;
+}
+
+interface RoleManagementDialogProps extends Omit<DeletionImpactData, 'roles'> {
+  roles: DatabaseRole[];
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const emptyRole = {
+  name: '',
+  description: '',
+  color: '#6B7280',
+  isSystemRole: false
+};
+
+export default function RoleManagementDialog({ roles, changeReason, onDataChange, ...impactData }: RoleManagementDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyRole);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<DatabaseRole | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const editingRole = roles.find(role => role.id === editingId);
+  const sortedRoles = [...roles].sort((a, b) => a.name.localeCompare(b.name));
+
+  const startEditing = (role: DatabaseRole) => {
+    setEditingId(role.id);
+    setForm({
+      name: role.name,
+      description: role.description || '',
+      color: role.color,
+      isSystemRole: role.is_system_role
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyRole);
+  };
+
+  const saveRole = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      toast({
+        title: "Validation Error",
+        description: "A role name is required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (roles.some(role => role.id !== editingId && role.name.toLowerCase() === name.toLowerCase())) {
+      toast({
+        title: "Validation Error",
+        description: "A role with this name already exists.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const values = {
+      name,
+      description: form.description.trim(),
+      color: form.color,
+      is_system_role: form.isSystemRole
+    };
+
+    try {
+      setSaving(true);
+      const { error } = await withChangeReason(
+        editingId
+          ? supabase.from('roles').update(values).eq('id', editingId)
+          : supabase.from('roles').insert(values),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingId ? "Role updated successfully." : "Role created successfully.",
+      });
+
+      resetForm();
+      onDataChange();
+    } catch (error) {
+      console.error('Error saving role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save role.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRole = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('roles')
+          .delete()
+          .eq('id', deleting.id),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Role deleted successfully.",
+      });
+
+      if (editingId === deleting.id) resetForm();
+      setDeleting(null);
+      onDataChange();
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete role.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const impact = deleting && getRoleDeletionImpact(deleting.id, { ...impactData, roles });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Role Management</DialogTitle>
+        <DialogDescription>
+          Add, edit, or remove roles. System roles drive access to this app and cannot be renamed or deleted.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+        {sortedRoles.map(role => (
+          <div key={role.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+            <div className="flex items-start gap-3">
+              <div className="mt-1 h-4 w-4 shrink-0 rounded-full" style={{ backgroundColor: role.color }}></div>
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {role.name}
+                  {role.is_system_role && (
+                    <Badge variant="secondary" className="gap-1 text-xs">
+                      <Lock className="h-3 w-3" />
+                      System
+                    </Badge>
+                  )}
+                </div>
+                {role.description && <p className="text-sm text-muted-foreground">{role.description}</p>}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => startEditing(role)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDeleting(role)}
+                disabled={role.is_system_role}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-3">{editingRole ? `Edit ${editingRole.name}` : 'Add New Role'}</h4>
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+              <div>
+                <Label htmlFor="role-name">Role Name *</Label>
+                <Input
+                  id="role-name"
+                  placeholder="Enter role name"
+                  value={form.name}
+                  disabled={editingRole?.is_system_role}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="role-color">Color</Label>
+                <Input
+                  id="role-color"
+                  type="color"
+                  className="w-20 p-1"
+                  value={form.color}
+                  onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                placeholder="What is this role for?"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.isSystemRole}
+                disabled={editingRole?.is_system_role}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, isSystemRole: !!checked }))}
+              />
+              System role (cannot be renamed or deleted afterwards)
+            </label>
+            <div className="flex gap-2">
+              <Button className="gap-2" onClick={saveRole} disabled={saving}>
+                {editingRole ? <Edit className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                {editingRole ? 'Save Role' : 'Add Role'}
+              </Button>
+              {editingRole && (
+                <Button variant="outline" onClick={resetForm}>Cancel</Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Deleting the role also removes:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {impact && (
+            <ul className="space-y-2 text-sm">
+              <li>
+                <span className="font-medium">{impact.permissionActions.length} permission(s)</span>
+                {impact.permissionActions.length > 0 && (
+                  <span className="text-muted-foreground">: {impact.permissionActions.join(', ')}</span>
+                )}
+              </li>
+              <li>
+                <span className="font-medium">
+                  {impact.assignedUsers.length} user assignment(s), {impact.activeAssignments} active
+                </span>
+                {impact.assignedUsers.length > 0 && (
+                  <span className="text-muted-foreground">: {impact.assignedUsers.join(', ')}</span>
+                )}
+              </li>
+              {impact.childRoles.length > 0 && (
+                <li>
+                  <span className="font-medium">Inheritance for {impact.childRoles.length} role(s)</span>
+                  <span className="text-muted-foreground">: {impact.childRoles.join(', ')} no longer inherit anything</span>
+                </li>
+              )}
+              <li className="text-muted-foreground">
+                Change requests, access requests and recertification items for the role are deleted too.
+              </li>
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteRole}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Scale, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { sodEnforcementLabels, type SodEnforcement, type SodRule } from '@/lib/sod';
+import { withChangeReason } from '@/lib/audit';
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface SodRulesManagementProps {
+  actions: DatabaseAction[];
+  sodRules: SodRule[];
+  changeReason: string;
+  onDataChange: () => void;
+}
+
+const emptyRule = {
+  name: '',
+  actionAId: '',
+  actionBId: '',
+  enforcement: 'warn' as SodEnforcement
+};
+
+export default function SodRulesManagement({ actions, sodRules, changeReason, onDataChange }: SodRulesManagementProps) {
+  const { toast } = useToast();
+  const [newRule, setNewRule] = useState(emptyRule);
+
+  const getActionName = (actionId: string) => {
+    return actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  };
+
+  const isDuplicatePair = (actionAId: string, actionBId: string) => {
+    return sodRules.some(rule =>
+      (rule.action_a_id === actionAId && rule.action_b_id === actionBId) ||
+      (rule.action_a_id === actionBId && rule.action_b_id === actionAId)
+    );
+  };
+
+  const createRule = async () => {
+    if (!newRule.name.trim() || !newRule.actionAId || !newRule.actionBId) {
+      toast({
+        title: "Validation Error",
+        description: "A name and two actions are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (newRule.actionAId === newRule.actionBId) {
+      toast({
+        title: "Validation Error",
+        description: "A rule must combine two different actions.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (isDuplicatePair(newRule.actionAId, newRule.actionBId)) {
+      toast({
+        title: "Validation Error",
+        description: "A rule for these two actions already exists.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('sod_rules')
+          .insert({
+            name: newRule.name.trim(),
+            action_a_id: newRule.actionAId,
+            action_b_id: newRule.actionBId,
+            enforcement: newRule.enforcement
+          }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Conflict rule created successfully.",
+      });
+
+      setNewRule(emptyRule);
+      onDataChange();
+    } catch (error) {
+      console.error('Error creating conflict rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create conflict rule.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateEnforcement = async (ruleId: string, enforcement: SodEnforcement) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('sod_rules')
+          .update({ enforcement })
+          .eq('id', ruleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Conflict rule updated successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating conflict rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update conflict rule.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('sod_rules')
+          .delete()
+          .eq('id', ruleId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Conflict rule deleted successfully.",
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error deleting conflict rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete conflict rule.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderActionSelect = (value: string, onValueChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select an action" />
+      </SelectTrigger>
+      <SelectContent>
+        {actions.map(action => (
+          <SelectItem key={action.id} value={action.id}>
+            {action.name} - {action.category}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Segregation of Duties
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          No single role or user may hold both actions of a rule. Warning rules ask for confirmation, blocking rules refuse the change.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="sod-name">Rule Name *</Label>
+            <Input
+              id="sod-name"
+              value={newRule.name}
+              onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Purchasing vs payroll"
+            />
+          </div>
+          <div>
+            <Label>First Action *</Label>
+            {renderActionSelect(newRule.actionAId, (value) => setNewRule(prev => ({ ...prev, actionAId: value })))}
+          </div>
+          <div>
+            <Label>Second Action *</Label>
+            {renderActionSelect(newRule.actionBId, (value) => setNewRule(prev => ({ ...prev, actionBId: value })))}
+          </div>
+          <div>
+            <Label>Enforcement</Label>
+            <Select
+              value={newRule.enforcement}
+              onValueChange={(value) => setNewRule(prev => ({ ...prev, enforcement: value as SodEnforcement }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">{sodEnforcementLabels.warn}</SelectItem>
+                <SelectItem value="block">{sodEnforcementLabels.block}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button onClick={createRule} className="w-full md:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Conflicting Actions</TableHead>
+              <TableHead>Enforcement</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sodRules.map(rule => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <div className="font-medium">{rule.name}</div>
+                  {rule.description && (
+                    <div className="text-sm text-muted-foreground">{rule.description}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {getActionName(rule.action_a_id)} + {getActionName(rule.action_b_id)}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={rule.enforcement}
+                    onValueChange={(value) => updateEnforcement(rule.id, value as SodEnforcement)}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="warn">{sodEnforcementLabels.warn}</SelectItem>
+                      <SelectItem value="block">{sodEnforcementLabels.block}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deleteRule(rule.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {sodRules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No conflict rules defined
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
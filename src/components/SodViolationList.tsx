@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import { sodEnforcementLabels, type SodViolation } from '@/lib/sod';
+
+interface SodViolationListProps {
+  violations: SodViolation[];
+  actions: { id: string; name: string }[];
+  roles: { id: string; name: string }[];
+  profiles: { id: string; full_name?: string; email?: string }[];
+}
+
+export default function SodViolationList({ violations, actions, roles, profiles }: SodViolationListProps) {
+  const getActionName = (actionId: string) => {
+    return actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  };
+
+  const getSubjectName = (violation: SodViolation) => {
+    if (violation.subject === 'role') {
+      return `role ${roles.find(r => r.id === violation.subjectId)?.name || 'Unknown role'}`;
+    }
+    const profile = profiles.find(p => p.id === violation.subjectId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  return (
+    <ul className="max-h-48 overflow-y-auto space-y-2 text-sm">
+      {violations.map(violation => (
+        <li key={`${violation.rule.id}-${violation.subject}-${violation.subjectId}`} className="flex items-start gap-2">
+          <Badge variant={violation.rule.enforcement === 'block' ? 'destructive' : 'outline'} className="text-xs">
+            {sodEnforcementLabels[violation.rule.enforcement]}
+          </Badge>
+          <span>
+            <span className="font-medium">{violation.rule.name}</span>: {getSubjectName(violation)} would hold both{' '}
+            {getActionName(violation.rule.action_a_id)} and {getActionName(violation.rule.action_b_id)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
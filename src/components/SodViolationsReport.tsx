@@ -0,0 +1,143 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldAlert } from 'lucide-react';
+import type { Condition } from '@/lib/conditions';
+import type { Delegation } from '@/lib/permission-resolver';
+import { findViolations, sodEnforcementLabels, type SodRule } from '@/lib/sod';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+  parent_role_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+}
+
+interface DatabasePermission {
+  id: string;
+  role_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  limit_value?: number;
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface DatabaseUserRole {
+  id: string;
+  user_id: string;
+  role_id: string;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  reason: string;
+}
+
+interface SodViolationsReportProps {
+  sodRules: SodRule[];
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  permissions: DatabasePermission[];
+  profiles: DatabaseProfile[];
+  exclusions: DatabaseExclusion[];
+  assignments: DatabaseUserRole[];
+  delegations: Delegation[];
+}
+
+export default function SodViolationsReport({
+  sodRules,
+  roles,
+  actions,
+  permissions,
+  profiles,
+  exclusions,
+  assignments,
+  delegations
+}: SodViolationsReportProps) {
+  const violations = findViolations(sodRules, { roles, permissions, exclusions, assignments, delegations }, profiles);
+
+  const getActionName = (actionId: string) => {
+    return actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  };
+
+  const renderSubject = (subject: 'role' | 'user', subjectId: string) => {
+    if (subject === 'role') {
+      const role = roles.find(r => r.id === subjectId);
+      return (
+        <Badge variant="outline" style={{ borderColor: role?.color, color: role?.color }}>
+          {role?.name || 'Unknown role'}
+        </Badge>
+      );
+    }
+    const profile = profiles.find(p => p.id === subjectId);
+    return <span>{profile?.full_name || profile?.email || 'Unknown user'}</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Segregation of Duties Violations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Roles and users whose effective permissions include both actions of a conflict rule
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Enforcement</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Held By</TableHead>
+              <TableHead>Conflicting Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {violations.map(violation => (
+              <TableRow key={`${violation.rule.id}-${violation.subject}-${violation.subjectId}`}>
+                <TableCell className="font-medium">{violation.rule.name}</TableCell>
+                <TableCell>
+                  <Badge variant={violation.rule.enforcement === 'block' ? 'destructive' : 'outline'}>
+                    {sodEnforcementLabels[violation.rule.enforcement]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="capitalize">{violation.subject}</TableCell>
+                <TableCell>{renderSubject(violation.subject, violation.subjectId)}</TableCell>
+                <TableCell className="text-sm">
+                  {getActionName(violation.rule.action_a_id)} + {getActionName(violation.rule.action_b_id)}
+                </TableCell>
+              </TableRow>
+            ))}
+            {violations.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  {sodRules.length > 0 ? 'No violations found' : 'No conflict rules defined'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/csv';
+import { generateMatrixSql, migrationFileName, type SqlGeneratorData } from '@/lib/sql-generator';
+
+type SqlGeneratorDialogProps = SqlGeneratorData;
+
+// Policy snippets for no action, every action, or one category
+const NO_SNIPPETS = 'none';
+const ALL_SNIPPETS = 'all';
+
+export default function SqlGeneratorDialog({ roles, actions, permissions, exclusions, profiles }: SqlGeneratorDialogProps) {
+  const { toast } = useToast();
+  const [conditionalGrants, setConditionalGrants] = useState(false);
+  const [snippets, setSnippets] = useState(NO_SNIPPETS);
+  // Fixed while the dialog is open, so the preview and the download match
+  const [generatedAt] = useState(() => new Date());
+
+  const categories = Array.from(new Set(actions.map(action => action.category))).sort();
+  const policyActionIds = actions
+    .filter(action => snippets === ALL_SNIPPETS || action.category === snippets)
+    .map(action => action.id);
+  const sql = generateMatrixSql({ roles, actions, permissions, exclusions, profiles }, { conditionalGrants, policyActionIds }, generatedAt);
+
+  const copySql = async () => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      toast({
+        title: "Success",
+        description: "SQL copied to the clipboard.",
+      });
+    } catch (error) {
+      console.error('Error copying SQL:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the SQL.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const downloadMigration = () => {
+    downloadFile(new Blob([sql], { type: 'application/sql;charset=utf-8;' }), migrationFileName(generatedAt));
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Generate SQL</DialogTitle>
+        <DialogDescription>
+          A migration for downstream databases: snapshot tables of the matrix and a has_permission(action_name)
+          function to use in their RLS policies
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="flex items-center gap-2">
+            <Checkbox
+              checked={conditionalGrants}
+              onCheckedChange={(checked) => setConditionalGrants(!!checked)}
+            />
+            Conditional cells count as granted
+          </label>
+          <div>
+            <Label htmlFor="sql-snippets">Policy snippets</Label>
+            <Select value={snippets} onValueChange={setSnippets}>
+              <SelectTrigger id="sql-snippets">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SNIPPETS}>None</SelectItem>
+                <SelectItem value={ALL_SNIPPETS}>All actions</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-muted-foreground">
+          The app using it fills authz_user_roles with the roles of each auth user. User overrides are included
+          and matched by email; delegations and conditions are not, so access held only through a delegation
+          is denied there.
+        </p>
+        <pre className="max-h-[50vh] overflow-auto rounded-lg border bg-muted p-3 text-xs">{sql}</pre>
+      </div>
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={copySql}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button onClick={downloadMigration}>
+          <Download className="mr-2 h-4 w-4" />
+          Download Migration
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -1,13 +1,80 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { LogOut, Users, Shield, Activity, Settings } from 'lucide-react';
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import { LogOut, Users, Shield, Activity, Settings, ShieldAlert, History, ClipboardCheck, KeyRound, ListChecks, Handshake, Siren, Square, FileCode, Database } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useSupabaseAuth } from '@/contexts/SupabaseAuthContext';
 import { useToast } from '@/hooks/use-toast';
+import type { Condition } from '@/lib/conditions';
+import type { RiskLevel } from '@/lib/risk';
+import type { SodRule } from '@/lib/sod';
+import { isActive, type ValidityWindow } from '@/lib/validity';
+import { withChangeReason } from '@/lib/audit';
+import { isConflictError, toPermissionValues, type PermissionConflict, type StoredPermission } from '@/lib/concurrency';
+import {
+  getPendingRequest,
+  requiresApproval,
+  type ActionChangeRequest,
+  type ChangeRequestOperation,
+  type PermissionChangeRequest,
+  type PermissionValues,
+} from '@/lib/change-requests';
+import { canDecideAccessRequest, type AccessRequest } from '@/lib/access-requests';
+import type { OrgUnit } from '@/lib/org-units';
+import { cellKey, describeSkippedCells, type BulkApplyResult, type PermissionCellChange } from '@/lib/bulk-edit';
+import type { MatrixImportPayload, MatrixImportResult } from '@/lib/matrix-import';
+import {
+  afterRedo,
+  afterUndo,
+  emptyHistory,
+  isStepCurrent,
+  permissionHistoryEntry,
+  recordHistory,
+  type EditHistory,
+  type HistoryEntryInput,
+  type HistoryStep,
+} from '@/lib/history';
+import {
+  getOtherEditors,
+  LOCAL_EDIT_WINDOW_MS,
+  MATRIX_CHANNEL,
+  mergeRealtimeChange,
+  REMOTE_HIGHLIGHT_MS,
+  type EditorPresence,
+} from '@/lib/realtime';
+import {
+  formatTimeRemaining,
+  getActiveBreakGlassSession,
+  type BreakGlassSession,
+  type PostIncidentReview,
+} from '@/lib/break-glass';
 import AuthorizationMatrixView from './AuthorizationMatrixView';
 import UserManagement from './UserManagement';
+import RoleHierarchyManagement from './RoleHierarchyManagement';
+import SodRulesManagement from './SodRulesManagement';
+import SodViolationsReport from './SodViolationsReport';
+import ExpiringSoonCard from './ExpiringSoonCard';
+import AuditLogView from './AuditLogView';
+import ChangeRequestsPanel from './ChangeRequestsPanel';
+import AccessRequestDialog from './AccessRequestDialog';
+import AccessRequestsPanel from './AccessRequestsPanel';
+import RecertificationCampaigns from './RecertificationCampaigns';
+import DelegationsPanel from './DelegationsPanel';
+import OrgUnitsManagement from './OrgUnitsManagement';
+import BreakGlassDialog from './BreakGlassDialog';
+import BreakGlassPanel from './BreakGlassPanel';
+import NotificationsMenu from './NotificationsMenu';
+import RoleManagementDialog from './RoleManagementDialog';
+import ActionManagementDialog from './ActionManagementDialog';
+import PolicyDialog from './PolicyDialog';
+import SqlGeneratorDialog from './SqlGeneratorDialog';
+import PermissionConflictDialog from './PermissionConflictDialog';
+import EditHistoryMenu from './EditHistoryMenu';
 
 // Using database schema types directly
 interface DatabaseRole {
@@ -16,6 +83,10 @@ interface DatabaseRole {
   description: string;
   color: string;
   is_system_role: boolean;
+  parent_role_id?: string | null;
+  owner_id?: string | null;
+  org_unit_id?: string | null;
+  break_glass_minutes?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -25,6 +96,7 @@ interface DatabaseAction {
   name: string;
   description: string;
   category: string;
+  risk_level: RiskLevel;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +108,12 @@ interface DatabasePermission {
   status: 'granted' | 'denied' | 'conditional';
   limit_value?: number;
   conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  // Bumped on every update, for optimistic concurrency
+  revision: number;
   created_at: string;
   updated_at: string;
 }
@@ -45,7 +123,44 @@ interface DatabaseProfile {
   user_id: string;
   full_name?: string;
   email?: string;
-  role_id?: string;
+  org_unit_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DatabaseUserRole {
+  id: string;
+  user_id: string;
+  role_id: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  created_at: string;
+}
+
+interface DatabaseDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  action_ids: string[];
+  limit_value: number | null;
+  reason: string | null;
+  valid_from: string;
+  valid_until: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -58,37 +173,147 @@ export default function SupabaseAuthorizationMatrix() {
   const [actions, setActions] = useState<DatabaseAction[]>([]);
   const [permissions, setPermissions] = useState<DatabasePermission[]>([]);
   const [profiles, setProfiles] = useState<DatabaseProfile[]>([]);
+  const [exclusions, setExclusions] = useState<DatabaseExclusion[]>([]);
+  const [assignments, setAssignments] = useState<DatabaseUserRole[]>([]);
+  const [delegations, setDelegations] = useState<DatabaseDelegation[]>([]);
+  const [orgUnits, setOrgUnits] = useState<OrgUnit[]>([]);
+  const [sodRules, setSodRules] = useState<SodRule[]>([]);
+  const [changeRequests, setChangeRequests] = useState<PermissionChangeRequest[]>([]);
+  const [actionRequests, setActionRequests] = useState<ActionChangeRequest[]>([]);
+  const [accessRequests, setAccessRequests] = useState<AccessRequest[]>([]);
+  const [accessDialogOpen, setAccessDialogOpen] = useState(false);
+  const [breakGlassSessions, setBreakGlassSessions] = useState<BreakGlassSession[]>([]);
+  const [postIncidentReviews, setPostIncidentReviews] = useState<PostIncidentReview[]>([]);
+  const [breakGlassDialogOpen, setBreakGlassDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [userRole, setUserRole] = useState<string>('');
+  const [userRoles, setUserRoles] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState('matrix');
+  // Optional note attached to every change made in this session, stored in the audit log
+  const [changeReason, setChangeReason] = useState('');
+  // This session's edits, for undo and redo
+  const [history, setHistory] = useState<EditHistory>(emptyHistory);
+  const [historyBusy, setHistoryBusy] = useState(false);
+  const [otherEditors, setOtherEditors] = useState<EditorPresence[]>([]);
+  // Cells another editor changed a moment ago
+  const [remoteChanges, setRemoteChanges] = useState<string[]>([]);
+  const [editingCellKey, setEditingCellKey] = useState<string | null>(null);
+  // A save rejected because someone else changed the cell first
+  const [conflict, setConflict] = useState<PermissionConflict | null>(null);
+  const [channelReady, setChannelReady] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  // When this client last wrote each cell, to tell our own realtime echoes from other editors' changes
+  const localEditsRef = useRef(new Map<string, number>());
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const highlightRemoteChange = (row: Partial<DatabasePermission>) => {
+      if (!row.role_id || !row.action_id) return;
+      const key = cellKey(row.role_id, row.action_id);
+      if (Date.now() - (localEditsRef.current.get(key) ?? 0) < LOCAL_EDIT_WINDOW_MS) return;
+
+      setRemoteChanges(prev => [...prev.filter(k => k !== key), key]);
+      setTimeout(() => setRemoteChanges(prev => prev.filter(k => k !== key)), REMOTE_HIGHLIGHT_MS);
+    };
+
+    const channel = supabase
+      .channel(MATRIX_CHANNEL, { config: { presence: { key: user.id } } })
+      .on<DatabaseRole>('postgres_changes', { event: '*', schema: 'public', table: 'roles' }, (payload) => {
+        setRoles(prev => mergeRealtimeChange(prev, payload));
+      })
+      .on<DatabaseAction>('postgres_changes', { event: '*', schema: 'public', table: 'actions' }, (payload) => {
+        setActions(prev => mergeRealtimeChange(prev, payload));
+      })
+      .on<DatabaseProfile>('postgres_changes', { event: '*', schema: 'public', table: 'profiles' }, (payload) => {
+        setProfiles(prev => mergeRealtimeChange(prev, payload));
+      })
+      .on<DatabasePermission>('postgres_changes', { event: '*', schema: 'public', table: 'permissions' }, (payload) => {
+        setPermissions(prev => mergeRealtimeChange(prev, payload));
+        highlightRemoteChange(payload.eventType === 'DELETE' ? payload.old : payload.new);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        setOtherEditors(getOtherEditors(channel.presenceState<EditorPresence>(), user.id));
+      })
+      .subscribe((status) => setChannelReady(status === 'SUBSCRIBED'));
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      setChannelReady(false);
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const ownProfile = profiles.find(profile => profile.user_id === user?.id);
+  const ownName = ownProfile?.full_name || ownProfile?.email || user?.email || 'Unknown user';
+
+  // Tells the other editors which cell we have open
+  useEffect(() => {
+    if (!channelReady || !channelRef.current || !user) return;
+    channelRef.current.track({ userId: user.id, name: ownName, cell: editingCellKey });
+  }, [channelReady, editingCellKey, ownName, user]);
+
+  const markLocalEdit = (roleId: string, actionId: string) => {
+    localEditsRef.current.set(cellKey(roleId, actionId), Date.now());
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
       
       // Use any type to bypass TypeScript type checking while types are updating
-      const [rolesRes, actionsRes, permissionsRes, profilesRes, userRoleRes] = await Promise.all([
+      const [rolesRes, actionsRes, permissionsRes, profilesRes, exclusionsRes, assignmentsRes, delegationsRes, orgUnitsRes, sodRulesRes, changeRequestsRes, actionRequestsRes, accessRequestsRes, breakGlassSessionsRes, postIncidentReviewsRes, userRolesRes] = await Promise.all([
         (supabase as any).from('roles').select('*'),
         (supabase as any).from('actions').select('*'),
         (supabase as any).from('permissions').select('*'),
         (supabase as any).from('profiles').select('*'),
-        (supabase as any).rpc('get_user_role', { user_uuid: user?.id })
+        supabase.from('permission_exclusions').select('*'),
+        supabase.from('user_roles').select('*'),
+        supabase.from('delegations').select('*'),
+        supabase.from('org_units').select('*').order('name'),
+        supabase.from('sod_rules').select('*').order('name'),
+        supabase.from('permission_change_requests').select('*').eq('status', 'pending').order('created_at'),
+        supabase.from('action_change_requests').select('*').eq('status', 'pending').order('created_at'),
+        supabase.from('access_requests').select('*').order('created_at', { ascending: false }),
+        supabase.from('break_glass_sessions').select('*').order('started_at', { ascending: false }),
+        supabase.from('post_incident_reviews').select('*'),
+        supabase.rpc('get_user_roles', { user_uuid: user?.id })
       ]);
 
       if (rolesRes.error) throw rolesRes.error;
       if (actionsRes.error) throw actionsRes.error;
       if (permissionsRes.error) throw permissionsRes.error;
       if (profilesRes.error) throw profilesRes.error;
+      if (exclusionsRes.error) throw exclusionsRes.error;
+      if (assignmentsRes.error) throw assignmentsRes.error;
+      if (delegationsRes.error) throw delegationsRes.error;
+      if (orgUnitsRes.error) throw orgUnitsRes.error;
+      if (sodRulesRes.error) throw sodRulesRes.error;
+      if (changeRequestsRes.error) throw changeRequestsRes.error;
+      if (actionRequestsRes.error) throw actionRequestsRes.error;
+      if (accessRequestsRes.error) throw accessRequestsRes.error;
+      if (breakGlassSessionsRes.error) throw breakGlassSessionsRes.error;
+      if (postIncidentReviewsRes.error) throw postIncidentReviewsRes.error;
 
       setRoles(rolesRes.data || []);
       setActions(actionsRes.data || []);
       setPermissions(permissionsRes.data || []);
       setProfiles(profilesRes.data || []);
-      setUserRole(userRoleRes.data || '');
+      setExclusions((exclusionsRes.data || []) as DatabaseExclusion[]);
+      setAssignments(assignmentsRes.data || []);
+      setDelegations(delegationsRes.data || []);
+      setOrgUnits((orgUnitsRes.data || []) as OrgUnit[]);
+      setSodRules((sodRulesRes.data || []) as SodRule[]);
+      setChangeRequests((changeRequestsRes.data || []) as PermissionChangeRequest[]);
+      setActionRequests((actionRequestsRes.data || []) as ActionChangeRequest[]);
+      setAccessRequests((accessRequestsRes.data || []) as AccessRequest[]);
+      setBreakGlassSessions(breakGlassSessionsRes.data || []);
+      setPostIncidentReviews((postIncidentReviewsRes.data || []) as PostIncidentReview[]);
+      setUserRoles(userRolesRes.data || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast({
@@ -101,46 +326,646 @@ export default function SupabaseAuthorizationMatrix() {
     }
   };
 
+  const isAdmin = userRoles.some(role => role.toLowerCase() === 'admin');
+  const canEdit = userRoles.some(role => role.toLowerCase() === 'edit & view' || role.toLowerCase() === 'admin');
+
   const getPermission = (roleId: string, actionId: string) => {
     return permissions.find(p => p.role_id === roleId && p.action_id === actionId);
   };
 
-  const updatePermission = async (roleId: string, actionId: string, status: 'granted' | 'denied' | 'conditional') => {
+  const currentProfileId = ownProfile?.id ?? null;
+
+  const needsApproval = (actionId: string) => {
+    const action = actions.find(a => a.id === actionId);
+    return requiresApproval(isAdmin, action?.risk_level ?? 'low');
+  };
+
+  const describeCell = (roleId: string, actionId: string) => {
+    const roleName = roles.find(r => r.id === roleId)?.name || 'Unknown role';
+    const actionName = actions.find(a => a.id === actionId)?.name || 'Unknown action';
+    return `${roleName} - ${actionName}`;
+  };
+
+  const addHistory = (entry: HistoryEntryInput) => {
+    setHistory(prev => recordHistory(prev, entry));
+  };
+
+  // Written like any other edit, so the undo lands in the audit log with its own reason
+  const writeHistoryStep = async (step: HistoryStep, reason: string) => {
+    if (step.kind === 'permissions') {
+      await runPermissionChanges(step.changes, reason);
+      return;
+    }
+
+    const { error } = step.kind === 'user_roles'
+      ? await withChangeReason(
+          step.to
+            ? supabase.from('user_roles').upsert(step.to)
+            : supabase.from('user_roles').delete().eq('id', step.id),
+          reason
+        )
+      : await withChangeReason(
+          step.to
+            ? supabase.from('permission_exclusions').upsert(step.to)
+            : supabase.from('permission_exclusions').delete().eq('id', step.id),
+          reason
+        );
+
+    if (error) throw error;
+  };
+
+  const stepHistory = async (direction: 'undo' | 'redo') => {
+    const entry = direction === 'undo'
+      ? history.past[history.past.length - 1]
+      : history.future[history.future.length - 1];
+    if (!entry || historyBusy) return;
+
+    const step = entry[direction];
+    if (!isStepCurrent(step, { permissions, assignments, exclusions })) {
+      toast({
+        title: direction === 'undo' ? "Cannot undo" : "Cannot redo",
+        description: `"${entry.label}" was changed again since. Edit it directly instead.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    // Critical cells are never written directly, so they cannot be stepped back either
+    if (step.kind === 'permissions' && step.changes.some(change => needsApproval(change.action_id))) {
+      toast({
+        title: direction === 'undo' ? "Cannot undo" : "Cannot redo",
+        description: `"${entry.label}" now needs approval. Edit it directly instead.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setHistoryBusy(true);
+      const label = direction === 'undo' ? `Undo: ${entry.label}` : `Redo: ${entry.label}`;
+      await writeHistoryStep(step, changeReason.trim() ? `${label} (${changeReason.trim()})` : label);
+      setHistory(prev => (direction === 'undo' ? afterUndo(prev) : afterRedo(prev)));
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: direction === 'undo' ? `Undid "${entry.label}".` : `Redid "${entry.label}".`,
+      });
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      toast({
+        title: "Error",
+        description: direction === 'undo' ? "Failed to undo the change." : "Failed to redo the change.",
+        variant: "destructive"
+      });
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  // The shortcut handler is registered once and always calls the latest stepHistory
+  const stepHistoryRef = useRef(stepHistory);
+  stepHistoryRef.current = stepHistory;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Leave text fields their own undo, and don't change data behind an open dialog
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"], [role="alertdialog"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        stepHistoryRef.current(event.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        stepHistoryRef.current('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Files the edit for four-eyes review instead of writing it
+  const requestPermissionChange = async (
+    roleId: string,
+    actionId: string,
+    operation: ChangeRequestOperation,
+    values: PermissionValues,
+    reason = changeReason
+  ) => {
+    if (getPendingRequest(changeRequests, roleId, actionId)) {
+      toast({
+        title: "Validation Error",
+        description: "A change to this cell is already awaiting approval.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
+      if (!currentProfileId) throw new Error('No profile found for the current user');
+
       const existingPermission = getPermission(roleId, actionId);
-      
-      if (existingPermission) {
-        const { error } = await (supabase as any)
+      const { error } = await withChangeReason(
+        supabase
+          .from('permission_change_requests')
+          .insert({
+            role_id: roleId,
+            action_id: actionId,
+            operation,
+            proposed_values: values,
+            current_values: existingPermission ? {
+              status: existingPermission.status,
+              limit_value: existingPermission.limit_value ?? null,
+              conditions: existingPermission.conditions ?? null,
+              condition_spec: existingPermission.condition_spec ?? null,
+              valid_from: existingPermission.valid_from ?? null,
+              valid_until: existingPermission.valid_until ?? null
+            } : null,
+            reason: reason.trim() || null,
+            requested_by: currentProfileId
+          }),
+        reason
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Submitted for approval",
+        description: "The change will take effect once another admin approves it.",
+      });
+    } catch (error) {
+      console.error('Error requesting permission change:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit change request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Inserts or updates in one step, based on the revision this client last saw
+  const savePermission = async (
+    roleId: string,
+    actionId: string,
+    values: PermissionValues,
+    reason: string,
+    // The row this save is based on, null if the cell had none
+    before: StoredPermission | null,
+    successMessage = "Permission updated successfully."
+  ) => {
+    markLocalEdit(roleId, actionId);
+
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('upsert_permission', {
+          role_uuid: roleId,
+          action_uuid: actionId,
+          permission_values: values,
+          expected_revision: before?.revision ?? undefined
+        }),
+        reason
+      );
+
+      if (isConflictError(error)) {
+        const { data: current, error: currentError } = await supabase
           .from('permissions')
-          .update({ status })
-          .eq('id', existingPermission.id);
-        
-        if (error) throw error;
-      } else {
-        const { error } = await (supabase as any)
+          .select('*')
+          .eq('role_id', roleId)
+          .eq('action_id', actionId)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+
+        setConflict({ roleId, actionId, mine: values, theirs: current as unknown as StoredPermission | null, reason });
+        return;
+      }
+
+      if (error) throw error;
+
+      addHistory(permissionHistoryEntry(
+        `${describeCell(roleId, actionId)}: ${values.status ? `set to ${values.status}` : 'validity changed'}`,
+        [{ role_id: roleId, action_id: actionId, operation: 'upsert', values }],
+        [before
+          ? { role_id: roleId, action_id: actionId, operation: 'upsert', values: toPermissionValues(before) }
+          : { role_id: roleId, action_id: actionId, operation: 'delete' }]
+      ));
+      await loadData();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+    } catch (error) {
+      console.error('Error saving permission:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save permission.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updatePermission = async (roleId: string, actionId: string, values: PermissionValues, reason: string) => {
+    const existingPermission = getPermission(roleId, actionId);
+    // Changing a lapsed row starts a new, open-ended grant
+    const update = !existingPermission || isActive(existingPermission)
+      ? values
+      : { ...values, valid_from: null, valid_until: null };
+    const auditReason = reason || changeReason;
+
+    if (needsApproval(actionId)) {
+      markLocalEdit(roleId, actionId);
+      return requestPermissionChange(roleId, actionId, 'upsert', update, auditReason);
+    }
+
+    return savePermission(roleId, actionId, update, auditReason, existingPermission ?? null);
+  };
+
+  // Keep theirs by just reloading; keep mine or a merge by saving on top of their revision
+  const resolveConflict = (values: PermissionValues | null) => {
+    if (!conflict) return;
+    setConflict(null);
+
+    if (!values) {
+      loadData();
+      return;
+    }
+    savePermission(conflict.roleId, conflict.actionId, values, conflict.reason, conflict.theirs);
+  };
+
+  // One transaction for the whole batch; cells that need approval become change requests
+  const runPermissionChanges = async (changes: PermissionCellChange[], reason: string) => {
+    changes.forEach(change => markLocalEdit(change.role_id, change.action_id));
+    const { data, error } = await withChangeReason(
+      supabase.rpc('apply_permission_changes', { changes, reason: reason || undefined }),
+      reason
+    );
+
+    if (error) throw error;
+    return data as unknown as BulkApplyResult;
+  };
+
+  const applyBulkChanges = async (changes: PermissionCellChange[], reason: string) => {
+    try {
+      const result = await runPermissionChanges(changes, reason || changeReason);
+      if (result.undo.length > 0) {
+        // Cells filed for approval were not written and have nothing to undo
+        const applied = new Set(result.undo.map(change => cellKey(change.role_id, change.action_id)));
+        addHistory(permissionHistoryEntry(
+          `Bulk edit of ${result.undo.length} cell(s)`,
+          changes.filter(change => applied.has(cellKey(change.role_id, change.action_id))),
+          result.undo
+        ));
+      }
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: (result.requested > 0
+          ? `${result.applied} cell(s) updated, ${result.requested} submitted for approval.`
+          : `${result.applied} cell(s) updated successfully.`) + describeSkippedCells(result),
+      });
+    } catch (error) {
+      console.error('Error applying bulk change:', error);
+      toast({
+        title: "Error",
+        description: "Failed to apply bulk change. No cells were changed.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Roles, actions and cells land together or not at all
+  const importMatrix = async (payload: MatrixImportPayload, reason: string) => {
+    const auditReason = reason || changeReason;
+    try {
+      const { data, error } = await withChangeReason(
+        supabase.rpc('import_permission_matrix', { ...payload, reason: auditReason || undefined }),
+        auditReason
+      );
+
+      if (error) throw error;
+      const result = data as unknown as MatrixImportResult;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: `Import applied: ${result.roles_created} role(s) and ${result.actions_created} action(s) created, ${result.applied} cell(s) updated`
+          + (result.requested > 0 ? `, ${result.requested} submitted for approval.` : '.')
+          + describeSkippedCells(result),
+      });
+    } catch (error) {
+      console.error('Error importing matrix:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import the matrix. Nothing was changed.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Drops the role's own row so the cell falls back to what the parent role grants
+  const resetPermission = async (roleId: string, actionId: string) => {
+    const existingPermission = getPermission(roleId, actionId);
+    if (!existingPermission) return;
+    markLocalEdit(roleId, actionId);
+
+    if (needsApproval(actionId)) {
+      return requestPermissionChange(roleId, actionId, 'delete', {});
+    }
+
+    try {
+      // Only the revision this client saw is removed, never a newer change
+      const { data, error } = await withChangeReason(
+        supabase
           .from('permissions')
-          .insert({ role_id: roleId, action_id: actionId, status });
-        
-        if (error) throw error;
+          .delete()
+          .eq('id', existingPermission.id)
+          .eq('revision', existingPermission.revision)
+          .select('id'),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      if (!data?.length) {
+        toast({
+          title: "Conflicting change",
+          description: "Someone else changed this permission first. The matrix has been reloaded.",
+          variant: "destructive"
+        });
+        return;
       }
-      
+
+      addHistory(permissionHistoryEntry(
+        `${describeCell(roleId, actionId)}: reset to inherited`,
+        [{ role_id: roleId, action_id: actionId, operation: 'delete' }],
+        [{ role_id: roleId, action_id: actionId, operation: 'upsert', values: toPermissionValues(existingPermission) }]
+      ));
+      toast({
+        title: "Success",
+        description: "Permission now inherits from the parent role.",
+      });
+    } catch (error) {
+      console.error('Error resetting permission:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reset permission.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updatePermissionValidity = async (roleId: string, actionId: string, validity: ValidityWindow) => {
+    const existingPermission = getPermission(roleId, actionId);
+    if (!existingPermission) return;
+
+    const values = { valid_from: validity.valid_from ?? null, valid_until: validity.valid_until ?? null };
+    if (needsApproval(actionId)) {
+      markLocalEdit(roleId, actionId);
+      return requestPermissionChange(roleId, actionId, 'upsert', values);
+    }
+
+    return savePermission(
+      roleId,
+      actionId,
+      values,
+      changeReason,
+      existingPermission,
+      "Permission validity updated successfully."
+    );
+  };
+
+
+  const approveChangeRequest = async (requestId: string, comment: string) => {
+    const request = changeRequests.find(r => r.id === requestId);
+    if (request) markLocalEdit(request.role_id, request.action_id);
+
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('approve_permission_change', { request_id: requestId, comment: comment.trim() || undefined }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Change approved and applied.",
+      });
+    } catch (error) {
+      console.error('Error approving change request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve change request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rejectChangeRequest = async (requestId: string, comment: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('reject_permission_change', { request_id: requestId, comment: comment.trim() || undefined }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Change request rejected.",
+      });
+    } catch (error) {
+      console.error('Error rejecting change request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject change request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const cancelChangeRequest = async (requestId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('cancel_permission_change', { request_id: requestId }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Change request withdrawn.",
+      });
+    } catch (error) {
+      console.error('Error withdrawing change request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw change request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const approveActionChange = async (requestId: string, comment: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('approve_action_change', { request_id: requestId, comment: comment.trim() || undefined }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Risk level change approved and applied.",
+      });
+    } catch (error) {
+      console.error('Error approving risk level change:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve risk level change.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rejectActionChange = async (requestId: string, comment: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('reject_action_change', { request_id: requestId, comment: comment.trim() || undefined }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Risk level change rejected.",
+      });
+    } catch (error) {
+      console.error('Error rejecting risk level change:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject risk level change.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const cancelActionChange = async (requestId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('cancel_action_change', { request_id: requestId }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Risk level change withdrawn.",
+      });
+    } catch (error) {
+      console.error('Error withdrawing risk level change:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw risk level change.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const decideAccessRequest = async (requestId: string, approve: boolean, comment: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('decide_access_request', { request_id: requestId, approve, comment: comment.trim() || undefined }),
+        changeReason || comment
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: approve ? "Access request approved and access granted." : "Access request denied.",
+      });
+    } catch (error) {
+      console.error('Error deciding access request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to decide access request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const cancelAccessRequest = async (requestId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('cancel_access_request', { request_id: requestId }),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      await loadData();
+      toast({
+        title: "Success",
+        description: "Access request withdrawn.",
+      });
+    } catch (error) {
+      console.error('Error withdrawing access request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw access request.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const endBreakGlass = async (sessionId: string) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase.rpc('end_break_glass', { session_id: sessionId }),
+        changeReason
+      );
+
+      if (error) throw error;
+
       await loadData();
       toast({
         title: "Success",
-        description: "Permission updated successfully.",
+        description: "Emergency access ended.",
       });
     } catch (error) {
-      console.error('Error updating permission:', error);
+      console.error('Error ending emergency access:', error);
       toast({
         title: "Error",
-        description: "Failed to update permission.",
+        description: "Failed to end emergency access.",
         variant: "destructive"
       });
     }
   };
 
-  const isAdmin = userRole?.toLowerCase() === 'admin';
-  const canEdit = userRole?.toLowerCase() === 'edit & view' || userRole?.toLowerCase() === 'admin';
+  const activeBreakGlassSession = getActiveBreakGlassSession(breakGlassSessions, currentProfileId);
+
+  const accessRequestsToDecide = accessRequests.filter(request =>
+    request.status === 'pending' &&
+    canDecideAccessRequest(request, { profileId: currentProfileId, isAdmin }, roles)
+  ).length;
 
   if (loading) {
     return (
@@ -164,13 +989,78 @@ export default function SupabaseAuthorizationMatrix() {
               Manage roles and permissions for your organization
             </p>
             <div className="mt-2">
-              <span className="text-sm text-muted-foreground">Your role: </span>
+              <span className="text-sm text-muted-foreground">
+                {userRoles.length > 1 ? 'Your roles: ' : 'Your role: '}
+              </span>
               <span className="text-sm font-medium text-primary">
-                {userRole || 'No Role Assigned'}
+                {userRoles.join(', ') || 'No Role Assigned'}
               </span>
             </div>
           </div>
-          <div className="flex gap-4">
+          <div className="flex items-end gap-4">
+            {canEdit && (
+              <div className="w-72">
+                <Label htmlFor="change-reason" className="text-xs text-muted-foreground">
+                  Reason for changes (optional, recorded in the audit log)
+                </Label>
+                <Input
+                  id="change-reason"
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  placeholder="e.g. Ticket SEC-142"
+                />
+              </div>
+            )}
+            <Dialog open={accessDialogOpen} onOpenChange={setAccessDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Request Access
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <AccessRequestDialog
+                  roles={roles}
+                  actions={actions}
+                  requests={accessRequests}
+                  currentProfileId={currentProfileId}
+                  onSubmitted={() => {
+                    setAccessDialogOpen(false);
+                    loadData();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+            <Dialog open={breakGlassDialogOpen} onOpenChange={setBreakGlassDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="text-destructive hover:text-destructive" disabled={!!activeBreakGlassSession}>
+                  <Siren className="mr-2 h-4 w-4" />
+                  Emergency Access
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <BreakGlassDialog
+                  roles={roles}
+                  onInvoked={() => {
+                    setBreakGlassDialogOpen(false);
+                    loadData();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+            {canEdit && (
+              <EditHistoryMenu
+                history={history}
+                busy={historyBusy}
+                onUndo={() => stepHistory('undo')}
+                onRedo={() => stepHistory('redo')}
+              />
+            )}
+            <NotificationsMenu
+              onOpenNotification={(relatedTable) => {
+                if (relatedTable === 'break_glass_sessions') setActiveTab('compliance');
+              }}
+            />
             <Button onClick={signOut} variant="outline">
               <LogOut className="mr-2 h-4 w-4" />
               Sign Out
@@ -178,8 +1068,28 @@ export default function SupabaseAuthorizationMatrix() {
           </div>
         </div>
 
+        {activeBreakGlassSession && (
+          <div className="mb-8 flex items-center justify-between gap-4 rounded-lg border border-destructive bg-destructive/10 p-4">
+            <div className="flex items-center gap-3">
+              <Siren className="h-5 w-5 text-destructive" />
+              <div>
+                <div className="font-medium text-destructive">
+                  Emergency access: {roles.find(r => r.id === activeBreakGlassSession.role_id)?.name} ({formatTimeRemaining(activeBreakGlassSession.expires_at)})
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  Everything you change now is marked in the audit log and reviewed afterwards. Reason: {activeBreakGlassSession.reason}
+                </div>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => endBreakGlass(activeBreakGlassSession.id)}>
+              <Square className="mr-2 h-4 w-4" />
+              End Now
+            </Button>
+          </div>
+        )}
+
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Roles</CardTitle>
@@ -207,12 +1117,54 @@ export default function SupabaseAuthorizationMatrix() {
               <div className="text-2xl font-bold">{profiles.length}</div>
             </CardContent>
           </Card>
+          <ExpiringSoonCard
+            roles={roles}
+            actions={actions}
+            profiles={profiles}
+            permissions={permissions}
+            exclusions={exclusions}
+            assignments={assignments}
+          />
         </div>
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="matrix">Authorization Matrix</TabsTrigger>
+            <TabsTrigger value="approvals" disabled={!canEdit}>
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Approvals
+              {changeRequests.length + actionRequests.length > 0 && (
+                <span className="ml-2 rounded-full bg-primary px-2 text-xs text-primary-foreground">
+                  {changeRequests.length + actionRequests.length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="access">
+              <KeyRound className="mr-2 h-4 w-4" />
+              Access Requests
+              {accessRequestsToDecide > 0 && (
+                <span className="ml-2 rounded-full bg-primary px-2 text-xs text-primary-foreground">
+                  {accessRequestsToDecide}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="delegations">
+              <Handshake className="mr-2 h-4 w-4" />
+              Delegations
+            </TabsTrigger>
+            <TabsTrigger value="recertification">
+              <ListChecks className="mr-2 h-4 w-4" />
+              Recertification
+            </TabsTrigger>
+            <TabsTrigger value="compliance">
+              <ShieldAlert className="mr-2 h-4 w-4" />
+              Compliance
+            </TabsTrigger>
+            <TabsTrigger value="audit" disabled={!isAdmin}>
+              <History className="mr-2 h-4 w-4" />
+              Audit
+            </TabsTrigger>
             <TabsTrigger value="admin" disabled={!isAdmin}>
               <Settings className="mr-2 h-4 w-4" />
               Admin Panel
@@ -224,17 +1176,246 @@ export default function SupabaseAuthorizationMatrix() {
               roles={roles}
               actions={actions}
               permissions={permissions}
-              userRole={userRole}
+              profiles={profiles}
+              exclusions={exclusions}
+              assignments={assignments}
+              delegations={delegations}
+              orgUnits={orgUnits}
+              sodRules={sodRules}
+              changeRequests={changeRequests}
+              userRoles={userRoles}
+              authorName={ownName}
+              changeReason={changeReason}
               onPermissionUpdate={updatePermission}
+              onPermissionReset={resetPermission}
+              onPermissionValidityUpdate={updatePermissionValidity}
+              onBulkApply={applyBulkChanges}
+              onMatrixImport={importMatrix}
+              otherEditors={otherEditors}
+              remoteChanges={remoteChanges}
+              onEditingCellChange={setEditingCellKey}
             />
           </TabsContent>
           
-          <TabsContent value="admin" className="mt-6">
-            {isAdmin ? (
-              <UserManagement
+          <TabsContent value="approvals" className="mt-6">
+            <ChangeRequestsPanel
+              requests={changeRequests}
+              actionRequests={actionRequests}
+              roles={roles}
+              actions={actions}
+              profiles={profiles}
+              currentProfileId={currentProfileId}
+              isAdmin={isAdmin}
+              onApprove={approveChangeRequest}
+              onReject={rejectChangeRequest}
+              onCancel={cancelChangeRequest}
+              onApproveAction={approveActionChange}
+              onRejectAction={rejectActionChange}
+              onCancelAction={cancelActionChange}
+            />
+          </TabsContent>
+          
+          <TabsContent value="access" className="mt-6">
+            <AccessRequestsPanel
+              requests={accessRequests}
+              roles={roles}
+              actions={actions}
+              profiles={profiles}
+              permissions={permissions}
+              exclusions={exclusions}
+              assignments={assignments}
+              delegations={delegations}
+              sodRules={sodRules}
+              currentProfileId={currentProfileId}
+              isAdmin={isAdmin}
+              onDecide={decideAccessRequest}
+              onCancel={cancelAccessRequest}
+            />
+          </TabsContent>
+          
+          <TabsContent value="delegations" className="mt-6">
+            <DelegationsPanel
+              roles={roles}
+              actions={actions}
+              profiles={profiles}
+              permissions={permissions}
+              exclusions={exclusions}
+              assignments={assignments}
+              delegations={delegations}
+              sodRules={sodRules}
+              currentProfileId={currentProfileId}
+              isAdmin={isAdmin}
+              changeReason={changeReason}
+              onDataChange={loadData}
+            />
+          </TabsContent>
+          
+          <TabsContent value="recertification" className="mt-6">
+            <RecertificationCampaigns
+              roles={roles}
+              actions={actions}
+              profiles={profiles}
+              currentProfileId={currentProfileId}
+              isAdmin={isAdmin}
+              changeReason={changeReason}
+              onDataChange={loadData}
+            />
+          </TabsContent>
+          
+          <TabsContent value="compliance" className="mt-6 space-y-6">
+            <BreakGlassPanel
+              roles={roles}
+              profiles={profiles}
+              sessions={breakGlassSessions}
+              reviews={postIncidentReviews}
+              currentProfileId={currentProfileId}
+              isAdmin={isAdmin}
+              changeReason={changeReason}
+              onEnd={endBreakGlass}
+              onDataChange={loadData}
+            />
+            <SodViolationsReport
+              sodRules={sodRules}
+              roles={roles}
+              actions={actions}
+              permissions={permissions}
+              profiles={profiles}
+              exclusions={exclusions}
+              assignments={assignments}
+              delegations={delegations}
+            />
+          </TabsContent>
+          
+          <TabsContent value="audit" className="mt-6">
+            {isAdmin && (
+              <AuditLogView
                 roles={roles}
-                onDataChange={loadData}
+                actions={actions}
+                profiles={profiles}
               />
+            )}
+          </TabsContent>
+          
+          <TabsContent value="admin" className="mt-6">
+            {isAdmin ? (
+              <div className="space-y-6">
+                <div className="flex justify-end gap-2">
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Users className="mr-2 h-4 w-4" />
+                        Manage Roles
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl">
+                      <RoleManagementDialog
+                        roles={roles}
+                        actions={actions}
+                        profiles={profiles}
+                        permissions={permissions}
+                        assignments={assignments}
+                        changeReason={changeReason}
+                        onDataChange={loadData}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Settings className="mr-2 h-4 w-4" />
+                        Configure Actions
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl">
+                      <ActionManagementDialog
+                        roles={roles}
+                        actions={actions}
+                        profiles={profiles}
+                        permissions={permissions}
+                        assignments={assignments}
+                        exclusions={exclusions}
+                        sodRules={sodRules}
+                        actionRequests={actionRequests}
+                        currentProfileId={currentProfileId}
+                        changeReason={changeReason}
+                        onDataChange={loadData}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <FileCode className="mr-2 h-4 w-4" />
+                        Policy as Code
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-3xl">
+                      <PolicyDialog
+                        roles={roles}
+                        actions={actions}
+                        permissions={permissions}
+                        exclusions={exclusions}
+                        profiles={profiles}
+                        assignments={assignments}
+                        delegations={delegations}
+                        sodRules={sodRules}
+                        changeReason={changeReason}
+                        onDataChange={loadData}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Database className="mr-2 h-4 w-4" />
+                        Generate SQL
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl">
+                      <SqlGeneratorDialog
+                        roles={roles}
+                        actions={actions}
+                        permissions={permissions}
+                        exclusions={exclusions}
+                        profiles={profiles}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                </div>
+                <UserManagement
+                  roles={roles}
+                  actions={actions}
+                  permissions={permissions}
+                  exclusions={exclusions}
+                  assignments={assignments}
+                  delegations={delegations}
+                  sodRules={sodRules}
+                  orgUnits={orgUnits}
+                  changeReason={changeReason}
+                  onDataChange={loadData}
+                  onRecordHistory={addHistory}
+                />
+                <RoleHierarchyManagement
+                  roles={roles}
+                  profiles={profiles}
+                  orgUnits={orgUnits}
+                  changeReason={changeReason}
+                  onDataChange={loadData}
+                />
+                <OrgUnitsManagement
+                  orgUnits={orgUnits}
+                  roles={roles}
+                  profiles={profiles}
+                  changeReason={changeReason}
+                  onDataChange={loadData}
+                />
+                <SodRulesManagement
+                  actions={actions}
+                  sodRules={sodRules}
+                  changeReason={changeReason}
+                  onDataChange={loadData}
+                />
+              </div>
             ) : (
               <Card>
                 <CardContent className="flex items-center justify-center p-8">
@@ -250,6 +1431,20 @@ export default function SupabaseAuthorizationMatrix() {
             )}
           </TabsContent>
         </Tabs>
+
+        <Dialog open={!!conflict} onOpenChange={(open) => !open && resolveConflict(null)}>
+          <DialogContent className="max-w-2xl">
+            {conflict && (
+              <PermissionConflictDialog
+                conflict={conflict}
+                roleName={roles.find(r => r.id === conflict.roleId)?.name || 'Unknown role'}
+                actionName={actions.find(a => a.id === conflict.actionId)?.name || 'Unknown action'}
+                onResolve={resolveConflict}
+                onTakeTheirs={() => resolveConflict(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
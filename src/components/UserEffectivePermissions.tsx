@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Handshake, Info, UserCog } from 'lucide-react';
+import {
+  getRoleAssignments,
+  precedenceRuleDescriptions,
+  resolveEffectivePermission,
+  type Delegation,
+  type EffectivePermission,
+  type ProvenanceEntry,
+  type RoleAssignment,
+  type RolePermission,
+  type UserExclusion,
+} from '@/lib/permission-resolver';
+import type { ConditionContext } from '@/lib/conditions';
+import { buildUnitContext, flattenUnitTree, type OrgUnit } from '@/lib/org-units';
+import { formatValidityDate, isActive } from '@/lib/validity';
+
+const NO_TARGET = 'none';
+
+interface DatabaseRole {
+  id: string;
+  name: string;
+  color: string;
+  parent_role_id?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+  org_unit_id?: string | null;
+}
+
+interface UserEffectivePermissionsProps {
+  profile: DatabaseProfile;
+  roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  permissions: RolePermission[];
+  exclusions: UserExclusion[];
+  assignments: RoleAssignment[];
+  profiles: DatabaseProfile[];
+  delegations: Delegation[];
+  orgUnits: OrgUnit[];
+}
+
+export default function UserEffectivePermissions({
+  profile,
+  roles,
+  actions,
+  permissions,
+  exclusions,
+  assignments,
+  profiles,
+  delegations,
+  orgUnits
+}: UserEffectivePermissionsProps) {
+  // Department and team conditions are checked for a request about this unit, by default the user's own
+  const [targetUnitId, setTargetUnitId] = useState(profile.org_unit_id || NO_TARGET);
+  const context: ConditionContext = {
+    ...buildUnitContext(profile.org_unit_id, targetUnitId === NO_TARGET ? null : targetUnitId, orgUnits),
+    requesterId: profile.id,
+  };
+
+  const userRoles = roles.filter(r =>
+    getRoleAssignments({ profile, assignments }).includes(r.id)
+  );
+
+  const getUserName = (profileId: string) => {
+    const delegator = profiles.find(p => p.id === profileId);
+    return delegator?.full_name || delegator?.email || 'Unknown user';
+  };
+
+  // Delegations received and in effect now, for any action
+  const activeDelegations = delegations.filter(delegation =>
+    delegation.delegate_id === profile.id && isActive(delegation)
+  );
+
+  const getStatusBadge = (status: EffectivePermission['status']) => {
+    switch (status) {
+      case 'granted':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700">Granted</Badge>;
+      case 'conditional':
+        return <Badge variant="outline" className="border-yellow-500 text-yellow-700 hover:bg-yellow-50">Conditional</Badge>;
+      default:
+        return <Badge variant="destructive">Denied</Badge>;
+    }
+  };
+
+  const describeEntry = (entry: ProvenanceEntry) => {
+    if (entry.source === 'exclusion') {
+      return `User override (${entry.status}): ${entry.reason}`;
+    }
+    if (entry.source === 'delegation') {
+      return `Delegated by ${getUserName(entry.delegatorId)} (${entry.status})`;
+    }
+    const roleName = roles.find(r => r.id === entry.roleId)?.name || 'Unknown role';
+    if (entry.inheritedFromRoleId) {
+      const ancestorName = roles.find(r => r.id === entry.inheritedFromRoleId)?.name || 'Unknown role';
+      return `Role ${roleName}, inherited from ${ancestorName} (${entry.status})`;
+    }
+    return `Role ${roleName} (${entry.status})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Effective Permissions - {profile.full_name || profile.email}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {userRoles.length > 0
+            ? `${userRoles.length > 1 ? 'Roles' : 'Role'}: ${userRoles.map(r => r.name).join(', ')}. `
+            : 'No role assigned. '}
+          {activeDelegations.length > 0 && `Acting for ${activeDelegations
+            .map(delegation => `${getUserName(delegation.delegator_id)} until ${formatValidityDate(delegation.valid_until ?? '', 'until')}`)
+            .join(', ')}. `}
+          Hover the source to see how each decision was reached.
+        </p>
+        {orgUnits.length > 0 && (
+          <div className="max-w-xs">
+            <Label htmlFor="effective-target-unit">Check conditions for a request concerning</Label>
+            <Select value={targetUnitId} onValueChange={setTargetUnitId}>
+              <SelectTrigger id="effective-target-unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TARGET}>No particular unit</SelectItem>
+                {flattenUnitTree(orgUnits).map(({ unit, depth }) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    {'\u00a0'.repeat(depth * 2)}{unit.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-4 font-medium">Action</th>
+                <th className="text-center p-4 font-medium">Effective</th>
+                <th className="text-left p-4 font-medium">Limit / Conditions</th>
+                <th className="text-left p-4 font-medium">Source</th>
+              </tr>
+            </thead>
+            <tbody>
+              {actions.map(action => {
+                const effective = resolveEffectivePermission(
+                  { profile, assignments, roles, permissions, exclusions, delegations },
+                  action.id,
+                  context
+                );
+                // Approvals, amounts and environments depend on the request itself, so only unit scope is shown
+                const unitResults = effective.evaluation?.results.filter(result => result.condition.type === 'scope') ?? [];
+                return (
+                  <tr key={action.id} className="border-b hover:bg-muted/50">
+                    <td className="p-4">
+                      <div className="font-medium">{action.name}</div>
+                      <Badge variant="outline" className="mt-1">{action.category}</Badge>
+                    </td>
+                    <td className="p-4 text-center">{getStatusBadge(effective.status)}</td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {effective.limitValue && <div>Limit: {effective.limitValue}</div>}
+                      {effective.conditions && <div>{effective.conditions}</div>}
+                      {unitResults.map(result => (
+                        <div key={result.message} className={result.outcome === 'unsatisfied' ? 'text-destructive' : undefined}>
+                          {result.message}
+                        </div>
+                      ))}
+                      {effective.decidedBy?.validUntil && (
+                        <div>Until {formatValidityDate(effective.decidedBy.validUntil, 'until')}</div>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm">
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span className="inline-flex items-center gap-1 cursor-help">
+                            {effective.rule === 'user-exclusion' ? (
+                              <UserCog className="h-4 w-4 text-primary" />
+                            ) : effective.rule === 'delegation' ? (
+                              <Handshake className="h-4 w-4 text-primary" />
+                            ) : (
+                              <Info className="h-4 w-4 text-muted-foreground" />
+                            )}
+                            {effective.decidedBy ? describeEntry(effective.decidedBy) : 'No grant'}
+                          </span>
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-sm">
+                          <p className="font-medium">{precedenceRuleDescriptions[effective.rule]}</p>
+                          {effective.trail.length > 0 && (
+                            <ol className="mt-1 list-decimal pl-4 space-y-1">
+                              {effective.trail.map((entry, index) => (
+                                <li key={index}>{describeEntry(entry)}</li>
+                              ))}
+                            </ol>
+                          )}
+                        </TooltipContent>
+                      </Tooltip>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,416 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, X, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatConditions, parseConditions, validateCondition, type Condition } from '@/lib/conditions';
+import { formatValidityDate, isActive, validateValidityWindow, type ValidityWindow } from '@/lib/validity';
+import { withChangeReason } from '@/lib/audit';
+import type { OrgUnit } from '@/lib/org-units';
+import { exclusionHistoryEntry, toExclusionSnapshot, type HistoryEntryInput } from '@/lib/history';
+import ConditionEditor from './ConditionEditor';
+import ValidityFields from './ValidityFields';
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface DatabaseProfile {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface UserExclusionsDialogProps {
+  profile: DatabaseProfile;
+  actions: DatabaseAction[];
+  exclusions: DatabaseExclusion[];
+  roleNames: string[];
+  orgUnits: OrgUnit[];
+  changeReason: string;
+  onDataChange: () => void;
+  onRecordHistory: (entry: HistoryEntryInput) => void;
+}
+
+const emptyForm = {
+  actionId: '',
+  status: 'granted' as DatabaseExclusion['status'],
+  conditions: [] as Condition[],
+  // Free-text clauses from older rows that the parser did not understand
+  unparsedConditions: [] as string[],
+  validity: { valid_from: null, valid_until: null } as ValidityWindow,
+  reason: ''
+};
+
+export default function UserExclusionsDialog({
+  profile,
+  actions,
+  exclusions,
+  roleNames,
+  orgUnits,
+  changeReason,
+  onDataChange,
+  onRecordHistory
+}: UserExclusionsDialogProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const userExclusions = exclusions.filter(exclusion => exclusion.user_id === profile.id);
+  const availableActions = actions.filter(action =>
+    action.id === form.actionId || !userExclusions.some(exclusion => exclusion.action_id === action.id)
+  );
+
+  const getActionName = (actionId: string) => {
+    return actions.find(a => a.id === actionId)?.name || 'Unknown action';
+  };
+
+  const getProfileName = () => profile.full_name || profile.email || 'Unknown user';
+
+  const getStatusBadge = (status: DatabaseExclusion['status']) => {
+    switch (status) {
+      case 'granted':
+        return <Badge variant="default" className="bg-green-600 hover:bg-green-700 text-xs">Granted</Badge>;
+      case 'conditional':
+        return <Badge variant="outline" className="border-yellow-500 text-yellow-700 text-xs">Conditional</Badge>;
+      default:
+        return <Badge variant="destructive" className="text-xs">Denied</Badge>;
+    }
+  };
+
+  const startEdit = (exclusion: DatabaseExclusion) => {
+    const parsed = exclusion.condition_spec
+      ? { conditions: exclusion.condition_spec, unparsed: [] }
+      : parseConditions(exclusion.conditions);
+    setEditingId(exclusion.id);
+    setForm({
+      actionId: exclusion.action_id,
+      status: exclusion.status,
+      conditions: parsed.conditions,
+      unparsedConditions: parsed.unparsed,
+      validity: { valid_from: exclusion.valid_from ?? null, valid_until: exclusion.valid_until ?? null },
+      reason: exclusion.reason
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const saveExclusion = async () => {
+    if (!form.actionId || !form.reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "An action and a reason are required for every override.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const conditionError = form.conditions.map(validateCondition).find(Boolean);
+    if (conditionError) {
+      toast({
+        title: "Validation Error",
+        description: conditionError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const validityError = validateValidityWindow(form.validity);
+    if (validityError) {
+      toast({
+        title: "Validation Error",
+        description: validityError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const conditionText = [formatConditions(form.conditions), ...form.unparsedConditions]
+      .filter(Boolean)
+      .join('; ');
+    const values = {
+      action_id: form.actionId,
+      status: form.status,
+      conditions: conditionText || null,
+      condition_spec: form.conditions.length > 0 ? form.conditions : null,
+      condition_needs_review: form.unparsedConditions.length > 0,
+      valid_from: form.validity.valid_from ?? null,
+      valid_until: form.validity.valid_until ?? null,
+      reason: form.reason.trim()
+    };
+
+    try {
+      setSaving(true);
+
+      const before = userExclusions.find(exclusion => exclusion.id === editingId);
+      const { data, error } = editingId
+        ? await withChangeReason(
+            supabase
+              .from('permission_exclusions')
+              .update(values)
+              .eq('id', editingId)
+              .select()
+              .single(),
+            changeReason || values.reason
+          )
+        : await withChangeReason(
+            supabase
+              .from('permission_exclusions')
+              .insert({ ...values, user_id: profile.id })
+              .select()
+              .single(),
+            changeReason || values.reason
+          );
+
+      if (error) throw error;
+
+      onRecordHistory(exclusionHistoryEntry(
+        `${before ? 'Changed' : 'Added'} override for ${getActionName(values.action_id)} on ${getProfileName()}`,
+        data.id,
+        before ? toExclusionSnapshot(before) : null,
+        toExclusionSnapshot(data as unknown as DatabaseExclusion)
+      ));
+
+      toast({
+        title: "Success",
+        description: editingId ? "Override updated successfully." : "Override added successfully.",
+      });
+
+      resetForm();
+      onDataChange();
+    } catch (error) {
+      console.error('Error saving override:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save override.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeExclusion = async (exclusionId: string) => {
+    const exclusion = userExclusions.find(e => e.id === exclusionId);
+
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('permission_exclusions')
+          .delete()
+          .eq('id', exclusionId),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      if (exclusion) {
+        onRecordHistory(exclusionHistoryEntry(
+          `Removed override for ${getActionName(exclusion.action_id)} on ${getProfileName()}`,
+          exclusionId,
+          toExclusionSnapshot(exclusion),
+          null
+        ));
+      }
+
+      toast({
+        title: "Success",
+        description: "Override removed successfully.",
+      });
+
+      if (editingId === exclusionId) resetForm();
+      onDataChange();
+    } catch (error) {
+      console.error('Error removing override:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove override.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Permission Overrides - {profile.full_name || profile.email}</DialogTitle>
+        <DialogDescription>
+          User-specific exceptions take precedence over the permissions of the user's role
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+        {userExclusions.length > 0 ? (
+          <div className="space-y-2">
+            {userExclusions.map(exclusion => (
+              <div key={exclusion.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{getActionName(exclusion.action_id)}</span>
+                    {getStatusBadge(exclusion.status)}
+                    {!isActive(exclusion) && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+                  </div>
+                  {exclusion.conditions && (
+                    <p className="text-xs text-muted-foreground">Conditions: {exclusion.conditions}</p>
+                  )}
+                  {exclusion.condition_needs_review && (
+                    <p className="flex items-center gap-1 text-xs text-yellow-700">
+                      <AlertTriangle className="h-3 w-3" />
+                      Condition could not be parsed and needs review
+                    </p>
+                  )}
+                  {(exclusion.valid_from || exclusion.valid_until) && (
+                    <p className="text-xs text-muted-foreground">
+                      Valid: {exclusion.valid_from ? formatValidityDate(exclusion.valid_from, 'from') : 'always'}
+                      {' – '}
+                      {exclusion.valid_until ? formatValidityDate(exclusion.valid_until, 'until') : 'no end'}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">Reason: {exclusion.reason}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startEdit(exclusion)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => removeExclusion(exclusion.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            This user has no permission overrides.
+          </p>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{editingId ? 'Edit Override' : 'Add Override'}</h4>
+            {editingId && (
+              <Button size="sm" variant="ghost" onClick={resetForm}>
+                <X className="mr-1 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+          </div>
+          <div>
+            <Label>Action *</Label>
+            <Select
+              value={form.actionId}
+              onValueChange={(value) => setForm(prev => ({ ...prev, actionId: value }))}
+              disabled={!!editingId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select an action" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableActions.map(action => (
+                  <SelectItem key={action.id} value={action.id}>
+                    {action.name} - {action.category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Override Status</Label>
+            <Select
+              value={form.status}
+              onValueChange={(value) => setForm(prev => ({ ...prev, status: value as DatabaseExclusion['status'] }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="granted">Granted</SelectItem>
+                <SelectItem value="denied">Denied</SelectItem>
+                <SelectItem value="conditional">Conditional</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Conditions (Optional)</Label>
+            {form.unparsedConditions.length > 0 && (
+              <div className="flex items-start justify-between gap-2 p-2 mb-2 rounded border border-yellow-500 bg-yellow-50 text-xs text-yellow-800">
+                <span>
+                  Not understood, kept as text: {form.unparsedConditions.join('; ')}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-auto p-1 text-xs"
+                  onClick={() => setForm(prev => ({ ...prev, unparsedConditions: [] }))}
+                >
+                  Discard
+                </Button>
+              </div>
+            )}
+            <ConditionEditor
+              value={form.conditions}
+              onChange={(conditions) => setForm(prev => ({ ...prev, conditions }))}
+              roleNames={roleNames}
+              orgUnits={orgUnits}
+            />
+          </div>
+          <ValidityFields
+            value={form.validity}
+            onChange={(validity) => setForm(prev => ({ ...prev, validity }))}
+          />
+          <div>
+            <Label>Reason for Exception *</Label>
+            <Textarea
+              placeholder="Why is this exception needed?"
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+            />
+          </div>
+          <Button
+            onClick={saveExclusion}
+            disabled={saving || !form.actionId || !form.reason.trim()}
+            className="w-full"
+          >
+            {editingId ? (
+              'Save Changes'
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Override
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
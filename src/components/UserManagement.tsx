@@ -6,9 +6,30 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { UserPlus, Edit, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { UserPlus, Edit, Trash2, UserCog, X, Clock } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { Condition } from '@/lib/conditions';
+import type { Delegation } from '@/lib/permission-resolver';
+import { findIntroducedViolations, isBlocking, type SodRule, type SodViolation } from '@/lib/sod';
+import { formatValidityDate, isActive, isExpiringSoon, type ValidityWindow } from '@/lib/validity';
+import { withChangeReason } from '@/lib/audit';
+import { flattenUnitTree, type OrgUnit } from '@/lib/org-units';
+import { assignmentHistoryEntry, toAssignmentSnapshot, type HistoryEntryInput } from '@/lib/history';
+import UserExclusionsDialog from './UserExclusionsDialog';
+import SodViolationList from './SodViolationList';
+import ValidityPopover from './ValidityPopover';
 
 interface DatabaseRole {
   id: string;
@@ -16,6 +37,7 @@ interface DatabaseRole {
   description: string;
   color: string;
   is_system_role: boolean;
+  parent_role_id?: string | null;
 }
 
 interface DatabaseProfile {
@@ -23,17 +45,86 @@ interface DatabaseProfile {
   user_id: string;
   full_name?: string;
   email?: string;
-  role_id?: string;
+  org_unit_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface DatabaseUserRole {
+  id: string;
+  user_id: string;
+  role_id: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface DatabaseAction {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface DatabasePermission {
+  id: string;
+  role_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  limit_value?: number;
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+interface DatabaseExclusion {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
 interface UserManagementProps {
   roles: DatabaseRole[];
+  actions: DatabaseAction[];
+  permissions: DatabasePermission[];
+  exclusions: DatabaseExclusion[];
+  assignments: DatabaseUserRole[];
+  delegations: Delegation[];
+  sodRules: SodRule[];
+  orgUnits: OrgUnit[];
+  changeReason: string;
   onDataChange: () => void;
+  // Makes role assignment and override edits undoable
+  onRecordHistory: (entry: HistoryEntryInput) => void;
 }
 
-export default function UserManagement({ roles, onDataChange }: UserManagementProps) {
+const NO_UNIT = 'none';
+
+interface PendingAssignment {
+  profileId: string;
+  roleId: string;
+  violations: SodViolation[];
+}
+
+export default function UserManagement({
+  roles,
+  actions,
+  permissions,
+  exclusions,
+  assignments,
+  delegations,
+  sodRules,
+  orgUnits,
+  changeReason,
+  onDataChange,
+  onRecordHistory
+}: UserManagementProps) {
   const { toast } = useToast();
   const [profiles, setProfiles] = useState<DatabaseProfile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -43,6 +134,7 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
     fullName: '',
     roleId: ''
   });
+  const [pendingAssignment, setPendingAssignment] = useState<PendingAssignment | null>(null);
 
   useEffect(() => {
     loadProfiles();
@@ -92,17 +184,30 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
 
       if (authData.user) {
         // Create profile
-        const { error: profileError } = await (supabase as any)
-          .from('profiles')
-          .insert({
-            user_id: authData.user.id,
-            email: newUser.email,
-            full_name: newUser.fullName,
-            role_id: newUser.roleId
-          });
+        const { data: profile, error: profileError } = await withChangeReason(
+          supabase
+            .from('profiles')
+            .insert({
+              user_id: authData.user.id,
+              email: newUser.email,
+              full_name: newUser.fullName
+            })
+            .select('id')
+            .single(),
+          changeReason
+        );
 
         if (profileError) throw profileError;
 
+        const { error: roleError } = await withChangeReason(
+          supabase
+            .from('user_roles')
+            .insert({ user_id: profile.id, role_id: newUser.roleId }),
+          changeReason
+        );
+
+        if (roleError) throw roleError;
+
         toast({
           title: "Success",
           description: "User created successfully.",
@@ -122,42 +227,210 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
     }
   };
 
-  const updateUserRole = async (profileId: string, newRoleId: string) => {
+  const updateUserOrgUnit = async (profileId: string, value: string) => {
     try {
-      const { error } = await (supabase as any)
-        .from('profiles')
-        .update({ role_id: newRoleId })
-        .eq('id', profileId);
+      const { error } = await withChangeReason(
+        supabase
+          .from('profiles')
+          .update({ org_unit_id: value === NO_UNIT ? null : value })
+          .eq('id', profileId),
+        changeReason
+      );
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "User role updated successfully.",
+        description: "Org unit updated successfully.",
       });
 
       loadProfiles();
       onDataChange();
     } catch (error) {
-      console.error('Error updating user role:', error);
+      console.error('Error updating org unit:', error);
       toast({
         title: "Error",
-        description: "Failed to update user role.",
+        description: "Failed to update org unit.",
         variant: "destructive"
       });
     }
   };
 
+  const addUserRole = async (profileId: string, roleId: string) => {
+    try {
+      const { data, error } = await withChangeReason(
+        supabase
+          .from('user_roles')
+          .insert({ user_id: profileId, role_id: roleId })
+          .select()
+          .single(),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      onRecordHistory(assignmentHistoryEntry(
+        `Assigned ${getRoleName(roleId)} to ${getProfileName(profileId)}`,
+        data.id,
+        null,
+        toAssignmentSnapshot(data)
+      ));
+
+      toast({
+        title: "Success",
+        description: `${getRoleName(roleId)} assigned successfully.`,
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error assigning role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to assign role.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Blocking SoD rules refuse the assignment, warning rules ask for confirmation
+  const requestUserRole = (profileId: string, roleId: string) => {
+    const data = { roles, permissions, exclusions, assignments, delegations };
+    const violations = findIntroducedViolations(
+      sodRules,
+      data,
+      { ...data, assignments: [...assignments, { user_id: profileId, role_id: roleId }] },
+      profiles.filter(profile => profile.id === profileId)
+    );
+
+    if (isBlocking(violations)) {
+      const ruleNames = Array.from(new Set(
+        violations.filter(v => v.rule.enforcement === 'block').map(v => v.rule.name)
+      ));
+      toast({
+        title: "Blocked by segregation of duties",
+        description: `Assigning ${getRoleName(roleId)} would break: ${ruleNames.join(', ')}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (violations.length > 0) {
+      setPendingAssignment({ profileId, roleId, violations });
+      return;
+    }
+
+    addUserRole(profileId, roleId);
+  };
+
+  const confirmPendingAssignment = () => {
+    if (pendingAssignment) {
+      addUserRole(pendingAssignment.profileId, pendingAssignment.roleId);
+    }
+    setPendingAssignment(null);
+  };
+
+  const removeUserRole = async (assignment: DatabaseUserRole) => {
+    try {
+      const { error } = await withChangeReason(
+        supabase
+          .from('user_roles')
+          .delete()
+          .eq('id', assignment.id),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      onRecordHistory(assignmentHistoryEntry(
+        `Removed ${getRoleName(assignment.role_id)} from ${getProfileName(assignment.user_id)}`,
+        assignment.id,
+        toAssignmentSnapshot(assignment),
+        null
+      ));
+
+      toast({
+        title: "Success",
+        description: `${getRoleName(assignment.role_id)} removed successfully.`,
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error removing role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove role.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateAssignmentValidity = async (assignment: DatabaseUserRole, validity: ValidityWindow) => {
+    try {
+      const { data, error } = await withChangeReason(
+        supabase
+          .from('user_roles')
+          .update({ valid_from: validity.valid_from ?? null, valid_until: validity.valid_until ?? null })
+          .eq('id', assignment.id)
+          .select()
+          .single(),
+        changeReason
+      );
+
+      if (error) throw error;
+
+      onRecordHistory(assignmentHistoryEntry(
+        `${getRoleName(assignment.role_id)} validity for ${getProfileName(assignment.user_id)}`,
+        assignment.id,
+        toAssignmentSnapshot(assignment),
+        toAssignmentSnapshot(data)
+      ));
+
+      toast({
+        title: "Success",
+        description: `${getRoleName(assignment.role_id)} validity updated successfully.`,
+      });
+
+      onDataChange();
+    } catch (error) {
+      console.error('Error updating role validity:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role validity.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeValidity = (assignment: DatabaseUserRole) => {
+    if (!assignment.valid_from && !assignment.valid_until) return 'No time limit. Click to set one.';
+    const from = assignment.valid_from ? formatValidityDate(assignment.valid_from, 'from') : 'always';
+    const until = assignment.valid_until ? formatValidityDate(assignment.valid_until, 'until') : 'no end';
+    return `Valid ${from} – ${until}${isActive(assignment) ? '' : ' (inactive)'}`;
+  };
+
   const getRoleName = (roleId: string) => {
     const role = roles.find(r => r.id === roleId);
     return role?.name || 'No Role';
   };
 
+  const getProfileName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
   const getRoleColor = (roleId: string) => {
     const role = roles.find(r => r.id === roleId);
     return role?.color || '#6B7280';
   };
 
+  const getUserAssignments = (profileId: string) => {
+    return assignments.filter(assignment => assignment.user_id === profileId);
+  };
+
+  const getExclusionCount = (profileId: string) => {
+    return exclusions.filter(exclusion => exclusion.user_id === profileId).length;
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -244,7 +517,8 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
               <TableRow>
                 <TableHead>Name</TableHead>
                 <TableHead>Email</TableHead>
-                <TableHead>Role</TableHead>
+                <TableHead>Org Unit</TableHead>
+                <TableHead>Roles</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -255,43 +529,111 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
                   <TableCell>{profile.full_name || 'N/A'}</TableCell>
                   <TableCell>{profile.email}</TableCell>
                   <TableCell>
-                    {profile.role_id ? (
-                      <Badge 
-                        variant="outline" 
-                        style={{ 
-                          borderColor: getRoleColor(profile.role_id),
-                          color: getRoleColor(profile.role_id)
-                        }}
-                      >
-                        {getRoleName(profile.role_id)}
-                      </Badge>
-                    ) : (
-                      <Badge variant="secondary">No Role</Badge>
-                    )}
-                  </TableCell>
-                  <TableCell>
-                    {new Date(profile.created_at).toLocaleDateString()}
-                  </TableCell>
-                  <TableCell>
-                    <Select 
-                      value={profile.role_id || ''} 
-                      onValueChange={(value) => updateUserRole(profile.id, value)}
+                    <Select
+                      value={profile.org_unit_id || NO_UNIT}
+                      onValueChange={(value) => updateUserOrgUnit(profile.id, value)}
                     >
-                      <SelectTrigger className="w-32">
-                        <SelectValue placeholder="Change role" />
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {roles.map(role => (
-                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                        {flattenUnitTree(orgUnits).map(({ unit, depth }) => (
+                          <SelectItem key={unit.id} value={unit.id}>
+                            {'\u00a0'.repeat(depth * 2)}{unit.name}
+                          </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {getUserAssignments(profile.id).length > 0 ? (
+                        getUserAssignments(profile.id).map(assignment => (
+                          <Badge 
+                            key={assignment.id}
+                            variant="outline" 
+                            className={`gap-1 ${isActive(assignment) ? '' : 'opacity-50 line-through'}`}
+                            style={{ 
+                              borderColor: getRoleColor(assignment.role_id),
+                              color: getRoleColor(assignment.role_id)
+                            }}
+                          >
+                            <ValidityPopover
+                              title={`${getRoleName(assignment.role_id)} validity`}
+                              value={assignment}
+                              onSave={(validity) => updateAssignmentValidity(assignment, validity)}
+                            >
+                              <button className="flex items-center gap-1 hover:underline" title={describeValidity(assignment)}>
+                                {getRoleName(assignment.role_id)}
+                                {assignment.valid_until && (
+                                  <Clock className={`h-3 w-3 ${isExpiringSoon(assignment) ? 'text-destructive' : ''}`} />
+                                )}
+                              </button>
+                            </ValidityPopover>
+                            <button
+                              onClick={() => removeUserRole(assignment)}
+                              className="hover:opacity-70"
+                              title={`Remove ${getRoleName(assignment.role_id)}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))
+                      ) : (
+                        <Badge variant="secondary">No Role</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {new Date(profile.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Select 
+                        value="" 
+                        onValueChange={(value) => requestUserRole(profile.id, value)}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue placeholder="Add role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles
+                            .filter(role => !getUserAssignments(profile.id).some(a => a.role_id === role.id))
+                            .map(role => (
+                              <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button size="sm" variant="outline" title="Permission overrides">
+                            <UserCog className="h-4 w-4" />
+                            {getExclusionCount(profile.id) > 0 && (
+                              <span className="ml-1">{getExclusionCount(profile.id)}</span>
+                            )}
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-2xl">
+                          <UserExclusionsDialog
+                            profile={profile}
+                            actions={actions}
+                            exclusions={exclusions}
+                            roleNames={roles.map(role => role.name)}
+                            orgUnits={orgUnits}
+                            changeReason={changeReason}
+                            onDataChange={onDataChange}
+                            onRecordHistory={onRecordHistory}
+                          />
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  </TableCell>
                 </TableRow>
               ))}
               {profiles.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
                     No users found
                   </TableCell>
                 </TableRow>
@@ -300,6 +642,31 @@ export default function UserManagement({ roles, onDataChange }: UserManagementPr
           </Table>
         </CardContent>
       </Card>
+
+      <AlertDialog open={!!pendingAssignment} onOpenChange={(open) => !open && setPendingAssignment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm conflicting role</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAssignment && (
+                <>Assigning {getRoleName(pendingAssignment.roleId)} breaks these segregation-of-duties rules.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingAssignment && (
+            <SodViolationList
+              violations={pendingAssignment.violations}
+              actions={actions}
+              roles={roles}
+              profiles={profiles}
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingAssignment}>Assign Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
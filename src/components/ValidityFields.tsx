@@ -0,0 +1,40 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { fromDateInputValue, toDateInputValue, validateValidityWindow, type ValidityWindow } from '@/lib/validity';
+
+interface ValidityFieldsProps {
+  value: ValidityWindow;
+  onChange: (value: ValidityWindow) => void;
+}
+
+export default function ValidityFields({ value, onChange }: ValidityFieldsProps) {
+  const error = validateValidityWindow(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label>Valid From</Label>
+          <Input
+            type="date"
+            value={toDateInputValue(value.valid_from, 'from')}
+            onChange={(e) => onChange({ ...value, valid_from: fromDateInputValue(e.target.value, 'from') })}
+          />
+        </div>
+        <div>
+          <Label>Valid Until</Label>
+          <Input
+            type="date"
+            value={toDateInputValue(value.valid_until, 'until')}
+            onChange={(e) => onChange({ ...value, valid_until: fromDateInputValue(e.target.value, 'until') })}
+          />
+        </div>
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">Leave a date empty for no limit on that side.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { validateValidityWindow, type ValidityWindow } from '@/lib/validity';
+import ValidityFields from './ValidityFields';
+
+interface ValidityPopoverProps {
+  title: string;
+  value: ValidityWindow;
+  onSave: (value: ValidityWindow) => void;
+  children: ReactNode;
+}
+
+export default function ValidityPopover({ title, value, onSave, children }: ValidityPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ValidityWindow>(value);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft({ valid_from: value.valid_from ?? null, valid_until: value.valid_until ?? null });
+    }
+    setOpen(nextOpen);
+  };
+
+  const save = () => {
+    onSave(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <h4 className="font-medium text-sm">{title}</h4>
+        <ValidityFields value={draft} onChange={setDraft} />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={save} disabled={!!validateValidityWindow(draft)}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -14,6 +14,147 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_requests: {
+        Row: {
+          action_id: string | null
+          approver_id: string | null
+          created_at: string
+          decided_at: string | null
+          decision_comment: string | null
+          duration_days: number | null
+          id: string
+          justification: string
+          requester_id: string
+          role_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action_id?: string | null
+          approver_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decision_comment?: string | null
+          duration_days?: number | null
+          id?: string
+          justification: string
+          requester_id: string
+          role_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action_id?: string | null
+          approver_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decision_comment?: string | null
+          duration_days?: number | null
+          id?: string
+          justification?: string
+          requester_id?: string
+          role_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_requests_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_approver_id_fkey"
+            columns: ["approver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      action_change_requests: {
+        Row: {
+          action_id: string
+          created_at: string
+          current_risk_level: string
+          id: string
+          proposed_risk_level: string
+          reason: string | null
+          requested_by: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action_id: string
+          created_at?: string
+          current_risk_level: string
+          id?: string
+          proposed_risk_level: string
+          reason?: string | null
+          requested_by: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action_id?: string
+          created_at?: string
+          current_risk_level?: string
+          id?: string
+          proposed_risk_level?: string
+          reason?: string | null
+          requested_by?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "action_change_requests_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "action_change_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "action_change_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       actions: {
         Row: {
           category: string
@@ -21,6 +162,7 @@ export type Database = {
           description: string | null
           id: string
           name: string
+          risk_level: string
           updated_at: string
         }
         Insert: {
@@ -29,6 +171,7 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          risk_level?: string
           updated_at?: string
         }
         Update: {
@@ -37,40 +180,445 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          risk_level?: string
           updated_at?: string
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          break_glass_session_id: string | null
+          created_at: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          operation: string
+          reason: string | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          break_glass_session_id?: string | null
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          operation: string
+          reason?: string | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          break_glass_session_id?: string | null
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          operation?: string
+          reason?: string | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      break_glass_sessions: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          ended_by: string | null
+          expires_at: string
+          id: string
+          reason: string
+          replaced_valid_from: string | null
+          replaced_valid_until: string | null
+          role_id: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          ended_by?: string | null
+          expires_at: string
+          id?: string
+          reason: string
+          replaced_valid_from?: string | null
+          replaced_valid_until?: string | null
+          role_id: string
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          ended_by?: string | null
+          expires_at?: string
+          id?: string
+          reason?: string
+          replaced_valid_from?: string | null
+          replaced_valid_until?: string | null
+          role_id?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "break_glass_sessions_ended_by_fkey"
+            columns: ["ended_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "break_glass_sessions_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "break_glass_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delegations: {
+        Row: {
+          action_ids: string[]
+          created_at: string
+          created_by: string | null
+          delegate_id: string
+          delegator_id: string
+          id: string
+          limit_value: number | null
+          reason: string | null
+          updated_at: string
+          valid_from: string
+          valid_until: string
+        }
+        Insert: {
+          action_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          delegate_id: string
+          delegator_id: string
+          id?: string
+          limit_value?: number | null
+          reason?: string | null
+          updated_at?: string
+          valid_from?: string
+          valid_until: string
+        }
+        Update: {
+          action_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          delegate_id?: string
+          delegator_id?: string
+          id?: string
+          limit_value?: number | null
+          reason?: string | null
+          updated_at?: string
+          valid_from?: string
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delegations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          kind: string
+          read_at: string | null
+          recipient_id: string
+          related_id: string | null
+          related_table: string | null
+          title: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          read_at?: string | null
+          recipient_id: string
+          related_id?: string | null
+          related_table?: string | null
+          title: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          read_at?: string | null
+          recipient_id?: string
+          related_id?: string | null
+          related_table?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      org_units: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_units_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "org_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permission_change_requests: {
+        Row: {
+          action_id: string
+          created_at: string
+          current_values: Json | null
+          id: string
+          operation: string
+          proposed_values: Json
+          reason: string | null
+          requested_by: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          role_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action_id: string
+          created_at?: string
+          current_values?: Json | null
+          id?: string
+          operation: string
+          proposed_values?: Json
+          reason?: string | null
+          requested_by: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action_id?: string
+          created_at?: string
+          current_values?: Json | null
+          id?: string
+          operation?: string
+          proposed_values?: Json
+          reason?: string | null
+          requested_by?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "permission_change_requests_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "permission_change_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "permission_change_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "permission_change_requests_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permission_exclusions: {
+        Row: {
+          action_id: string
+          condition_needs_review: boolean
+          condition_spec: Json | null
+          conditions: string | null
+          created_at: string
+          id: string
+          reason: string
+          status: string
+          updated_at: string
+          user_id: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          action_id: string
+          condition_needs_review?: boolean
+          condition_spec?: Json | null
+          conditions?: string | null
+          created_at?: string
+          id?: string
+          reason: string
+          status: string
+          updated_at?: string
+          user_id: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          action_id?: string
+          condition_needs_review?: boolean
+          condition_spec?: Json | null
+          conditions?: string | null
+          created_at?: string
+          id?: string
+          reason?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "permission_exclusions_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "permission_exclusions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       permissions: {
         Row: {
           action_id: string
+          condition_needs_review: boolean
+          condition_spec: Json | null
           conditions: string | null
           created_at: string
           id: string
           limit_value: number | null
+          revision: number
           role_id: string
           status: string
           updated_at: string
+          valid_from: string | null
+          valid_until: string | null
         }
         Insert: {
           action_id: string
+          condition_needs_review?: boolean
+          condition_spec?: Json | null
           conditions?: string | null
           created_at?: string
           id?: string
           limit_value?: number | null
+          revision?: number
           role_id: string
           status: string
           updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
         }
         Update: {
           action_id?: string
+          condition_needs_review?: boolean
+          condition_spec?: Json | null
           conditions?: string | null
           created_at?: string
           id?: string
           limit_value?: number | null
+          revision?: number
           role_id?: string
           status?: string
           updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
         }
         Relationships: [
           {
@@ -89,13 +637,61 @@ export type Database = {
           },
         ]
       }
+      post_incident_reviews: {
+        Row: {
+          created_at: string
+          findings: string | null
+          id: string
+          reviewed_at: string | null
+          reviewer_id: string | null
+          session_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          findings?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          session_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          findings?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          session_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_incident_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_incident_reviews_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "break_glass_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           email: string | null
           full_name: string | null
           id: string
-          role_id: string | null
+          org_unit_id: string | null
           updated_at: string
           user_id: string
         }
@@ -104,7 +700,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
-          role_id?: string | null
+          org_unit_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -113,67 +709,522 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          org_unit_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_org_unit_id_fkey"
+            columns: ["org_unit_id"]
+            isOneToOne: false
+            referencedRelation: "org_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recertification_campaigns: {
+        Row: {
+          categories: string[]
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          name: string
+          risk_levels: string[]
+          role_ids: string[]
+          sign_off_note: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          categories?: string[]
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          name: string
+          risk_levels?: string[]
+          role_ids?: string[]
+          sign_off_note?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          categories?: string[]
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          name?: string
+          risk_levels?: string[]
+          role_ids?: string[]
+          sign_off_note?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recertification_campaigns_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recertification_campaigns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recertification_items: {
+        Row: {
+          action_id: string | null
+          campaign_id: string
+          comment: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision: string
+          granted_until: string | null
+          id: string
+          item_type: string
+          reviewer_id: string | null
+          revoked_at: string | null
+          role_id: string | null
+          source_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_id?: string | null
+          campaign_id: string
+          comment?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          granted_until?: string | null
+          id?: string
+          item_type: string
+          reviewer_id?: string | null
+          revoked_at?: string | null
+          role_id?: string | null
+          source_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_id?: string | null
+          campaign_id?: string
+          comment?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          granted_until?: string | null
+          id?: string
+          item_type?: string
+          reviewer_id?: string | null
+          revoked_at?: string | null
           role_id?: string | null
+          source_id?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_role_id_fkey"
+            foreignKeyName: "recertification_items_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recertification_items_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "recertification_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recertification_items_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recertification_items_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recertification_items_role_id_fkey"
             columns: ["role_id"]
             isOneToOne: false
             referencedRelation: "roles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recertification_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       roles: {
         Row: {
+          break_glass_minutes: number | null
           color: string | null
           created_at: string
           description: string | null
           id: string
           is_system_role: boolean
           name: string
+          org_unit_id: string | null
+          owner_id: string | null
+          parent_role_id: string | null
           updated_at: string
         }
         Insert: {
+          break_glass_minutes?: number | null
           color?: string | null
           created_at?: string
           description?: string | null
           id?: string
           is_system_role?: boolean
           name: string
+          org_unit_id?: string | null
+          owner_id?: string | null
+          parent_role_id?: string | null
           updated_at?: string
         }
         Update: {
+          break_glass_minutes?: number | null
           color?: string | null
           created_at?: string
           description?: string | null
           id?: string
           is_system_role?: boolean
           name?: string
+          org_unit_id?: string | null
+          owner_id?: string | null
+          parent_role_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "roles_org_unit_id_fkey"
+            columns: ["org_unit_id"]
+            isOneToOne: false
+            referencedRelation: "org_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roles_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roles_parent_role_id_fkey"
+            columns: ["parent_role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sod_rules: {
+        Row: {
+          action_a_id: string
+          action_b_id: string
+          created_at: string
+          description: string | null
+          enforcement: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          action_a_id: string
+          action_b_id: string
+          created_at?: string
+          description?: string | null
+          enforcement?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          action_a_id?: string
+          action_b_id?: string
+          created_at?: string
+          description?: string | null
+          enforcement?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sod_rules_action_a_id_fkey"
+            columns: ["action_a_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sod_rules_action_b_id_fkey"
+            columns: ["action_b_id"]
+            isOneToOne: false
+            referencedRelation: "actions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role_id: string
+          user_id: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role_id: string
+          user_id: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role_id?: string
+          user_id?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      active_break_glass_session: {
+        Args: { profile_uuid: string }
+        Returns: string
+      }
+      apply_permission_changes: {
+        Args: { changes: Json; reason?: string }
+        Returns: Json
+      }
+      approve_action_change: {
+        Args: { request_id: string; comment?: string }
+        Returns: undefined
+      }
+      approve_permission_change: {
+        Args: { request_id: string; comment?: string }
+        Returns: undefined
+      }
+      can_decide_access_request: {
+        Args: { req: Database["public"]["Tables"]["access_requests"]["Row"] }
+        Returns: boolean
+      }
       can_edit: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
-      get_user_role: {
+      cancel_access_request: {
+        Args: { request_id: string }
+        Returns: undefined
+      }
+      cancel_action_change: {
+        Args: { request_id: string }
+        Returns: undefined
+      }
+      cancel_permission_change: {
+        Args: { request_id: string }
+        Returns: undefined
+      }
+      close_recertification_campaign: {
+        Args: { campaign_id: string; sign_off_note?: string }
+        Returns: number
+      }
+      complete_post_incident_review: {
+        Args: { review_id: string; findings: string }
+        Returns: undefined
+      }
+      current_profile_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      decide_access_request: {
+        Args: { request_id: string; approve: boolean; comment?: string }
+        Returns: undefined
+      }
+      decide_recertification_item: {
+        Args: { comment?: string; decision: string; item_id: string }
+        Returns: undefined
+      }
+      enclosing_org_unit: {
+        Args: { unit_id: string; unit_kind: string }
+        Returns: string
+      }
+      end_break_glass: {
+        Args: { session_id: string }
+        Returns: undefined
+      }
+      get_user_roles: {
         Args: { user_uuid: string }
+        Returns: string[]
+      }
+      import_permission_matrix: {
+        Args: {
+          changes: Json
+          new_actions: Json
+          new_roles: Json
+          reason?: string
+        }
+        Returns: Json
+      }
+      import_policy: {
+        Args: {
+          action_changes: Json
+          exclusion_changes: Json
+          permission_changes: Json
+          reason?: string
+          role_changes: Json
+        }
+        Returns: Json
+      }
+      in_requester_org_unit: {
+        Args: { target_unit_id: string; unit_kind?: string }
+        Returns: boolean
+      }
+      invoke_break_glass: {
+        Args: { emergency_role_id: string; reason: string }
         Returns: string
       }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_critical_action: {
+        Args: { action_uuid: string }
+        Returns: boolean
+      }
+      launch_recertification_campaign: {
+        Args: {
+          campaign_description?: string
+          campaign_name: string
+          due?: string
+          scope_categories?: string[]
+          scope_risk_levels?: string[]
+          scope_role_ids?: string[]
+        }
+        Returns: string
+      }
+      mark_notifications_read: {
+        Args: { notification_ids?: string[] }
+        Returns: undefined
+      }
+      parse_condition_clause: {
+        Args: { clause: string }
+        Returns: Json
+      }
+      parse_condition_text: {
+        Args: { condition_text: string }
+        Returns: Json
+      }
+      reject_action_change: {
+        Args: { request_id: string; comment?: string }
+        Returns: undefined
+      }
+      reject_permission_change: {
+        Args: { request_id: string; comment?: string }
+        Returns: undefined
+      }
+      role_holds_action: {
+        Args: { action_uuid: string; role_uuid: string }
+        Returns: boolean
+      }
+      sod_block_violations: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      upsert_permission: {
+        Args: {
+          action_uuid: string
+          expected_revision?: number
+          permission_values: Json
+          role_uuid: string
+        }
+        Returns: {
+          action_id: string
+          condition_needs_review: boolean
+          condition_spec: Json | null
+          conditions: string | null
+          created_at: string
+          id: string
+          limit_value: number | null
+          revision: number
+          role_id: string
+          status: string
+          updated_at: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+      }
+      url_decode: {
+        Args: { input: string }
+        Returns: string
+      }
+      user_holds_action: {
+        Args: {
+          action_uuid: string
+          include_delegations?: boolean
+          profile_uuid: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
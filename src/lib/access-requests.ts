@@ -0,0 +1,86 @@
+// Self-service access requests. Approval is done by the decide_access_request RPC,
+// which creates the user override or role assignment itself.
+
+import type { UserExclusion } from './permission-resolver';
+import type { SodData } from './sod';
+import { isExpired } from './validity';
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied' | 'cancelled';
+
+export interface AccessRequest {
+  id: string;
+  requester_id: string;
+  action_id: string | null;
+  role_id: string | null;
+  justification: string;
+  duration_days: number | null;
+  status: AccessRequestStatus;
+  approver_id: string | null;
+  decided_at: string | null;
+  decision_comment: string | null;
+  created_at: string;
+}
+
+export const accessRequestStatusLabels: Record<AccessRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  denied: 'Denied',
+  cancelled: 'Cancelled',
+};
+
+// Durations offered in the request form, in days; null is open-ended
+export const accessDurationOptions: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '1 week', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'No end date', days: null },
+];
+
+// Mirrors public.can_decide_access_request: admins decide everything, role owners their roles.
+// Nobody decides their own request.
+export function canDecideAccessRequest(
+  request: AccessRequest,
+  approver: { profileId: string | null; isAdmin: boolean },
+  roles: { id: string; owner_id?: string | null }[]
+): boolean {
+  if (!approver.profileId || request.requester_id === approver.profileId) return false;
+  if (approver.isAdmin) return true;
+  return !!request.role_id && roles.some(r => r.id === request.role_id && r.owner_id === approver.profileId);
+}
+
+// Mirrors decide_access_request, which refuses to replace an override denying the action
+// unless that override has already ended
+export function isDeniedByOverride(request: AccessRequest, exclusions: UserExclusion[], at: Date = new Date()): boolean {
+  return !!request.action_id && exclusions.some(exclusion =>
+    exclusion.user_id === request.requester_id &&
+    exclusion.action_id === request.action_id &&
+    exclusion.status === 'denied' &&
+    !isExpired(exclusion, at)
+  );
+}
+
+// The data as it would be after approving the request, for checking segregation of duties up front.
+// The grant is left open-ended: a conflict is a conflict however long it lasts.
+export function applyAccessRequest(data: SodData, request: AccessRequest): SodData {
+  if (request.role_id) {
+    return {
+      ...data,
+      assignments: [...data.assignments, { user_id: request.requester_id, role_id: request.role_id }],
+    };
+  }
+
+  const exclusions = data.exclusions.filter(exclusion =>
+    exclusion.user_id !== request.requester_id || exclusion.action_id !== request.action_id
+  );
+  return {
+    ...data,
+    exclusions: [...exclusions, {
+      id: `request-${request.id}`,
+      user_id: request.requester_id,
+      action_id: request.action_id,
+      status: 'granted',
+      reason: request.justification,
+    }],
+  };
+}
@@ -0,0 +1,69 @@
+// Audit entries are written by database triggers. The only thing the client adds is an
+// optional reason, sent as a request header that the trigger reads.
+
+export const CHANGE_REASON_HEADER = 'x-change-reason';
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export const auditTableLabels: Record<string, string> = {
+  roles: 'Role',
+  actions: 'Action',
+  permissions: 'Permission',
+  profiles: 'User',
+  permission_exclusions: 'User override',
+  user_roles: 'Role assignment',
+  sod_rules: 'SoD rule',
+  delegations: 'Delegation',
+  org_units: 'Org unit',
+  break_glass_sessions: 'Emergency access',
+  post_incident_reviews: 'Post-incident review',
+  permission_change_requests: 'Change request',
+  access_requests: 'Access request',
+  recertification_campaigns: 'Recertification campaign',
+  recertification_items: 'Recertification item',
+};
+
+export const auditOperationLabels: Record<AuditOperation, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+// Attaches the reason to a Supabase query; blank reasons are left off
+export function withChangeReason<Q extends { setHeader(name: string, value: string): unknown }>(
+  query: Q,
+  reason?: string
+): Q {
+  const trimmed = reason?.trim();
+  if (trimmed) {
+    // Header values must be ASCII, the trigger decodes this again
+    query.setHeader(CHANGE_REASON_HEADER, encodeURIComponent(trimmed));
+  }
+  return query;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at'];
+
+export function getChangedFields(
+  oldValues: Record<string, unknown> | null,
+  newValues: Record<string, unknown> | null
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(oldValues ?? {}), ...Object.keys(newValues ?? {})]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(oldValues?.[field] ?? null) !== JSON.stringify(newValues?.[field] ?? null))
+    .map(field => ({ field, before: oldValues?.[field] ?? null, after: newValues?.[field] ?? null }));
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,71 @@
+// Break-glass emergency access. invoke_break_glass creates the session, the time-boxed role
+// assignment and the post-incident review in one transaction; the assignment lapses by itself.
+
+export interface BreakGlassSession {
+  id: string;
+  user_id: string;
+  role_id: string;
+  reason: string;
+  started_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  ended_by: string | null;
+}
+
+export type PostIncidentReviewStatus = 'open' | 'completed';
+
+export interface PostIncidentReview {
+  id: string;
+  session_id: string;
+  status: PostIncidentReviewStatus;
+  findings: string | null;
+  reviewer_id: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export type BreakGlassState = 'active' | 'ended' | 'expired';
+
+export const breakGlassStateLabels: Record<BreakGlassState, string> = {
+  active: 'Active',
+  ended: 'Ended early',
+  expired: 'Expired',
+};
+
+export const postIncidentReviewStatusLabels: Record<PostIncidentReviewStatus, string> = {
+  open: 'Review open',
+  completed: 'Reviewed',
+};
+
+// Window lengths offered when enabling a role for break-glass, in minutes
+export const breakGlassWindowOptions = [15, 30, 60, 120, 240];
+
+export function getBreakGlassState(session: BreakGlassSession, at: Date = new Date()): BreakGlassState {
+  if (session.ended_at) return 'ended';
+  return new Date(session.expires_at) <= at ? 'expired' : 'active';
+}
+
+// Mirrors public.active_break_glass_session
+export function getActiveBreakGlassSession(
+  sessions: BreakGlassSession[],
+  profileId: string | null,
+  at: Date = new Date()
+): BreakGlassSession | undefined {
+  return sessions.find(session =>
+    session.user_id === profileId &&
+    new Date(session.started_at) <= at &&
+    getBreakGlassState(session, at) === 'active'
+  );
+}
+
+export function formatWindowLength(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return Number.isInteger(hours) ? `${hours} hour${hours === 1 ? '' : 's'}` : `${minutes} minutes`;
+}
+
+export function formatTimeRemaining(expiresAt: string, at: Date = new Date()): string {
+  const minutes = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - at.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min left`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min left`;
+}
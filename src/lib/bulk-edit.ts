@@ -0,0 +1,147 @@
+// Multi-cell edits of the matrix. The client works out which selected cells actually change; the
+// apply_permission_changes RPC writes them in one transaction and returns their inverse for undo.
+
+import { applyPermissionChange, resolveRolePermission, type RoleNode, type RolePermission } from './permission-resolver';
+import type { ChangeRequestOperation, PermissionValues } from './change-requests';
+import { normalizePermissionValues, validatePermissionValues } from './permission-edit';
+import { isActive } from './validity';
+
+// A type rather than an interface so batches pass as JSON to the RPC
+export type PermissionCellChange = {
+  role_id: string;
+  action_id: string;
+  operation: ChangeRequestOperation;
+  values?: PermissionValues;
+};
+
+export interface BulkApplyResult {
+  applied: number;
+  // Cells filed as change requests instead of written
+  requested: number;
+  // Cells left alone because a change to them is already awaiting approval
+  skipped: Pick<PermissionCellChange, 'role_id' | 'action_id'>[];
+  // Inverse of the applied cells, sent back as-is to undo them
+  undo: PermissionCellChange[];
+}
+
+export function describeSkippedCells(result: Pick<BulkApplyResult, 'skipped'>): string {
+  return result.skipped.length > 0
+    ? ` ${result.skipped.length} cell(s) skipped: a change to them is already awaiting approval.`
+    : '';
+}
+
+export interface BulkPlan {
+  changes: PermissionCellChange[];
+  unchanged: number;
+  // Cells the patch would leave invalid, e.g. conditional without a condition
+  invalid: number;
+  error: string | null;
+}
+
+type CellPermission = RolePermission & { condition_needs_review?: boolean };
+
+export const cellKey = (roleId: string, actionId: string) => `${roleId}:${actionId}`;
+
+export function parseCellKey(key: string): { roleId: string; actionId: string } {
+  const [roleId, actionId] = key.split(':');
+  return { roleId, actionId };
+}
+
+// The rectangle between two cells, in the order the matrix currently shows rows and columns
+export function getCellRange(anchor: string, target: string, actionIds: string[], roleIds: string[]): string[] {
+  const from = parseCellKey(anchor);
+  const to = parseCellKey(target);
+  const rows = [actionIds.indexOf(from.actionId), actionIds.indexOf(to.actionId)];
+  const columns = [roleIds.indexOf(from.roleId), roleIds.indexOf(to.roleId)];
+  if ([...rows, ...columns].includes(-1)) return [target];
+
+  const keys: string[] = [];
+  for (let row = Math.min(...rows); row <= Math.max(...rows); row++) {
+    for (let column = Math.min(...columns); column <= Math.max(...columns); column++) {
+      keys.push(cellKey(roleIds[column], actionIds[row]));
+    }
+  }
+  return keys;
+}
+
+export const sameValues = (a: PermissionValues, b: PermissionValues) =>
+  a.status === b.status &&
+  (a.limit_value ?? null) === (b.limit_value ?? null) &&
+  (a.conditions ?? null) === (b.conditions ?? null) &&
+  JSON.stringify(a.condition_spec ?? null) === JSON.stringify(b.condition_spec ?? null);
+
+// What the matrix shows for a cell now, whether the role's own row or inherited
+export function getShownValues(
+  roleId: string,
+  actionId: string,
+  permissions: CellPermission[],
+  roles: RoleNode[]
+): PermissionValues {
+  const shown = resolveRolePermission(roleId, actionId, permissions, roles)?.permission as CellPermission | undefined;
+  return {
+    status: shown?.status ?? 'denied',
+    limit_value: shown?.limit_value ?? null,
+    conditions: shown?.conditions ?? null,
+    condition_spec: shown?.condition_spec ?? null,
+    condition_needs_review: shown?.condition_needs_review ?? false,
+  };
+}
+
+// Applies the fields set in the patch to every cell, keeping the rest of what the cell shows now.
+// Cells that would end up as they are, explicit or inherited, are left alone.
+export function planBulkChanges(
+  cells: string[],
+  patch: PermissionValues,
+  permissions: CellPermission[],
+  roles: RoleNode[]
+): BulkPlan {
+  const plan: BulkPlan = { changes: [], unchanged: 0, invalid: 0, error: null };
+
+  cells.forEach(key => {
+    const { roleId, actionId } = parseCellKey(key);
+    const own = permissions.find(p => p.role_id === roleId && p.action_id === actionId);
+    const current = getShownValues(roleId, actionId, permissions, roles);
+    const next = normalizePermissionValues({ ...current, ...patch });
+
+    const error = validatePermissionValues(next);
+    if (error) {
+      plan.invalid += 1;
+      plan.error = plan.error ?? error;
+      return;
+    }
+
+    if (sameValues(current, next)) {
+      plan.unchanged += 1;
+      return;
+    }
+
+    const lapsed = !!own && !isActive(own);
+
+    plan.changes.push({
+      role_id: roleId,
+      action_id: actionId,
+      operation: 'upsert',
+      // Changing a lapsed row starts a new, open-ended grant
+      values: lapsed ? { ...next, valid_from: null, valid_until: null } : next,
+    });
+  });
+
+  return plan;
+}
+
+// The permission rows as they would be after the changes, for SoD and access previews
+export function applyCellChanges(permissions: RolePermission[], changes: PermissionCellChange[]): RolePermission[] {
+  return changes.reduce((result, change) => {
+    if (change.operation === 'delete') {
+      return result.filter(p => !(p.role_id === change.role_id && p.action_id === change.action_id));
+    }
+    const existing = result.find(p => p.role_id === change.role_id && p.action_id === change.action_id);
+    return applyPermissionChange(result, {
+      ...existing,
+      ...change.values,
+      role_id: change.role_id,
+      action_id: change.action_id,
+      status: change.values?.status ?? existing?.status ?? 'denied',
+    });
+  }, permissions);
+}
@@ -0,0 +1,82 @@
+// Four-eyes approval for matrix edits. Requests are created by the client and
+// applied by the approve_permission_change RPC, never by the client itself.
+
+import type { PermissionStatus, RolePermission } from './permission-resolver';
+import type { RiskLevel } from './risk';
+import { formatAuditValue } from './audit';
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type ChangeRequestOperation = 'upsert' | 'delete';
+
+// Columns of a permissions row a request may set
+export type PermissionValues = Partial<Pick<
+  RolePermission,
+  'status' | 'limit_value' | 'conditions' | 'condition_spec' | 'valid_from' | 'valid_until'
+> & { condition_needs_review: boolean }>;
+
+export interface PermissionChangeRequest {
+  id: string;
+  role_id: string;
+  action_id: string;
+  operation: ChangeRequestOperation;
+  proposed_values: PermissionValues;
+  current_values: PermissionValues | null;
+  reason: string | null;
+  status: ChangeRequestStatus;
+  requested_by: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  created_at: string;
+}
+
+// Lowering a critical action's risk level, reviewed like a cell edit
+export interface ActionChangeRequest {
+  id: string;
+  action_id: string;
+  proposed_risk_level: RiskLevel;
+  current_risk_level: RiskLevel;
+  reason: string | null;
+  status: ChangeRequestStatus;
+  requested_by: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  created_at: string;
+}
+
+// Admins edit non-critical cells directly; everything else needs a second person
+export function requiresApproval(isAdmin: boolean, riskLevel: RiskLevel): boolean {
+  return !isAdmin || riskLevel === 'critical';
+}
+
+// Taking an action out of the critical level would also take its cells out of four-eyes control
+export function requiresRiskApproval(current: RiskLevel, proposed: RiskLevel): boolean {
+  return current === 'critical' && proposed !== 'critical';
+}
+
+export function getPendingRequest<T extends PermissionChangeRequest>(
+  requests: T[],
+  roleId: string,
+  actionId: string
+): T | undefined {
+  return requests.find(r => r.status === 'pending' && r.role_id === roleId && r.action_id === actionId);
+}
+
+// Status the cell would show once the request is approved; null means it would inherit
+export function getProposedStatus(
+  request: PermissionChangeRequest,
+  current?: { status: PermissionStatus }
+): PermissionStatus | null {
+  if (request.operation === 'delete') return null;
+  return request.proposed_values.status ?? current?.status ?? 'denied';
+}
+
+export function describeProposedValues(request: PermissionChangeRequest): string {
+  if (request.operation === 'delete') return 'Remove the explicit permission and inherit from the parent role';
+
+  return Object.entries(request.proposed_values)
+    .map(([field, value]) => `${field.replace(/_/g, ' ')}: ${formatAuditValue(value)}`)
+    .join(', ');
+}
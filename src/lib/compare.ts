@@ -0,0 +1,20 @@
+// Compares values written by the client with what the database hands back. Timestamps come back
+// in another format and JSONB reorders object keys, so both are compared by meaning.
+
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+const canonical = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && TIMESTAMP.test(value)) return new Date(value).getTime();
+  if (Array.isArray(value)) return value.map(canonical);
+  if (typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => [key, canonical((value as Record<string, unknown>)[key])]);
+  }
+  return value;
+};
+
+export function sameStoredValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
@@ -0,0 +1,88 @@
+// Optimistic concurrency for single-cell saves. Saves name the revision they were based on; the
+// upsert_permission RPC rejects outdated ones, and the conflict is resolved field by field.
+
+import type { PermissionValues } from './change-requests';
+import type { RolePermission } from './permission-resolver';
+
+// SQLSTATE the RPC raises when the row moved on (serialization_failure)
+export const PERMISSION_CONFLICT_CODE = '40001';
+
+export type ConflictField = 'status' | 'limit_value' | 'conditions' | 'validity';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export const conflictFieldLabels: Record<ConflictField, string> = {
+  status: 'Status',
+  limit_value: 'Limit',
+  conditions: 'Conditions',
+  validity: 'Validity',
+};
+
+// Columns that are kept or taken together
+const conflictFieldColumns: Record<ConflictField, (keyof PermissionValues)[]> = {
+  status: ['status'],
+  limit_value: ['limit_value'],
+  conditions: ['conditions', 'condition_spec', 'condition_needs_review'],
+  validity: ['valid_from', 'valid_until'],
+};
+
+export interface StoredPermission extends RolePermission {
+  condition_needs_review?: boolean;
+  revision: number;
+}
+
+export interface PermissionConflict {
+  roleId: string;
+  actionId: string;
+  // What this user tried to save
+  mine: PermissionValues;
+  // The row as it is now; null when someone removed it
+  theirs: StoredPermission | null;
+  reason: string;
+}
+
+export function isConflictError(error: { code?: string } | null): boolean {
+  return error?.code === PERMISSION_CONFLICT_CODE;
+}
+
+export function toPermissionValues(permission: StoredPermission | null): PermissionValues {
+  return {
+    status: permission?.status ?? 'denied',
+    limit_value: permission?.limit_value ?? null,
+    conditions: permission?.conditions ?? null,
+    condition_spec: permission?.condition_spec ?? null,
+    condition_needs_review: permission?.condition_needs_review ?? false,
+    valid_from: permission?.valid_from ?? null,
+    valid_until: permission?.valid_until ?? null,
+  };
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Fields this user set that now differ from the stored row
+export function getConflictFields(conflict: PermissionConflict): ConflictField[] {
+  const theirs = toPermissionValues(conflict.theirs);
+  return (Object.keys(conflictFieldColumns) as ConflictField[]).filter(field =>
+    conflictFieldColumns[field].some(column =>
+      column in conflict.mine && !sameValue(conflict.mine[column], theirs[column])
+    )
+  );
+}
+
+// The stored row with the fields chosen as 'mine' replaced by this user's values
+export function mergeConflict(
+  conflict: PermissionConflict,
+  choices: Partial<Record<ConflictField, ConflictChoice>>
+): PermissionValues {
+  const merged = toPermissionValues(conflict.theirs);
+  getConflictFields(conflict)
+    .filter(field => (choices[field] ?? 'mine') === 'mine')
+    .forEach(field => {
+      conflictFieldColumns[field]
+        .filter(column => column in conflict.mine)
+        .forEach(column => {
+          Object.assign(merged, { [column]: conflict.mine[column] ?? null });
+        });
+    });
+  return merged;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { formatCondition, parseCondition, parseConditions, validateCondition, type Condition } from './conditions';
+
+describe('parseCondition', () => {
+  it.each([
+    ['Up to $10,000', { type: 'amount', max: 10000 }],
+    ['up to 250.50', { type: 'amount', max: 250.5 }],
+    ['With Finance approval', { type: 'approval', role: 'Finance' }],
+    ['HR Manager approval required', { type: 'approval', role: 'HR Manager' }],
+    ['Production environment only', { type: 'environment', environments: ['production'] }],
+    ['Staging, development or staging environments only', { type: 'environment', environments: ['staging', 'development'] }],
+    ['Within assigned projects only', { type: 'scope', scope: 'project' }],
+    ['Own records only.', { type: 'scope', scope: 'own' }],
+    ['Department level only', { type: 'scope', scope: 'department' }],
+    ['team only', { type: 'scope', scope: 'team' }],
+  ] as [string, Condition][])('reads "%s"', (text, expected) => {
+    expect(parseCondition(text)).toEqual(expected);
+  });
+
+  it('keeps the unit a scope names', () => {
+    expect(parseCondition('Finance department only')).toEqual({ type: 'scope', scope: 'department', unit: 'Finance' });
+    expect(parseCondition('Platform Core team level only')).toEqual({ type: 'scope', scope: 'team', unit: 'Platform Core' });
+  });
+
+  it('returns null for text that matches no pattern', () => {
+    expect(parseCondition('Only on Fridays')).toBeNull();
+    expect(parseCondition('Up to a reasonable amount')).toBeNull();
+  });
+
+  it('reads back what formatCondition writes', () => {
+    const conditions: Condition[] = [
+      { type: 'amount', max: 1250000 },
+      { type: 'approval', role: 'Finance' },
+      { type: 'environment', environments: ['staging', 'production'] },
+      { type: 'scope', scope: 'own' },
+      { type: 'scope', scope: 'project' },
+      { type: 'scope', scope: 'team' },
+      { type: 'scope', scope: 'department', unit: 'Sales' },
+    ];
+    conditions.forEach(condition => expect(parseCondition(formatCondition(condition))).toEqual(condition));
+  });
+});
+
+describe('parseConditions', () => {
+  it('splits clauses on semicolons and keeps the ones it cannot read', () => {
+    expect(parseConditions('With Finance approval; Only on Fridays;; Up to $500')).toEqual({
+      conditions: [{ type: 'approval', role: 'Finance' }, { type: 'amount', max: 500 }],
+      unparsed: ['Only on Fridays'],
+    });
+  });
+
+  it('reads empty text as no conditions', () => {
+    expect(parseConditions(null)).toEqual({ conditions: [], unparsed: [] });
+    expect(parseConditions('')).toEqual({ conditions: [], unparsed: [] });
+  });
+});
+
+describe('validateCondition', () => {
+  it('accepts what parseCondition reads', () => {
+    expect(validateCondition(parseCondition('Finance department only'))).toBeNull();
+  });
+
+  it('rejects a blank unit name', () => {
+    expect(validateCondition({ type: 'scope', scope: 'team', unit: ' ' })).toBe('Unit name cannot be blank');
+  });
+});
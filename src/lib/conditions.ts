@@ -0,0 +1,257 @@
+// Typed model for conditional permissions.
+// Conditions are stored as a JSON list (all must hold) next to the human-readable
+// text in `conditions`, which is kept for display and for rows that cannot be parsed.
+
+export type ScopeLevel = 'own' | 'project' | 'team' | 'department';
+
+export type Environment = 'development' | 'staging' | 'production';
+
+export type Condition =
+  // unitId pins a named unit to an org unit; without it the unit is matched by name
+  | { type: 'scope'; scope: ScopeLevel; unit?: string; unitId?: string }
+  | { type: 'approval'; role: string }
+  | { type: 'amount'; max: number }
+  | { type: 'environment'; environments: Environment[] };
+
+export type ConditionType = Condition['type'];
+
+export const conditionTypeLabels: Record<ConditionType, string> = {
+  scope: 'Scope',
+  approval: 'Approval by role',
+  amount: 'Amount threshold',
+  environment: 'Environment',
+};
+
+export const scopeLevelLabels: Record<ScopeLevel, string> = {
+  own: 'Own records',
+  project: 'Assigned projects',
+  team: 'Team',
+  department: 'Department',
+};
+
+export const environments: Environment[] = ['development', 'staging', 'production'];
+
+// An org unit as seen by the evaluator; kind is 'department' or 'team'
+export interface UnitRef {
+  id: string;
+  name: string;
+  kind: string;
+}
+
+export interface ConditionContext {
+  // Departments and teams the requester belongs to
+  requesterUnits?: string[];
+  // Department or team the request concerns, e.g. whose budget is spent
+  targetUnit?: string;
+  // Org unit lineages, innermost unit first. When given they decide department and team
+  // scopes, so a team counts as part of its department.
+  requesterUnitPath?: UnitRef[];
+  targetUnitPath?: UnitRef[];
+  requesterProjects?: string[];
+  targetProject?: string;
+  requesterId?: string;
+  targetOwnerId?: string;
+  // Role names that have approved the request
+  approvals?: string[];
+  amount?: number;
+  environment?: Environment;
+}
+
+export type ConditionOutcome = 'satisfied' | 'unsatisfied' | 'unknown';
+
+export interface ConditionResult {
+  condition: Condition;
+  outcome: ConditionOutcome;
+  message: string;
+}
+
+export interface ConditionEvaluation {
+  outcome: ConditionOutcome;
+  results: ConditionResult[];
+}
+
+export interface ParsedConditions {
+  conditions: Condition[];
+  // Clauses that matched no known pattern and need a human to rewrite them
+  unparsed: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function formatCondition(condition: Condition): string {
+  switch (condition.type) {
+    case 'scope':
+      if (condition.scope === 'own') return 'Own records only';
+      if (condition.scope === 'project') return 'Assigned projects only';
+      return condition.unit
+        ? `${condition.unit} ${condition.scope} only`
+        : `${capitalize(condition.scope)} level only`;
+    case 'approval':
+      return `With ${condition.role} approval`;
+    case 'amount':
+      return `Up to $${condition.max.toLocaleString('en-US')}`;
+    case 'environment':
+      return condition.environments.length === 1
+        ? `${capitalize(condition.environments[0])} environment only`
+        : `${condition.environments.map(capitalize).join(' or ')} environments only`;
+  }
+}
+
+export function formatConditions(conditions: Condition[]): string {
+  return conditions.map(formatCondition).join('; ');
+}
+
+export function parseCondition(text: string): Condition | null {
+  const clause = text.trim().replace(/\.$/, '');
+  let match: RegExpMatchArray | null;
+
+  if ((match = clause.match(/^up to \$?([\d,]+(?:\.\d+)?)$/i))) {
+    return { type: 'amount', max: Number(match[1].replace(/,/g, '')) };
+  }
+
+  if ((match = clause.match(/^with (.+?) approval$/i)) ||
+      (match = clause.match(/^(.+?) approval required$/i))) {
+    return { type: 'approval', role: match[1].trim() };
+  }
+
+  if ((match = clause.match(/^((?:development|staging|production)(?:(?:,| or | and )\s*(?:development|staging|production))*) environments? only$/i))) {
+    const listed = match[1].toLowerCase().split(/,| or | and /).map(e => e.trim()).filter(Boolean);
+    return { type: 'environment', environments: Array.from(new Set(listed)) as Environment[] };
+  }
+
+  if (/^(?:within )?assigned projects only$/i.test(clause)) {
+    return { type: 'scope', scope: 'project' };
+  }
+
+  if (/^own (?:records|data) only$/i.test(clause)) {
+    return { type: 'scope', scope: 'own' };
+  }
+
+  if ((match = clause.match(/^(department|team)(?: level)? only$/i))) {
+    return { type: 'scope', scope: match[1].toLowerCase() as ScopeLevel };
+  }
+
+  if ((match = clause.match(/^(.+?) (department|team)(?: level)? only$/i))) {
+    return { type: 'scope', scope: match[2].toLowerCase() as ScopeLevel, unit: match[1].trim() };
+  }
+
+  return null;
+}
+
+// Clauses are separated by semicolons; every clause must parse for the text to be fully structured
+export function parseConditions(text: string | null | undefined): ParsedConditions {
+  const result: ParsedConditions = { conditions: [], unparsed: [] };
+  if (!text) return result;
+
+  for (const clause of text.split(';').map(c => c.trim()).filter(Boolean)) {
+    const condition = parseCondition(clause);
+    if (condition) {
+      result.conditions.push(condition);
+    } else {
+      result.unparsed.push(clause);
+    }
+  }
+
+  return result;
+}
+
+export function validateCondition(condition: Condition): string | null {
+  switch (condition.type) {
+    case 'scope':
+      if (condition.unit !== undefined && !condition.unit.trim()) return 'Unit name cannot be blank';
+      return null;
+    case 'approval':
+      return condition.role.trim() ? null : 'Choose the role that must approve';
+    case 'amount':
+      return Number.isFinite(condition.max) && condition.max > 0 ? null : 'Amount must be a positive number';
+    case 'environment':
+      return condition.environments.length > 0 ? null : 'Select at least one environment';
+  }
+}
+
+function evaluateUnitScope(
+  condition: Extract<Condition, { type: 'scope' }>,
+  targetPath: UnitRef[],
+  requesterPath: UnitRef[] | undefined
+): ConditionResult {
+  const result = (outcome: ConditionOutcome, message: string): ConditionResult => ({ condition, outcome, message });
+
+  if (condition.unit || condition.unitId) {
+    const inside = targetPath.some(unit =>
+      condition.unitId ? unit.id === condition.unitId : sameName(unit.name, condition.unit ?? '')
+    );
+    // A pinned unit may carry no name; the target's lineage names it when it is on the path
+    const unitName = condition.unit
+      || targetPath.find(unit => unit.id === condition.unitId)?.name
+      || condition.unitId;
+    return inside
+      ? result('satisfied', `Target is within ${unitName}`)
+      : result('unsatisfied', `Only ${unitName} is allowed`);
+  }
+
+  if (!requesterPath) return result('unknown', `Requester's ${condition.scope} is not known`);
+  const requesterUnit = requesterPath.find(unit => unit.kind === condition.scope);
+  if (!requesterUnit) return result('unsatisfied', `Requester belongs to no ${condition.scope}`);
+  const targetUnit = targetPath.find(unit => unit.kind === condition.scope);
+  return targetUnit?.id === requesterUnit.id
+    ? result('satisfied', `Target is in the requester's own ${condition.scope}, ${requesterUnit.name}`)
+    : result('unsatisfied', `Target is outside the requester's ${condition.scope}, ${requesterUnit.name}`);
+}
+
+function evaluateCondition(condition: Condition, context: ConditionContext): ConditionResult {
+  const result = (outcome: ConditionOutcome, message: string): ConditionResult => ({ condition, outcome, message });
+
+  switch (condition.type) {
+    case 'scope': {
+      if (condition.scope === 'own') {
+        if (!context.requesterId || !context.targetOwnerId) return result('unknown', 'Record owner is not known');
+        return context.requesterId === context.targetOwnerId
+          ? result('satisfied', 'Requester owns the record')
+          : result('unsatisfied', 'Requester does not own the record');
+      }
+      if (condition.scope === 'project') {
+        if (!context.targetProject || !context.requesterProjects) return result('unknown', 'Project assignment is not known');
+        return context.requesterProjects.includes(context.targetProject)
+          ? result('satisfied', 'Requester is assigned to the project')
+          : result('unsatisfied', 'Requester is not assigned to the project');
+      }
+      if (context.targetUnitPath) return evaluateUnitScope(condition, context.targetUnitPath, context.requesterUnitPath);
+      if (!context.targetUnit) return result('unknown', `Target ${condition.scope} is not known`);
+      if (condition.unit) {
+        return sameName(condition.unit, context.targetUnit)
+          ? result('satisfied', `Target is within ${condition.unit}`)
+          : result('unsatisfied', `Only ${condition.unit} is allowed`);
+      }
+      if (!context.requesterUnits) return result('unknown', `Requester's ${condition.scope} is not known`);
+      return context.requesterUnits.some(unit => sameName(unit, context.targetUnit))
+        ? result('satisfied', `Target is in the requester's own ${condition.scope}`)
+        : result('unsatisfied', `Target is outside the requester's ${condition.scope}`);
+    }
+    case 'approval':
+      if (!context.approvals) return result('unknown', `${condition.role} approval has not been checked`);
+      return context.approvals.some(role => sameName(role, condition.role))
+        ? result('satisfied', `Approved by ${condition.role}`)
+        : result('unsatisfied', `Needs ${condition.role} approval`);
+    case 'amount':
+      if (context.amount === undefined) return result('unknown', 'Amount is not known');
+      return context.amount <= condition.max
+        ? result('satisfied', `Within the ${condition.max.toLocaleString('en-US')} limit`)
+        : result('unsatisfied', `Exceeds ${condition.max.toLocaleString('en-US')}`);
+    case 'environment':
+      if (!context.environment) return result('unknown', 'Environment is not known');
+      return condition.environments.includes(context.environment)
+        ? result('satisfied', `Allowed in ${context.environment}`)
+        : result('unsatisfied', `Not allowed in ${context.environment}`);
+  }
+}
+
+// All conditions must hold. Any failure wins over missing information.
+export function evaluateConditions(conditions: Condition[], context: ConditionContext): ConditionEvaluation {
+  const results = conditions.map(condition => evaluateCondition(condition, context));
+  const outcome: ConditionOutcome = results.some(r => r.outcome === 'unsatisfied')
+    ? 'unsatisfied'
+    : results.some(r => r.outcome === 'unknown') ? 'unknown' : 'satisfied';
+  return { outcome, results };
+}
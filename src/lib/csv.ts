@@ -0,0 +1,77 @@
+// CSV export shared by the matrix and report downloads, the parser the matrix import reads it back
+// with, and the browser download every export goes through
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row =>
+    row.map(field => `"${String(field ?? '').replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+// Triggers a browser download of the rows as <filename>-<yyyy-mm-dd>.csv
+export function downloadCsv(rows: CsvValue[][], filename: string): void {
+  downloadText(toCsv(rows), filename, 'csv', 'text/csv;charset=utf-8;');
+}
+
+// Downloads text as <filename>-<yyyy-mm-dd>.<extension>
+export function downloadText(text: string, filename: string, extension: string, type: string): void {
+  downloadBlob(new Blob([text], { type }), filename, extension);
+}
+
+export function downloadBlob(blob: Blob, filename: string, extension: string): void {
+  downloadFile(blob, `${filename}-${new Date().toISOString().split('T')[0]}.${extension}`);
+}
+
+// Downloads under exactly the given name
+export function downloadFile(blob: Blob, fileName: string): void {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
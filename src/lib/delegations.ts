@@ -0,0 +1,28 @@
+// Delegations are resolved by permission-resolver; this covers what the management UI needs.
+
+import { resolveEffectivePermission, type Delegation, type ResolverInput } from './permission-resolver';
+import { isActive, isExpired } from './validity';
+
+export type DelegationState = 'scheduled' | 'active' | 'expired';
+
+export const delegationStateLabels: Record<DelegationState, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  expired: 'Expired',
+};
+
+export function getDelegationState(delegation: Delegation, at: Date = new Date()): DelegationState {
+  if (isExpired(delegation, at)) return 'expired';
+  return isActive(delegation, at) ? 'active' : 'scheduled';
+}
+
+// Actions the user holds in their own right, i.e. what they are able to delegate
+export function getDelegableActionIds(
+  delegatorId: string,
+  data: Omit<ResolverInput, 'profile' | 'delegations'>,
+  actionIds: string[]
+): string[] {
+  return actionIds.filter(actionId =>
+    resolveEffectivePermission({ ...data, profile: { id: delegatorId } }, actionId).status !== 'denied'
+  );
+}
@@ -0,0 +1,78 @@
+// What deleting a role or an action takes with it. Mirrors the ON DELETE rules on the foreign
+// keys, so the confirmation shows the same rows the database will remove or detach.
+
+import { isActive, type ValidityWindow } from './validity';
+
+interface RoleRef {
+  id: string;
+  name: string;
+  parent_role_id?: string | null;
+}
+
+interface NamedRef {
+  id: string;
+  name: string;
+}
+
+interface ProfileRef {
+  id: string;
+  full_name?: string;
+  email?: string;
+}
+
+export interface DeletionImpactData {
+  roles: RoleRef[];
+  actions: NamedRef[];
+  profiles: ProfileRef[];
+  permissions: { role_id: string; action_id: string }[];
+  assignments: ({ user_id: string; role_id: string } & ValidityWindow)[];
+  exclusions?: { user_id: string; action_id: string }[];
+  sodRules?: { name: string; action_a_id: string; action_b_id: string }[];
+}
+
+export interface RoleDeletionImpact {
+  // Explicit cells on the role, removed with it
+  permissionActions: string[];
+  // Users who lose the role, active or not
+  assignedUsers: string[];
+  activeAssignments: number;
+  // Roles that inherit from it and become top-level
+  childRoles: string[];
+}
+
+export interface ActionDeletionImpact {
+  permissionRoles: string[];
+  overrideUsers: string[];
+  sodRules: string[];
+}
+
+const profileName = (profiles: ProfileRef[], profileId: string) => {
+  const profile = profiles.find(p => p.id === profileId);
+  return profile?.full_name || profile?.email || 'Unknown user';
+};
+
+export function getRoleDeletionImpact(roleId: string, data: DeletionImpactData): RoleDeletionImpact {
+  const assignments = data.assignments.filter(a => a.role_id === roleId);
+  return {
+    permissionActions: data.permissions
+      .filter(p => p.role_id === roleId)
+      .map(p => data.actions.find(a => a.id === p.action_id)?.name || 'Unknown action'),
+    assignedUsers: assignments.map(a => profileName(data.profiles, a.user_id)),
+    activeAssignments: assignments.filter(a => isActive(a)).length,
+    childRoles: data.roles.filter(r => r.parent_role_id === roleId).map(r => r.name),
+  };
+}
+
+export function getActionDeletionImpact(actionId: string, data: DeletionImpactData): ActionDeletionImpact {
+  return {
+    permissionRoles: data.permissions
+      .filter(p => p.action_id === actionId)
+      .map(p => data.roles.find(r => r.id === p.role_id)?.name || 'Unknown role'),
+    overrideUsers: (data.exclusions ?? [])
+      .filter(e => e.action_id === actionId)
+      .map(e => profileName(data.profiles, e.user_id)),
+    sodRules: (data.sodRules ?? [])
+      .filter(rule => rule.action_a_id === actionId || rule.action_b_id === actionId)
+      .map(rule => rule.name),
+  };
+}
@@ -0,0 +1,205 @@
+// Session undo/redo. Every edit made here records how to step back and forward again; stepping
+// writes an ordinary change with the undo as its reason, so it shows up in the audit log like any
+// other edit. A step is refused when the data no longer looks the way the edit left it.
+
+import type { Condition } from './conditions';
+import { cellKey, type PermissionCellChange } from './bulk-edit';
+import { sameStoredValue } from './compare';
+
+// Oldest entries are dropped beyond this
+export const HISTORY_LIMIT = 50;
+
+export interface AssignmentSnapshot {
+  id: string;
+  user_id: string;
+  role_id: string;
+  valid_from: string | null;
+  valid_until: string | null;
+}
+
+export interface ExclusionSnapshot {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions: string | null;
+  condition_spec: Condition[] | null;
+  condition_needs_review: boolean;
+  reason: string;
+  valid_from: string | null;
+  valid_until: string | null;
+}
+
+// Row steps take the row with the given id from one snapshot to the other; null means no row
+export type HistoryStep =
+  | {
+      kind: 'permissions';
+      changes: PermissionCellChange[];
+      // What the cells look like before this step, i.e. the opposite step's changes
+      expected: PermissionCellChange[];
+    }
+  | { kind: 'user_roles'; id: string; from: AssignmentSnapshot | null; to: AssignmentSnapshot | null }
+  | { kind: 'permission_exclusions'; id: string; from: ExclusionSnapshot | null; to: ExclusionSnapshot | null };
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: string;
+  undo: HistoryStep;
+  redo: HistoryStep;
+}
+
+export type HistoryEntryInput = Pick<HistoryEntry, 'label' | 'undo' | 'redo'>;
+
+export interface EditHistory {
+  // Newest last
+  past: HistoryEntry[];
+  // Undone entries, the next one to redo last
+  future: HistoryEntry[];
+}
+
+export const emptyHistory: EditHistory = { past: [], future: [] };
+
+export interface HistoryData {
+  permissions: { role_id: string; action_id: string }[];
+  assignments: { id: string }[];
+  exclusions: { id: string }[];
+}
+
+export function toAssignmentSnapshot(row: {
+  id: string;
+  user_id: string;
+  role_id: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}): AssignmentSnapshot {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    role_id: row.role_id,
+    valid_from: row.valid_from ?? null,
+    valid_until: row.valid_until ?? null,
+  };
+}
+
+export function toExclusionSnapshot(row: {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: ExclusionSnapshot['status'];
+  conditions?: string | null;
+  condition_spec?: Condition[] | null;
+  condition_needs_review?: boolean;
+  reason: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}): ExclusionSnapshot {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    action_id: row.action_id,
+    status: row.status,
+    conditions: row.conditions ?? null,
+    condition_spec: row.condition_spec ?? null,
+    condition_needs_review: row.condition_needs_review ?? false,
+    reason: row.reason,
+    valid_from: row.valid_from ?? null,
+    valid_until: row.valid_until ?? null,
+  };
+}
+
+export function permissionHistoryEntry(
+  label: string,
+  forward: PermissionCellChange[],
+  inverse: PermissionCellChange[]
+): HistoryEntryInput {
+  return {
+    label,
+    undo: { kind: 'permissions', changes: inverse, expected: forward },
+    redo: { kind: 'permissions', changes: forward, expected: inverse },
+  };
+}
+
+export function assignmentHistoryEntry(
+  label: string,
+  id: string,
+  before: AssignmentSnapshot | null,
+  after: AssignmentSnapshot | null
+): HistoryEntryInput {
+  return {
+    label,
+    undo: { kind: 'user_roles', id, from: after, to: before },
+    redo: { kind: 'user_roles', id, from: before, to: after },
+  };
+}
+
+export function exclusionHistoryEntry(
+  label: string,
+  id: string,
+  before: ExclusionSnapshot | null,
+  after: ExclusionSnapshot | null
+): HistoryEntryInput {
+  return {
+    label,
+    undo: { kind: 'permission_exclusions', id, from: after, to: before },
+    redo: { kind: 'permission_exclusions', id, from: before, to: after },
+  };
+}
+
+export function recordHistory(history: EditHistory, entry: HistoryEntryInput): EditHistory {
+  const recorded: HistoryEntry = { ...entry, id: crypto.randomUUID(), at: new Date().toISOString() };
+  return { past: [...history.past, recorded].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function afterUndo(history: EditHistory): EditHistory {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  return { past: history.past.slice(0, -1), future: [...history.future, entry] };
+}
+
+export function afterRedo(history: EditHistory): EditHistory {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return history;
+  return { past: [...history.past, entry], future: history.future.slice(0, -1) };
+}
+
+// Columns the cell change sets; bookkeeping like the revision is not compared
+const PERMISSION_COLUMNS = [
+  'status',
+  'limit_value',
+  'conditions',
+  'condition_spec',
+  'condition_needs_review',
+  'valid_from',
+  'valid_until',
+];
+
+const cellMatches = (change: PermissionCellChange, row: Record<string, unknown> | undefined) => {
+  if (change.operation === 'delete') return !row;
+  if (!row) return false;
+  return Object.entries(change.values ?? {})
+    .filter(([column]) => PERMISSION_COLUMNS.includes(column))
+    .every(([column, value]) => sameStoredValue(row[column], value));
+};
+
+const rowMatches = (snapshot: object | null, rows: { id: string }[], id: string) => {
+  const row = rows.find(r => r.id === id) as Record<string, unknown> | undefined;
+  if (!snapshot) return !row;
+  if (!row) return false;
+  return Object.entries(snapshot).every(([column, value]) => sameStoredValue(row[column], value));
+};
+
+// Whether the data is still as the step expects to find it
+export function isStepCurrent(step: HistoryStep, data: HistoryData): boolean {
+  switch (step.kind) {
+    case 'permissions': {
+      const rows = new Map(data.permissions.map(p => [cellKey(p.role_id, p.action_id), p as Record<string, unknown>]));
+      return step.expected.every(change => cellMatches(change, rows.get(cellKey(change.role_id, change.action_id))));
+    }
+    case 'user_roles':
+      return rowMatches(step.from, data.assignments, step.id);
+    case 'permission_exclusions':
+      return rowMatches(step.from, data.exclusions, step.id);
+  }
+}
+
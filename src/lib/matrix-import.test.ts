@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+import { CELL_SYNTAX_EXAMPLE, parseCellText, readMatrix } from './matrix-import';
+
+describe('parseCellText', () => {
+  it('leaves blank cells alone', () => {
+    expect(parseCellText('')).toBeNull();
+    expect(parseCellText('   ')).toBeNull();
+  });
+
+  it('reads a bare status in any case', () => {
+    expect(parseCellText('Granted')).toEqual({
+      values: {
+        status: 'granted',
+        limit_value: null,
+        conditions: null,
+        condition_spec: null,
+        condition_needs_review: false,
+      },
+      error: null,
+    });
+  });
+
+  it('reads the documented example', () => {
+    expect(parseCellText(CELL_SYNTAX_EXAMPLE)).toEqual({
+      values: {
+        status: 'conditional',
+        limit_value: 5000,
+        conditions: 'With Manager approval; Up to $10,000',
+        condition_spec: [{ type: 'approval', role: 'Manager' }, { type: 'amount', max: 10000 }],
+        condition_needs_review: false,
+      },
+      error: null,
+    });
+  });
+
+  it('accepts a limit written with a currency sign and separators', () => {
+    expect(parseCellText('granted (limit $12,500)')?.values?.limit_value).toBe(12500);
+  });
+
+  it('keeps conditions it cannot parse as text and flags them for review', () => {
+    const { values } = parseCellText('conditional: Only on Fridays') ?? {};
+    expect(values).toMatchObject({ conditions: 'Only on Fridays', condition_spec: null, condition_needs_review: true });
+  });
+
+  it('drops the limit and conditions of a denied cell', () => {
+    const { values } = parseCellText('denied (limit 100): With Manager approval') ?? {};
+    expect(values).toMatchObject({ status: 'denied', limit_value: null, conditions: null, condition_spec: null });
+  });
+
+  it('points at the expected syntax when the cell cannot be read', () => {
+    expect(parseCellText('maybe')).toEqual({
+      values: null,
+      error: `Cannot read "maybe", expected e.g. "${CELL_SYNTAX_EXAMPLE}".`,
+    });
+  });
+
+  it('rejects a limit that is not a number', () => {
+    expect(parseCellText('granted (limit lots)')?.error).toBe('The limit "lots" is not a number.');
+  });
+
+  it('rejects a conditional cell without conditions', () => {
+    expect(parseCellText('conditional')?.error).toBe('A conditional permission needs at least one condition.');
+  });
+});
+
+describe('readMatrix', () => {
+  it('reads the list layout of the CSV export', () => {
+    const matrix = readMatrix(parseCsv([
+      'Role,Action,Category,Risk,Status,Limit,Conditions',
+      'Manager,Approve Expense Reports,Finance,High,granted,"10,000",',
+      'Employee,Assign Tasks,Projects,medium,conditional,,Assigned projects only',
+    ].join('\n')));
+
+    expect(matrix.layout).toBe('list');
+    expect(matrix.roleNames).toEqual(['Manager', 'Employee']);
+    expect(matrix.actions).toEqual([
+      { name: 'Approve Expense Reports', category: 'Finance', riskLevel: 'high' },
+      { name: 'Assign Tasks', category: 'Projects', riskLevel: 'medium' },
+    ]);
+    expect(matrix.cells.map(cell => [cell.roleName, cell.actionName, cell.row, cell.values?.status, cell.values?.limit_value]))
+      .toEqual([
+        ['Manager', 'Approve Expense Reports', 2, 'granted', 10000],
+        ['Employee', 'Assign Tasks', 3, 'conditional', null],
+      ]);
+  });
+
+  it('reads a grid with a column per role and skips blank cells', () => {
+    const matrix = readMatrix(parseCsv([
+      'Action,Risk,Manager,Employee',
+      'Approve Expense Reports,high,"granted (limit 10,000)",denied',
+      'Assign Tasks,,granted,"conditional: Assigned projects only; Up to $500"',
+      'View Project Reports,,,granted',
+    ].join('\r\n')));
+
+    expect(matrix.layout).toBe('grid');
+    expect(matrix.roleNames).toEqual(['Manager', 'Employee']);
+    expect(matrix.actions.map(action => action.riskLevel)).toEqual(['high', null, null]);
+    expect(matrix.cells).toHaveLength(5);
+    expect(matrix.cells.find(cell => cell.roleName === 'Employee' && cell.actionName === 'Assign Tasks')?.values?.condition_spec)
+      .toEqual([{ type: 'scope', scope: 'project' }, { type: 'amount', max: 500 }]);
+  });
+
+  it('matches repeated names without regard to case', () => {
+    const matrix = readMatrix([
+      ['role', 'action', 'status'],
+      ['Manager', 'Assign Tasks', 'granted'],
+      ['manager', 'assign tasks', 'denied'],
+    ]);
+    expect(matrix.roleNames).toEqual(['Manager']);
+    expect(matrix.cells.map(cell => [cell.roleName, cell.actionName])).toEqual([
+      ['Manager', 'Assign Tasks'],
+      ['Manager', 'Assign Tasks'],
+    ]);
+  });
+
+  it('reports list rows without a role or action', () => {
+    const matrix = readMatrix([
+      ['Role', 'Action', 'Status'],
+      ['', 'Assign Tasks', 'granted'],
+    ]);
+    expect(matrix.cells[0]).toMatchObject({ row: 2, values: null, error: 'The role or action is missing.' });
+  });
+
+  it('refuses a file without rows or role columns', () => {
+    expect(() => readMatrix([['Action', 'Manager']])).toThrow('The file has no rows below the header.');
+    expect(() => readMatrix([['Action', 'Risk'], ['Assign Tasks', 'low']])).toThrow(/^No role columns found/);
+  });
+});
+
+describe('parseCsv', () => {
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\n')).toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFRole,Action\r\n\r\nManager,Assign Tasks\n,\n')).toEqual([
+      ['Role', 'Action'],
+      ['Manager', 'Assign Tasks'],
+    ]);
+  });
+});
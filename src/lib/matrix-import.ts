@@ -0,0 +1,348 @@
+// Spreadsheet import of the permission matrix. Two layouts are read: the list the CSV export writes,
+// one row per role and action, and a grid with a column per role and a row per action. The
+// import_permission_matrix RPC creates missing roles and actions and writes all cells in one go.
+
+import { parseConditions } from './conditions';
+import { getPendingRequest, type PermissionChangeRequest, type PermissionValues } from './change-requests';
+import { normalizePermissionValues, validatePermissionValues } from './permission-edit';
+import { cellKey, getShownValues, sameValues, type BulkApplyResult, type PermissionCellChange } from './bulk-edit';
+import type { PermissionStatus, RoleNode, RolePermission } from './permission-resolver';
+import { riskLevels, type RiskLevel } from './risk';
+import { isActive } from './validity';
+
+export type ImportLayout = 'list' | 'grid';
+
+export interface ImportedAction {
+  name: string;
+  category: string | null;
+  riskLevel: RiskLevel | null;
+}
+
+export interface ImportedCell {
+  roleName: string;
+  actionName: string;
+  // Row in the file, counting the header as 1
+  row: number;
+  // The cell as written, shown next to errors
+  text: string;
+  values: PermissionValues | null;
+  error: string | null;
+}
+
+export interface ImportedMatrix {
+  layout: ImportLayout;
+  roleNames: string[];
+  actions: ImportedAction[];
+  cells: ImportedCell[];
+}
+
+// Mapping targets besides the id of an existing role or action
+export const CREATE = 'create';
+export const SKIP = 'skip';
+
+export interface ImportMapping {
+  // Keyed by the name used in the file
+  roles: Record<string, string>;
+  actions: Record<string, string>;
+}
+
+export interface ImportDiff {
+  roleName: string;
+  actionName: string;
+  before: PermissionValues;
+  after: PermissionValues;
+  // New roles and actions get placeholder ids, enough for previews
+  change: PermissionCellChange;
+  riskLevel: RiskLevel;
+}
+
+export interface ImportPlan {
+  diffs: ImportDiff[];
+  unchanged: number;
+  // Cells in skipped columns or rows, blank grid cells and cells already awaiting approval
+  skipped: number;
+  invalid: ImportedCell[];
+  newRoles: string[];
+  newActions: ImportedAction[];
+}
+
+// A type rather than an interface so it passes as JSON to the RPC
+export type MatrixImportPayload = {
+  new_roles: { name: string }[];
+  new_actions: { name: string; category: string; risk_level: RiskLevel }[];
+  changes: { role_name: string; action_name: string; operation: 'upsert'; values: PermissionValues }[];
+};
+
+export interface MatrixImportResult extends Pick<BulkApplyResult, 'skipped'> {
+  applied: number;
+  requested: number;
+  roles_created: number;
+  actions_created: number;
+}
+
+// Category of created actions when the file has none
+export const DEFAULT_IMPORT_CATEGORY = 'Imported';
+
+export const CELL_SYNTAX_EXAMPLE = 'conditional (limit 5000): With Manager approval; Up to $10,000';
+
+// Grid cells: status, an optional limit in parentheses, then conditions after a colon
+const CELL_PATTERN = /^(granted|denied|conditional)\s*(?:\(\s*limit\s+([^)]*)\))?\s*(?::\s*([\s\S]*))?$/i;
+
+const statuses: PermissionStatus[] = ['granted', 'denied', 'conditional'];
+
+const DENIED: PermissionValues = {
+  status: 'denied',
+  limit_value: null,
+  conditions: null,
+  condition_spec: null,
+  condition_needs_review: false,
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function buildCellValues(
+  status: string,
+  limit: string,
+  conditions: string
+): Pick<ImportedCell, 'values' | 'error'> {
+  const statusValue = statuses.find(s => sameName(s, status));
+  if (!statusValue) {
+    return { values: null, error: status.trim() ? `Unknown status "${status.trim()}".` : 'The status is missing.' };
+  }
+
+  const limitText = limit.replace(/[\s,$]/g, '');
+  const limitValue = limitText ? Number(limitText) : null;
+  if (limitValue !== null && Number.isNaN(limitValue)) {
+    return { values: null, error: `The limit "${limit.trim()}" is not a number.` };
+  }
+
+  const conditionText = conditions.trim();
+  const parsed = parseConditions(conditionText);
+  const values = normalizePermissionValues({
+    status: statusValue,
+    limit_value: limitValue,
+    conditions: conditionText || null,
+    condition_spec: parsed.conditions.length > 0 ? parsed.conditions : null,
+    // Clauses the parser did not understand are kept as text and flagged, as in the editor
+    condition_needs_review: parsed.unparsed.length > 0,
+  });
+
+  const error = validatePermissionValues(values);
+  return error ? { values: null, error } : { values, error: null };
+}
+
+// Blank cells leave the cell alone and give null
+export function parseCellText(text: string): Pick<ImportedCell, 'values' | 'error'> | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const match = trimmed.match(CELL_PATTERN);
+  if (!match) {
+    return { values: null, error: `Cannot read "${trimmed}", expected e.g. "${CELL_SYNTAX_EXAMPLE}".` };
+  }
+  return buildCellValues(match[1], match[2] ?? '', match[3] ?? '');
+}
+
+const readRiskLevel = (value: string) => riskLevels.find(level => sameName(level, value)) ?? null;
+
+export function readMatrix(rows: string[][]): ImportedMatrix {
+  const [headerRow, ...body] = rows;
+  if (!headerRow || body.length === 0) {
+    throw new Error('The file has no rows below the header.');
+  }
+
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const column = (name: string) => headers.indexOf(name);
+  const cellAt = (cells: string[], index: number) => (index === -1 ? '' : (cells[index] ?? '').trim());
+
+  const matrix: ImportedMatrix = { layout: 'grid', roleNames: [], actions: [], cells: [] };
+  const addRole = (name: string) => {
+    if (!matrix.roleNames.some(existing => sameName(existing, name))) matrix.roleNames.push(name);
+    return matrix.roleNames.find(existing => sameName(existing, name)) ?? name;
+  };
+  const addAction = (name: string, category: string, risk: string) => {
+    const existing = matrix.actions.find(action => sameName(action.name, name));
+    if (existing) return existing.name;
+    matrix.actions.push({ name, category: category || null, riskLevel: readRiskLevel(risk) });
+    return name;
+  };
+
+  const categoryColumn = column('category');
+  const riskColumn = column('risk');
+
+  if (column('role') !== -1 && column('action') !== -1 && column('status') !== -1) {
+    matrix.layout = 'list';
+    body.forEach((cells, index) => {
+      const roleName = cellAt(cells, column('role'));
+      const actionName = cellAt(cells, column('action'));
+      const status = cellAt(cells, column('status'));
+      const limit = cellAt(cells, column('limit'));
+      const conditions = cellAt(cells, column('conditions'));
+      const text = [status, limit && `limit ${limit}`, conditions].filter(Boolean).join(', ');
+
+      if (!roleName || !actionName) {
+        matrix.cells.push({ roleName, actionName, row: index + 2, text, values: null, error: 'The role or action is missing.' });
+        return;
+      }
+
+      matrix.cells.push({
+        roleName: addRole(roleName),
+        actionName: addAction(actionName, cellAt(cells, categoryColumn), cellAt(cells, riskColumn)),
+        row: index + 2,
+        text,
+        ...buildCellValues(status, limit, conditions),
+      });
+    });
+    return matrix;
+  }
+
+  // Grid: the first column names the action, every other column with a header is a role
+  const roleColumns = headerRow
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter(({ name, index }) => index > 0 && name && index !== categoryColumn && index !== riskColumn);
+  if (roleColumns.length === 0) {
+    throw new Error('No role columns found. Use the layout of the CSV export, or a grid with a column per role.');
+  }
+  roleColumns.forEach(({ name }) => addRole(name));
+
+  body.forEach((cells, index) => {
+    const actionName = cellAt(cells, 0);
+    if (!actionName) return;
+    const action = addAction(actionName, cellAt(cells, categoryColumn), cellAt(cells, riskColumn));
+
+    roleColumns.forEach(({ name, index: roleColumn }) => {
+      const text = cellAt(cells, roleColumn);
+      const parsed = parseCellText(text);
+      if (!parsed) return;
+      matrix.cells.push({ roleName: addRole(name), actionName: action, row: index + 2, text, ...parsed });
+    });
+  });
+  return matrix;
+}
+
+// Names are matched without regard to case; anything unknown is created if the user may
+export function getDefaultMapping(
+  matrix: ImportedMatrix,
+  roles: { id: string; name: string }[],
+  actions: { id: string; name: string }[],
+  canCreate: boolean
+): ImportMapping {
+  const fallback = canCreate ? CREATE : SKIP;
+  return {
+    roles: Object.fromEntries(matrix.roleNames.map(name => [
+      name,
+      roles.find(role => sameName(role.name, name))?.id ?? fallback,
+    ])),
+    actions: Object.fromEntries(matrix.actions.map(action => [
+      action.name,
+      actions.find(existing => sameName(existing.name, action.name))?.id ?? fallback,
+    ])),
+  };
+}
+
+export const newRoleId = (name: string) => `new-role/${name}`;
+export const newActionId = (name: string) => `new-action/${name}`;
+
+type CellPermission = RolePermission & { condition_needs_review?: boolean };
+
+// Compares every mapped cell with what the matrix shows now. Cells that would stay as they are,
+// explicit or inherited, are left out, as in a bulk edit.
+export function planImport(
+  matrix: ImportedMatrix,
+  mapping: ImportMapping,
+  data: {
+    roles: (RoleNode & { name: string })[];
+    actions: { id: string; name: string; risk_level: RiskLevel }[];
+    permissions: CellPermission[];
+    changeRequests: PermissionChangeRequest[];
+  }
+): ImportPlan {
+  const plan: ImportPlan = {
+    diffs: [],
+    unchanged: 0,
+    skipped: 0,
+    invalid: [],
+    newRoles: matrix.roleNames.filter(name => mapping.roles[name] === CREATE),
+    newActions: matrix.actions.filter(action => mapping.actions[action.name] === CREATE),
+  };
+  const seen = new Set<string>();
+
+  matrix.cells.forEach(cell => {
+    if (!cell.roleName || !cell.actionName) {
+      plan.invalid.push(cell);
+      return;
+    }
+
+    const roleTarget = mapping.roles[cell.roleName] ?? SKIP;
+    const actionTarget = mapping.actions[cell.actionName] ?? SKIP;
+    const role = data.roles.find(r => r.id === roleTarget);
+    const action = data.actions.find(a => a.id === actionTarget);
+    if ((!role && roleTarget !== CREATE) || (!action && actionTarget !== CREATE)) {
+      plan.skipped += 1;
+      return;
+    }
+
+    if (!cell.values) {
+      plan.invalid.push(cell);
+      return;
+    }
+
+    const roleId = role?.id ?? newRoleId(cell.roleName);
+    const actionId = action?.id ?? newActionId(cell.actionName);
+    const key = cellKey(roleId, actionId);
+    if (seen.has(key)) {
+      plan.invalid.push({ ...cell, error: 'This cell is listed more than once.' });
+      return;
+    }
+    seen.add(key);
+
+    if (role && action && getPendingRequest(data.changeRequests, role.id, action.id)) {
+      plan.skipped += 1;
+      return;
+    }
+
+    const before = role && action ? getShownValues(role.id, action.id, data.permissions, data.roles) : DENIED;
+    // Unchanged condition text keeps its structured form, which may hold more than the text says
+    const values = cell.values.conditions && cell.values.conditions === before.conditions
+      ? { ...cell.values, condition_spec: before.condition_spec, condition_needs_review: before.condition_needs_review }
+      : cell.values;
+    if (sameValues(before, values)) {
+      plan.unchanged += 1;
+      return;
+    }
+
+    const own = data.permissions.find(p => p.role_id === roleId && p.action_id === actionId);
+    // Changing a lapsed row starts a new, open-ended grant
+    const after = own && !isActive(own) ? { ...values, valid_from: null, valid_until: null } : values;
+
+    plan.diffs.push({
+      roleName: role?.name ?? cell.roleName,
+      actionName: action?.name ?? cell.actionName,
+      before,
+      after,
+      change: { role_id: roleId, action_id: actionId, operation: 'upsert', values: after },
+      riskLevel: action?.risk_level
+        ?? matrix.actions.find(a => a.name === cell.actionName)?.riskLevel
+        ?? 'low',
+    });
+  });
+
+  return plan;
+}
+
+export function toImportPayload(plan: ImportPlan): MatrixImportPayload {
+  return {
+    new_roles: plan.newRoles.map(name => ({ name })),
+    new_actions: plan.newActions.map(action => ({
+      name: action.name,
+      category: action.category || DEFAULT_IMPORT_CATEGORY,
+      risk_level: action.riskLevel ?? 'low',
+    })),
+    changes: plan.diffs.map(diff => ({
+      role_name: diff.roleName,
+      action_name: diff.actionName,
+      operation: 'upsert',
+      values: diff.after,
+    })),
+  };
+}
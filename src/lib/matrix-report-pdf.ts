@@ -0,0 +1,215 @@
+// The matrix report as a printable PDF: a cover page, the role summary, the matrix by category and
+// an appendix listing what each role holds with its limits and conditions. jsPDF is loaded on
+// first use, like ExcelJS for the workbook.
+
+import type { jsPDF } from 'jspdf';
+import type { CellHookData } from 'jspdf-autotable';
+import { riskLevelLabels } from './risk';
+import {
+  REPORT_TITLE,
+  formatLimit,
+  statusColors,
+  statusLabels,
+  type MatrixReport,
+  type ReportCell,
+} from './matrix-report';
+
+type Rgb = [number, number, number];
+
+const MARGIN = 40;
+const HEADER_FILL: Rgb = [229, 231, 235];
+const MUTED_TEXT: Rgb = [107, 114, 128];
+
+const rgb = (hex: string): Rgb => [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as Rgb;
+
+// Where the last table ended, to place what follows below it
+const nextY = (doc: jsPDF, gap = 24) =>
+  (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + gap;
+
+function addCoverPage(doc: jsPDF, report: MatrixReport) {
+  const width = doc.internal.pageSize.getWidth();
+  let y = 160;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(REPORT_TITLE, width / 2, y, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  y += 40;
+  doc.text(`Generated ${report.generatedAt.toLocaleString()}`, width / 2, y, { align: 'center' });
+  y += 20;
+  doc.text(`Prepared by ${report.author}`, width / 2, y, { align: 'center' });
+
+  y += 60;
+  doc.setFontSize(11);
+  const totals = [
+    `${report.totals.roles} roles`,
+    `${report.totals.actions} actions in ${report.totals.categories} categories`,
+    `${report.totals.granted} granted, ${report.totals.conditional} conditional and ${report.totals.denied} denied cells`,
+  ];
+  totals.forEach(line => {
+    doc.text(line, width / 2, y, { align: 'center' });
+    y += 16;
+  });
+
+  y += 24;
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_TEXT);
+  doc.text(
+    'Cells show what each role holds at the time of the report. Italic cells are inherited from a parent role.',
+    width / 2,
+    y,
+    { align: 'center' }
+  );
+  doc.setTextColor(0);
+}
+
+const heading = (doc: jsPDF, text: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(text, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+};
+
+const matrixCellText = (cell: ReportCell) => {
+  const lines = [statusLabels[cell.status]];
+  if (cell.limit) lines.push(`limit ${formatLimit(cell.limit)}`);
+  if (cell.conditions) lines.push('see conditions');
+  return lines.join('\n');
+};
+
+export async function buildMatrixPdf(report: MatrixReport): Promise<Blob> {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4', compress: true });
+  doc.setProperties({ title: REPORT_TITLE, author: report.author });
+
+  addCoverPage(doc, report);
+
+  doc.addPage();
+  heading(doc, 'Role Summary', MARGIN + 10);
+  autoTable(doc, {
+    startY: MARGIN + 24,
+    margin: MARGIN,
+    head: [['Role', 'Inherits From', 'Members', 'Granted', 'Conditional', 'Denied', 'Critical Grants']],
+    body: report.roles.map(role => [
+      role.name,
+      role.parent ?? '',
+      role.members,
+      role.counts.granted,
+      role.counts.conditional,
+      role.counts.denied,
+      role.criticalGrants,
+    ]),
+    headStyles: { fillColor: HEADER_FILL, textColor: 0 },
+  });
+
+  // One table per category; wide matrices continue on further pages with the action column repeated
+  doc.addPage();
+  heading(doc, 'Permission Matrix', MARGIN + 10);
+  let y = MARGIN + 30;
+  report.categories.forEach(category => {
+    // Keep a title together with the start of its table
+    if (y > doc.internal.pageSize.getHeight() - 100) {
+      doc.addPage();
+      y = MARGIN + 10;
+    }
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(category.name, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+
+    autoTable(doc, {
+      startY: y + 6,
+      margin: MARGIN,
+      head: [['Action', 'Risk', ...report.roles.map(role => role.name)]],
+      body: category.actions.map(action => [
+        action.name,
+        riskLevelLabels[action.riskLevel],
+        ...action.cells.map(matrixCellText),
+      ]),
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: HEADER_FILL, textColor: 0 },
+      columnStyles: { 0: { cellWidth: 140 } },
+      horizontalPageBreak: true,
+      horizontalPageBreakRepeat: 0,
+      didParseCell: (data: CellHookData) => {
+        if (data.section !== 'body' || data.column.index < 2) return;
+        const cell = category.actions[data.row.index].cells[data.column.index - 2];
+        data.cell.styles.fillColor = rgb(statusColors[cell.status].fill);
+        data.cell.styles.textColor = rgb(statusColors[cell.status].text);
+        data.cell.styles.halign = 'center';
+        if (cell.inheritedFrom) data.cell.styles.fontStyle = 'italic';
+      },
+    });
+    y = nextY(doc);
+  });
+
+  doc.addPage();
+  heading(doc, 'Appendix: Permissions by Role', MARGIN + 10);
+  y = MARGIN + 34;
+  report.roles.forEach(role => {
+    if (y > doc.internal.pageSize.getHeight() - 120) {
+      doc.addPage();
+      y = MARGIN + 10;
+    }
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(role.name, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_TEXT);
+    const about = [
+      role.description,
+      role.parent && `Inherits from ${role.parent}`,
+      `${role.members} member(s)`,
+    ].filter(Boolean).join(' · ');
+    doc.text(about, MARGIN, y + 14);
+    doc.setTextColor(0);
+
+    if (role.grants.length === 0) {
+      doc.text('No granted or conditional actions.', MARGIN, y + 32);
+      y += 56;
+      return;
+    }
+
+    autoTable(doc, {
+      startY: y + 22,
+      margin: MARGIN,
+      head: [['Category', 'Action', 'Risk', 'Status', 'Limit', 'Conditions', 'Source']],
+      body: role.grants.map(grant => [
+        grant.category,
+        grant.action,
+        riskLevelLabels[grant.riskLevel],
+        statusLabels[grant.cell.status],
+        grant.cell.limit ? formatLimit(grant.cell.limit) : '',
+        grant.cell.conditions ?? '',
+        grant.cell.inheritedFrom ? `Inherited from ${grant.cell.inheritedFrom}` : 'Own',
+      ]),
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: HEADER_FILL, textColor: 0 },
+      columnStyles: { 5: { cellWidth: 200 } },
+      didParseCell: (data: CellHookData) => {
+        if (data.section !== 'body' || data.column.index !== 3) return;
+        data.cell.styles.textColor = rgb(statusColors[role.grants[data.row.index].cell.status].text);
+      },
+    });
+    y = nextY(doc, 32);
+  });
+
+  // Page numbers once the page count is known; the cover page has none
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_TEXT);
+    doc.text(
+      `${REPORT_TITLE} · ${report.generatedAt.toLocaleDateString()} · Page ${page} of ${pageCount}`,
+      doc.internal.pageSize.getWidth() / 2,
+      doc.internal.pageSize.getHeight() - 20,
+      { align: 'center' }
+    );
+  }
+
+  return doc.output('blob');
+}
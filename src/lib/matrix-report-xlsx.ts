@@ -0,0 +1,121 @@
+// The matrix report as an XLSX workbook: a summary sheet and the matrix itself, grouped by
+// category with colored status cells. Limits and conditions travel as cell notes so the grid stays
+// readable. ExcelJS is loaded on first use, as in spreadsheet.ts.
+
+import type { Cell, Worksheet } from 'exceljs';
+import { riskLevelLabels } from './risk';
+import {
+  REPORT_TITLE,
+  describeCellDetails,
+  statusColors,
+  statusLabels,
+  type MatrixReport,
+} from './matrix-report';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const HEADER_FILL = 'E5E7EB';
+const CATEGORY_FILL = 'F3F4F6';
+
+const fill = (cell: Cell, color: string) => {
+  cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${color}` } };
+};
+
+const styleHeader = (sheet: Worksheet, rowNumber: number) => {
+  const row = sheet.getRow(rowNumber);
+  row.font = { bold: true };
+  row.eachCell(cell => fill(cell, HEADER_FILL));
+};
+
+function addSummarySheet(sheet: Worksheet, report: MatrixReport) {
+  sheet.columns = [
+    { width: 28 },
+    { width: 22 },
+    { width: 10 },
+    { width: 10 },
+    { width: 12 },
+    { width: 10 },
+    { width: 14 },
+  ];
+
+  sheet.addRow([REPORT_TITLE]).font = { bold: true, size: 16 };
+  sheet.addRow(['Generated', report.generatedAt.toLocaleString()]);
+  sheet.addRow(['Author', report.author]);
+  sheet.addRow([]);
+  sheet.addRow(['Roles', report.totals.roles]);
+  sheet.addRow(['Actions', report.totals.actions]);
+  sheet.addRow(['Categories', report.totals.categories]);
+  (['granted', 'conditional', 'denied'] as const).forEach(status => {
+    const row = sheet.addRow([`${statusLabels[status]} cells`, report.totals[status]]);
+    row.getCell(1).font = { color: { argb: `FF${statusColors[status].text}` } };
+  });
+  sheet.addRow([]);
+
+  const header = sheet.addRow(['Role', 'Inherits From', 'Members', 'Granted', 'Conditional', 'Denied', 'Critical Grants']);
+  styleHeader(sheet, header.number);
+  report.roles.forEach(role => {
+    const row = sheet.addRow([
+      role.name,
+      role.parent ?? '',
+      role.members,
+      role.counts.granted,
+      role.counts.conditional,
+      role.counts.denied,
+      role.criticalGrants,
+    ]);
+    if (role.description) row.getCell(1).note = role.description;
+  });
+}
+
+function addMatrixSheet(sheet: Worksheet, report: MatrixReport) {
+  sheet.columns = [
+    { width: 32 },
+    { width: 10 },
+    ...report.roles.map(role => ({ width: Math.max(12, role.name.length + 2) })),
+  ];
+  // Action and risk columns and the role header stay in view while scrolling
+  sheet.views = [{ state: 'frozen', xSplit: 2, ySplit: 1 }];
+
+  sheet.addRow(['Action', 'Risk', ...report.roles.map(role => role.name)]);
+  styleHeader(sheet, 1);
+
+  report.categories.forEach(category => {
+    const header = sheet.addRow([category.name]);
+    header.font = { bold: true };
+    sheet.mergeCells(header.number, 1, header.number, report.roles.length + 2);
+    fill(header.getCell(1), CATEGORY_FILL);
+
+    // Action rows are grouped under their category and can be collapsed in Excel
+    category.actions.forEach(action => {
+      const row = sheet.addRow([
+        action.name,
+        riskLevelLabels[action.riskLevel],
+        ...action.cells.map(cell => statusLabels[cell.status]),
+      ]);
+      row.outlineLevel = 1;
+      if (action.description) row.getCell(1).note = action.description;
+      if (action.riskLevel === 'critical') row.getCell(2).font = { bold: true, color: { argb: 'FFB91C1C' } };
+
+      action.cells.forEach((reportCell, index) => {
+        const cell = row.getCell(index + 3);
+        fill(cell, statusColors[reportCell.status].fill);
+        cell.font = { color: { argb: `FF${statusColors[reportCell.status].text}` }, italic: !!reportCell.inheritedFrom };
+        cell.alignment = { horizontal: 'center' };
+        const details = describeCellDetails(reportCell);
+        if (details.length > 0) cell.note = details.join('\n');
+      });
+    });
+  });
+}
+
+export async function buildMatrixWorkbook(report: MatrixReport): Promise<Blob> {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  workbook.creator = report.author;
+  workbook.created = report.generatedAt;
+
+  addSummarySheet(workbook.addWorksheet('Summary'), report);
+  addMatrixSheet(workbook.addWorksheet('Matrix'), report);
+
+  return new Blob([await workbook.xlsx.writeBuffer()], { type: XLSX_TYPE });
+}
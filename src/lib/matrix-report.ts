@@ -0,0 +1,173 @@
+// The matrix as a formatted report for auditors. The model is built once and then written as an
+// XLSX workbook (matrix-report-xlsx.ts) or a printable PDF (matrix-report-pdf.ts), both in the
+// browser. Cells show what each role effectively holds today, inherited grants included.
+
+import { resolveRolePermission, type PermissionStatus, type RoleNode } from './permission-resolver';
+import { isActive, type ValidityWindow } from './validity';
+import { riskRank, type RiskLevel } from './risk';
+
+export const REPORT_TITLE = 'Authorization Matrix Report';
+
+export const statusLabels: Record<PermissionStatus, string> = {
+  granted: 'Granted',
+  conditional: 'Conditional',
+  denied: 'Denied',
+};
+
+// RGB hex without '#', as both writers take it. Full colors for text and headers, tints for fills.
+export const statusColors: Record<PermissionStatus, { text: string; fill: string }> = {
+  granted: { text: '15803D', fill: 'DCFCE7' },
+  conditional: { text: 'A16207', fill: 'FEF9C3' },
+  denied: { text: 'B91C1C', fill: 'FEE2E2' },
+};
+
+export interface ReportCell {
+  status: PermissionStatus;
+  limit: number | null;
+  conditions: string | null;
+  // Name of the ancestor role the grant comes from, null for the role's own row
+  inheritedFrom: string | null;
+  validUntil: string | null;
+}
+
+export interface ReportAction {
+  name: string;
+  description: string | null;
+  riskLevel: RiskLevel;
+  // One per report role, in the same order
+  cells: ReportCell[];
+}
+
+export interface ReportCategory {
+  name: string;
+  actions: ReportAction[];
+}
+
+export interface ReportGrant {
+  category: string;
+  action: string;
+  riskLevel: RiskLevel;
+  cell: ReportCell;
+}
+
+export interface ReportRole {
+  name: string;
+  description: string | null;
+  parent: string | null;
+  members: number;
+  counts: Record<PermissionStatus, number>;
+  criticalGrants: number;
+  // Granted and conditional cells, for the per-role appendix
+  grants: ReportGrant[];
+}
+
+export interface MatrixReport {
+  generatedAt: Date;
+  author: string;
+  roles: ReportRole[];
+  categories: ReportCategory[];
+  totals: Record<PermissionStatus, number> & { roles: number; actions: number; categories: number };
+}
+
+export interface MatrixReportData {
+  roles: (RoleNode & { name: string; description?: string | null })[];
+  actions: { id: string; name: string; description?: string | null; category: string; risk_level: RiskLevel }[];
+  permissions: {
+    role_id: string;
+    action_id: string;
+    status: PermissionStatus;
+    limit_value?: number | null;
+    conditions?: string | null;
+    valid_from?: string | null;
+    valid_until?: string | null;
+  }[];
+  assignments: (ValidityWindow & { role_id: string })[];
+}
+
+export function formatLimit(limit: number): string {
+  return limit.toLocaleString('en-US');
+}
+
+// Limit, conditions and where the grant comes from, one per line
+export function describeCellDetails(cell: ReportCell): string[] {
+  const details: string[] = [];
+  if (cell.limit) details.push(`Limit: ${formatLimit(cell.limit)}`);
+  if (cell.conditions) details.push(`Conditions: ${cell.conditions}`);
+  if (cell.inheritedFrom) details.push(`Inherited from ${cell.inheritedFrom}`);
+  if (cell.validUntil) details.push(`Until ${new Date(cell.validUntil).toLocaleDateString()}`);
+  return details;
+}
+
+export function buildMatrixReport(data: MatrixReportData, author: string, at: Date = new Date()): MatrixReport {
+  const roleName = (roleId: string | null | undefined) => data.roles.find(role => role.id === roleId)?.name ?? null;
+  const roles = [...data.roles].sort((a, b) => a.name.localeCompare(b.name));
+  const actions = [...data.actions].sort((a, b) =>
+    a.category.localeCompare(b.category) || riskRank[b.risk_level] - riskRank[a.risk_level] || a.name.localeCompare(b.name)
+  );
+
+  const getCell = (roleId: string, actionId: string): ReportCell => {
+    const grant = resolveRolePermission(roleId, actionId, data.permissions, data.roles, at);
+    const permission = grant?.permission;
+    return {
+      status: permission?.status ?? 'denied',
+      limit: permission?.status === 'denied' ? null : permission?.limit_value ?? null,
+      conditions: permission?.status === 'denied' ? null : permission?.conditions || null,
+      inheritedFrom: grant?.inherited ? roleName(grant.sourceRoleId) : null,
+      validUntil: permission?.valid_until ?? null,
+    };
+  };
+
+  const categories: ReportCategory[] = [];
+  actions.forEach(action => {
+    let category = categories.find(c => c.name === action.category);
+    if (!category) {
+      category = { name: action.category, actions: [] };
+      categories.push(category);
+    }
+    category.actions.push({
+      name: action.name,
+      description: action.description || null,
+      riskLevel: action.risk_level,
+      cells: roles.map(role => getCell(role.id, action.id)),
+    });
+  });
+
+  const reportRoles: ReportRole[] = roles.map((role, index) => {
+    const counts: Record<PermissionStatus, number> = { granted: 0, conditional: 0, denied: 0 };
+    const grants: ReportGrant[] = [];
+    categories.forEach(category => category.actions.forEach(action => {
+      const cell = action.cells[index];
+      counts[cell.status] += 1;
+      if (cell.status !== 'denied') {
+        grants.push({ category: category.name, action: action.name, riskLevel: action.riskLevel, cell });
+      }
+    }));
+
+    return {
+      name: role.name,
+      description: role.description || null,
+      parent: roleName(role.parent_role_id),
+      members: data.assignments.filter(assignment => assignment.role_id === role.id && isActive(assignment, at)).length,
+      counts,
+      criticalGrants: grants.filter(grant => grant.riskLevel === 'critical').length,
+      grants,
+    };
+  });
+
+  const sum = (status: PermissionStatus) => reportRoles.reduce((total, role) => total + role.counts[status], 0);
+
+  return {
+    generatedAt: at,
+    author,
+    roles: reportRoles,
+    categories,
+    totals: {
+      roles: roles.length,
+      actions: actions.length,
+      categories: categories.length,
+      granted: sum('granted'),
+      conditional: sum('conditional'),
+      denied: sum('denied'),
+    },
+  };
+}
@@ -0,0 +1,107 @@
+// Departments and teams as a tree. Mirrors public.enclosing_org_unit so the UI and
+// the database agree on what "own department" means.
+
+import type { ConditionContext, UnitRef } from './conditions';
+
+export type OrgUnitKind = 'department' | 'team';
+
+export const orgUnitKindLabels: Record<OrgUnitKind, string> = {
+  department: 'Department',
+  team: 'Team',
+};
+
+export interface OrgUnit {
+  id: string;
+  name: string;
+  kind: OrgUnitKind;
+  parent_id?: string | null;
+}
+
+// Ancestors from the direct parent upwards, stopping at a repeated unit
+export function getUnitAncestors(unitId: string, units: OrgUnit[]): string[] {
+  const ancestors: string[] = [];
+  const visited = new Set<string>([unitId]);
+  let current = units.find(u => u.id === unitId)?.parent_id;
+
+  while (current && !visited.has(current)) {
+    ancestors.push(current);
+    visited.add(current);
+    current = units.find(u => u.id === current)?.parent_id;
+  }
+
+  return ancestors;
+}
+
+export function getUnitDescendants(unitId: string, units: OrgUnit[]): string[] {
+  const descendants: string[] = [];
+  const queue = [unitId];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const child of units.filter(u => u.parent_id === current)) {
+      if (child.id === unitId || descendants.includes(child.id)) continue;
+      descendants.push(child.id);
+      queue.push(child.id);
+    }
+  }
+
+  return descendants;
+}
+
+export function wouldCreateUnitCycle(unitId: string, parentId: string | null, units: OrgUnit[]): boolean {
+  if (!parentId) return false;
+  if (parentId === unitId) return true;
+  return getUnitAncestors(parentId, units).includes(unitId);
+}
+
+// The unit itself followed by its ancestors
+export function getUnitPath(unitId: string | null | undefined, units: OrgUnit[]): UnitRef[] {
+  if (!unitId) return [];
+  return [unitId, ...getUnitAncestors(unitId, units)]
+    .map(id => units.find(u => u.id === id))
+    .filter((unit): unit is OrgUnit => !!unit)
+    .map(unit => ({ id: unit.id, name: unit.name, kind: unit.kind }));
+}
+
+// Nearest unit of the kind at or above the unit, e.g. the department a team belongs to
+export function getEnclosingUnit(
+  unitId: string | null | undefined,
+  kind: OrgUnitKind,
+  units: OrgUnit[]
+): UnitRef | undefined {
+  return getUnitPath(unitId, units).find(unit => unit.kind === kind);
+}
+
+// Units in depth-first order with their depth, for indented lists
+export function flattenUnitTree(units: OrgUnit[]): { unit: OrgUnit; depth: number }[] {
+  const result: { unit: OrgUnit; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    units
+      .filter(unit => (unit.parent_id ?? null) === parentId && !result.some(r => r.unit.id === unit.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(unit => {
+        result.push({ unit, depth });
+        visit(unit.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  // Units whose parent no longer exists still need a place
+  units.filter(unit => !result.some(r => r.unit.id === unit.id)).forEach(unit => result.push({ unit, depth: 0 }));
+  return result;
+}
+
+// Condition context for a request by a user in one unit that concerns another unit
+export function buildUnitContext(
+  requesterUnitId: string | null | undefined,
+  targetUnitId: string | null | undefined,
+  units: OrgUnit[]
+): Pick<ConditionContext, 'requesterUnitPath' | 'targetUnitPath' | 'requesterUnits' | 'targetUnit'> {
+  const requesterUnitPath = getUnitPath(requesterUnitId, units);
+  const targetUnitPath = getUnitPath(targetUnitId, units);
+  return {
+    requesterUnitPath,
+    targetUnitPath,
+    requesterUnits: requesterUnitPath.map(unit => unit.name),
+    targetUnit: targetUnitPath[0]?.name,
+  };
+}
@@ -0,0 +1,30 @@
+// Rules for what a single matrix cell may hold, shared by every path that writes one.
+
+import { validateCondition } from './conditions';
+import type { PermissionValues } from './change-requests';
+
+// A denied cell carries no limit or conditions, so stale ones cannot resurface on a later grant
+export function normalizePermissionValues(values: PermissionValues): PermissionValues {
+  if (values.status !== 'denied') return values;
+  return {
+    ...values,
+    limit_value: null,
+    conditions: null,
+    condition_spec: null,
+    condition_needs_review: false,
+  };
+}
+
+export function validatePermissionValues(values: PermissionValues): string | null {
+  if (values.limit_value !== null && values.limit_value !== undefined) {
+    if (!Number.isInteger(values.limit_value) || values.limit_value <= 0) {
+      return 'The limit must be a positive whole number.';
+    }
+  }
+
+  if (values.status === 'conditional' && !values.conditions?.trim() && !values.condition_spec?.length) {
+    return 'A conditional permission needs at least one condition.';
+  }
+
+  return values.condition_spec?.map(validateCondition).find(Boolean) ?? null;
+}
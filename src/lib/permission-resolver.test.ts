@@ -0,0 +1,407 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findUsersGainingAccess,
+  resolveEffectivePermission,
+  type Delegation,
+  type ResolverInput,
+  type RoleAssignment,
+  type RoleNode,
+  type RolePermission,
+  type UserExclusion,
+} from './permission-resolver';
+
+// The roles, actions and cells seeded by 20250801080933_*.sql, plus the Emergency Access role of
+// 20250818092214_*.sql. Ids are the names, so expectations read like the migrations.
+const seedRoles: RoleNode[] = [
+  { id: 'Administrator' },
+  { id: 'Manager' },
+  { id: 'Employee' },
+  { id: 'Contractor' },
+  { id: 'Emergency Access' },
+];
+
+const seedActions = [
+  'Create User Account',
+  'Delete User Account',
+  'View User Profiles',
+  'Approve Expense Reports',
+  'Process Payroll',
+  'Access Financial Reports',
+  'Manage Projects',
+  'Assign Tasks',
+  'View Project Reports',
+  'Access HR Records',
+  'Conduct Performance Reviews',
+  'Manage Benefits',
+  'System Administration',
+  'Database Access',
+  'Security Configuration',
+];
+
+const cell = (
+  role: string,
+  action: string,
+  status: RolePermission['status'],
+  extra: Partial<RolePermission> = {}
+): RolePermission => ({ id: `${role}/${action}`, role_id: role, action_id: action, status, ...extra });
+
+const seedPermissions: RolePermission[] = [
+  ...seedActions.map(action => cell('Administrator', action, 'granted')),
+  ...seedActions.map(action => {
+    if (action === 'Approve Expense Reports') return cell('Manager', action, 'granted', { limit_value: 10000 });
+    if (action === 'Access Financial Reports') {
+      return cell('Manager', action, 'conditional', { conditions: 'Department level only' });
+    }
+    const granted = ['Create User Account', 'View User Profiles', 'Manage Projects', 'Assign Tasks', 'View Project Reports', 'Conduct Performance Reviews'];
+    return cell('Manager', action, granted.includes(action) ? 'granted' : 'denied');
+  }),
+  ...seedActions.map(action => {
+    if (action === 'Assign Tasks') return cell('Employee', action, 'conditional', { conditions: 'Within assigned projects only' });
+    return cell('Employee', action, ['View User Profiles', 'View Project Reports'].includes(action) ? 'granted' : 'denied');
+  }),
+  ...seedActions.map(action => action === 'View Project Reports'
+    ? cell('Contractor', action, 'conditional', { conditions: 'Assigned projects only' })
+    : cell('Contractor', action, 'denied')),
+  cell('Emergency Access', 'Emergency System Access', 'granted'),
+];
+
+const AT = new Date('2025-09-01T12:00:00Z');
+const PAST = '2025-08-01T00:00:00Z';
+const FUTURE = '2025-10-01T00:00:00Z';
+
+const assign = (userId: string, ...roleIds: string[]): RoleAssignment[] =>
+  roleIds.map(roleId => ({ user_id: userId, role_id: roleId }));
+
+const input = (userId: string, overrides: Partial<ResolverInput> = {}): ResolverInput => ({
+  profile: { id: userId },
+  assignments: [],
+  roles: seedRoles,
+  permissions: seedPermissions,
+  exclusions: [],
+  delegations: [],
+  at: AT,
+  ...overrides,
+});
+
+const exclusion = (userId: string, action: string, status: UserExclusion['status'], extra: Partial<UserExclusion> = {}): UserExclusion => ({
+  id: `${userId}/${action}`,
+  user_id: userId,
+  action_id: action,
+  status,
+  reason: 'Test override',
+  ...extra,
+});
+
+const delegation = (delegator: string, delegate: string, actionIds: string[], extra: Partial<Delegation> = {}): Delegation => ({
+  id: `${delegator}->${delegate}`,
+  delegator_id: delegator,
+  delegate_id: delegate,
+  action_ids: actionIds,
+  ...extra,
+});
+
+describe('resolveEffectivePermission', () => {
+  describe('role-grant', () => {
+    it('grants every seeded action to an Administrator', () => {
+      const result = resolveEffectivePermission(input('ada', { assignments: assign('ada', 'Administrator') }), 'Security Configuration');
+      expect(result.status).toBe('granted');
+      expect(result.rule).toBe('role-grant');
+      expect(result.limitValue).toBeNull();
+    });
+
+    it('carries the Manager limit on expense approval', () => {
+      const result = resolveEffectivePermission(input('mia', { assignments: assign('mia', 'Manager') }), 'Approve Expense Reports');
+      expect(result).toMatchObject({ status: 'granted', limitValue: 10000, rule: 'role-grant' });
+      expect(result.decidedBy).toMatchObject({ source: 'role', roleId: 'Manager', inheritedFromRoleId: null });
+    });
+
+    it('returns the seeded conditions of conditional cells', () => {
+      const manager = resolveEffectivePermission(input('mia', { assignments: assign('mia', 'Manager') }), 'Access Financial Reports');
+      expect(manager).toMatchObject({ status: 'conditional', conditions: 'Department level only' });
+
+      const employee = resolveEffectivePermission(input('eve', { assignments: assign('eve', 'Employee') }), 'Assign Tasks');
+      expect(employee).toMatchObject({ status: 'conditional', conditions: 'Within assigned projects only' });
+    });
+
+    it('applies a denied seed row as recorded', () => {
+      const result = resolveEffectivePermission(input('carl', { assignments: assign('carl', 'Contractor') }), 'Process Payroll');
+      expect(result).toMatchObject({ status: 'denied', rule: 'role-grant' });
+    });
+  });
+
+  describe('role-inheritance', () => {
+    // A role without rows of its own below Manager
+    const roles = [...seedRoles, { id: 'Team Lead', parent_role_id: 'Manager' }];
+
+    it("inherits the parent's row, limit included", () => {
+      const result = resolveEffectivePermission(
+        input('tom', { roles, assignments: assign('tom', 'Team Lead') }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ status: 'granted', limitValue: 10000, rule: 'role-inheritance' });
+      expect(result.decidedBy).toMatchObject({ roleId: 'Team Lead', inheritedFromRoleId: 'Manager' });
+    });
+
+    it('follows the hierarchy past a parent without a row', () => {
+      const deeper = [...roles, { id: 'Deputy', parent_role_id: 'Team Lead' }];
+      const result = resolveEffectivePermission(
+        input('dan', { roles: deeper, assignments: assign('dan', 'Deputy') }),
+        'Access Financial Reports'
+      );
+      expect(result).toMatchObject({ status: 'conditional', conditions: 'Department level only', rule: 'role-inheritance' });
+      expect(result.decidedBy).toMatchObject({ inheritedFromRoleId: 'Manager' });
+    });
+
+    it("prefers the role's own row over the parent's", () => {
+      const permissions = [...seedPermissions, cell('Team Lead', 'Approve Expense Reports', 'granted', { limit_value: 2000 })];
+      const result = resolveEffectivePermission(
+        input('tom', { roles, permissions, assignments: assign('tom', 'Team Lead') }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ limitValue: 2000, rule: 'role-grant' });
+    });
+
+    it('ignores inheritance when roles are not passed', () => {
+      const result = resolveEffectivePermission(
+        input('tom', { roles: undefined, assignments: assign('tom', 'Team Lead') }),
+        'Approve Expense Reports'
+      );
+      expect(result.rule).toBe('default-deny');
+    });
+  });
+
+  describe('role-union', () => {
+    it('prefers granted over conditional', () => {
+      const result = resolveEffectivePermission(
+        input('sam', { assignments: assign('sam', 'Contractor', 'Employee') }),
+        'View Project Reports'
+      );
+      expect(result).toMatchObject({ status: 'granted', rule: 'role-union' });
+      expect(result.decidedBy).toMatchObject({ roleId: 'Employee' });
+      expect(result.trail).toHaveLength(2);
+    });
+
+    it('prefers conditional over denied, so a denial on one role takes nothing away', () => {
+      const result = resolveEffectivePermission(
+        input('sam', { assignments: assign('sam', 'Contractor', 'Employee') }),
+        'Assign Tasks'
+      );
+      expect(result).toMatchObject({ status: 'conditional', conditions: 'Within assigned projects only', rule: 'role-union' });
+    });
+
+    it('takes the higher limit between equal statuses', () => {
+      const permissions = [
+        ...seedPermissions.filter(p => !(p.role_id === 'Employee' && p.action_id === 'Approve Expense Reports')),
+        cell('Employee', 'Approve Expense Reports', 'granted', { limit_value: 500 }),
+      ];
+      const result = resolveEffectivePermission(
+        input('sam', { permissions, assignments: assign('sam', 'Employee', 'Manager') }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ limitValue: 10000, rule: 'role-union' });
+    });
+
+    it('treats no limit as higher than any limit', () => {
+      const result = resolveEffectivePermission(
+        input('sam', { assignments: assign('sam', 'Manager', 'Administrator') }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ status: 'granted', limitValue: null, rule: 'role-union' });
+      expect(result.decidedBy).toMatchObject({ roleId: 'Administrator' });
+    });
+  });
+
+  describe('user-exclusion', () => {
+    it('overrides every role grant', () => {
+      const result = resolveEffectivePermission(
+        input('ada', {
+          assignments: assign('ada', 'Administrator', 'Manager'),
+          exclusions: [exclusion('ada', 'Process Payroll', 'denied')],
+        }),
+        'Process Payroll'
+      );
+      expect(result).toMatchObject({ status: 'denied', rule: 'user-exclusion' });
+      expect(result.trail.map(entry => entry.source)).toEqual(['exclusion', 'role', 'role']);
+    });
+
+    it('can grant what the roles deny, without a limit', () => {
+      const result = resolveEffectivePermission(
+        input('carl', {
+          assignments: assign('carl', 'Contractor'),
+          exclusions: [exclusion('carl', 'Database Access', 'conditional', { conditions: 'Read replica only' })],
+        }),
+        'Database Access'
+      );
+      expect(result).toMatchObject({ status: 'conditional', conditions: 'Read replica only', limitValue: null, rule: 'user-exclusion' });
+    });
+
+    it("only applies to the user it names", () => {
+      const result = resolveEffectivePermission(
+        input('mia', {
+          assignments: assign('mia', 'Manager'),
+          exclusions: [exclusion('someone-else', 'Manage Projects', 'denied')],
+        }),
+        'Manage Projects'
+      );
+      expect(result).toMatchObject({ status: 'granted', rule: 'role-grant' });
+    });
+  });
+
+  describe('delegation', () => {
+    const assignments = [...assign('mia', 'Manager'), ...assign('eve', 'Employee')];
+
+    it("lends the delegator's grant, capped by the delegation limit", () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments, delegations: [delegation('mia', 'eve', ['Approve Expense Reports'], { limit_value: 2500 })] }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ status: 'granted', limitValue: 2500, rule: 'delegation' });
+      expect(result.decidedBy).toMatchObject({ source: 'delegation', delegatorId: 'mia' });
+    });
+
+    it("keeps the delegator's lower limit when the cap is higher", () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments, delegations: [delegation('mia', 'eve', ['Approve Expense Reports'], { limit_value: 50000 })] }),
+        'Approve Expense Reports'
+      );
+      expect(result.limitValue).toBe(10000);
+    });
+
+    it('covers every action when no actions are listed', () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments, delegations: [delegation('mia', 'eve', [])] }),
+        'Conduct Performance Reviews'
+      );
+      expect(result).toMatchObject({ status: 'granted', rule: 'delegation' });
+    });
+
+    it('lends nothing the delegator does not hold', () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments, delegations: [delegation('mia', 'eve', ['Process Payroll'])] }),
+        'Process Payroll'
+      );
+      expect(result).toMatchObject({ status: 'denied', rule: 'role-grant' });
+    });
+
+    it('is not passed on again', () => {
+      const result = resolveEffectivePermission(
+        input('carl', {
+          assignments: [...assignments, ...assign('carl', 'Contractor')],
+          delegations: [delegation('mia', 'eve', []), delegation('eve', 'carl', [])],
+        }),
+        'Approve Expense Reports'
+      );
+      expect(result.status).toBe('denied');
+    });
+
+    it('does not outrank a wider role grant', () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments, delegations: [delegation('mia', 'eve', ['View Project Reports'])] }),
+        'View Project Reports'
+      );
+      expect(result).toMatchObject({ status: 'granted', rule: 'role-grant' });
+    });
+  });
+
+  describe('default-deny', () => {
+    it('denies a user without roles', () => {
+      const result = resolveEffectivePermission(input('nobody'), 'View User Profiles');
+      expect(result).toMatchObject({ status: 'denied', rule: 'default-deny', decidedBy: null, trail: [] });
+    });
+
+    it('denies an action no held role has a row for', () => {
+      const result = resolveEffectivePermission(input('eve', { assignments: assign('eve', 'Employee') }), 'Emergency System Access');
+      expect(result.rule).toBe('default-deny');
+    });
+  });
+
+  describe('validity windows', () => {
+    it('ignores an expired override', () => {
+      const result = resolveEffectivePermission(
+        input('ada', {
+          assignments: assign('ada', 'Administrator'),
+          exclusions: [exclusion('ada', 'Process Payroll', 'denied', { valid_until: PAST })],
+        }),
+        'Process Payroll'
+      );
+      expect(result).toMatchObject({ status: 'granted', rule: 'role-grant' });
+    });
+
+    it('ignores a role assignment that has not started', () => {
+      const result = resolveEffectivePermission(
+        input('eve', { assignments: [{ user_id: 'eve', role_id: 'Administrator', valid_from: FUTURE }] }),
+        'Process Payroll'
+      );
+      expect(result.rule).toBe('default-deny');
+    });
+
+    it('falls back to the parent when the own row has expired', () => {
+      const roles = [...seedRoles, { id: 'Team Lead', parent_role_id: 'Manager' }];
+      const permissions = [
+        ...seedPermissions,
+        cell('Team Lead', 'Approve Expense Reports', 'granted', { limit_value: 50000, valid_until: PAST }),
+      ];
+      const result = resolveEffectivePermission(
+        input('tom', { roles, permissions, assignments: assign('tom', 'Team Lead') }),
+        'Approve Expense Reports'
+      );
+      expect(result).toMatchObject({ limitValue: 10000, rule: 'role-inheritance' });
+    });
+
+    it('ignores an expired delegation', () => {
+      const result = resolveEffectivePermission(
+        input('eve', {
+          assignments: [...assign('mia', 'Manager'), ...assign('eve', 'Employee')],
+          delegations: [delegation('mia', 'eve', ['Approve Expense Reports'], { valid_from: PAST, valid_until: AT.toISOString() })],
+        }),
+        'Approve Expense Reports'
+      );
+      expect(result.status).toBe('denied');
+    });
+
+    it('ends a delegated grant with whichever window closes first', () => {
+      const permissions = seedPermissions.map(p =>
+        p.role_id === 'Manager' && p.action_id === 'Approve Expense Reports' ? { ...p, valid_until: '2025-09-15T00:00:00Z' } : p
+      );
+      const result = resolveEffectivePermission(
+        input('eve', {
+          permissions,
+          assignments: [...assign('mia', 'Manager'), ...assign('eve', 'Employee')],
+          delegations: [delegation('mia', 'eve', ['Approve Expense Reports'], { valid_until: FUTURE })],
+        }),
+        'Approve Expense Reports'
+      );
+      expect(result.decidedBy?.validUntil).toBe('2025-09-15T00:00:00Z');
+    });
+  });
+});
+
+describe('findUsersGainingAccess', () => {
+  const profiles = [{ id: 'mia' }, { id: 'eve' }, { id: 'carl' }];
+  const assignments = [...assign('mia', 'Manager'), ...assign('eve', 'Employee'), ...assign('carl', 'Contractor')];
+
+  it('lists members whose status would rise', () => {
+    const gaining = findUsersGainingAccess(
+      profiles,
+      { assignments, roles: seedRoles, permissions: seedPermissions, exclusions: [], at: AT },
+      cell('Employee', 'Process Payroll', 'granted')
+    );
+    expect(gaining.map(profile => profile.id)).toEqual(['eve']);
+  });
+
+  it('includes delegates of the changed role', () => {
+    const gaining = findUsersGainingAccess(
+      profiles,
+      {
+        assignments,
+        roles: seedRoles,
+        permissions: seedPermissions,
+        exclusions: [],
+        delegations: [delegation('mia', 'carl', ['Process Payroll'])],
+        at: AT,
+      },
+      cell('Manager', 'Process Payroll', 'granted')
+    );
+    expect(gaining.map(profile => profile.id)).toEqual(['mia', 'carl']);
+  });
+});
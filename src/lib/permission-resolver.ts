@@ -0,0 +1,376 @@
+// Single source of truth for "can this user do X".
+// Pure functions only: callers pass in the rows they already loaded from Supabase.
+
+import { evaluateConditions, type Condition, type ConditionContext, type ConditionEvaluation } from './conditions';
+import { isActive, type ValidityWindow } from './validity';
+
+export type PermissionStatus = 'granted' | 'denied' | 'conditional';
+
+export type PrecedenceRule = 'user-exclusion' | 'role-grant' | 'role-inheritance' | 'role-union' | 'delegation' | 'default-deny';
+
+export const precedenceRuleDescriptions: Record<PrecedenceRule, string> = {
+  'user-exclusion': 'A user-specific override takes precedence over every role grant',
+  'role-grant': "The permission recorded for the user's role applies",
+  'role-inheritance': "The role has no permission of its own, so it inherits the nearest ancestor's",
+  'role-union': 'The user holds several roles and the most permissive one wins: granted over conditional over denied, then the higher limit',
+  'delegation': "Another user's authority, delegated to this user, is the most permissive grant they hold; its limit is capped by the delegation",
+  'default-deny': 'No role or override covers this action, so it is denied',
+};
+
+export interface RoleNode {
+  id: string;
+  parent_role_id?: string | null;
+}
+
+export interface RolePermission extends ValidityWindow {
+  id?: string;
+  role_id: string;
+  action_id: string;
+  status: PermissionStatus;
+  limit_value?: number | null;
+  conditions?: string | null;
+  condition_spec?: Condition[] | null;
+}
+
+export interface UserExclusion extends ValidityWindow {
+  id: string;
+  user_id: string;
+  action_id: string;
+  status: PermissionStatus;
+  conditions?: string | null;
+  condition_spec?: Condition[] | null;
+  reason: string;
+}
+
+export interface UserProfile {
+  id: string;
+}
+
+export interface RoleAssignment extends ValidityWindow {
+  user_id: string;
+  role_id: string;
+}
+
+export interface Delegation extends ValidityWindow {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  // Empty delegates every action the delegator holds
+  action_ids: string[];
+  limit_value?: number | null;
+  reason?: string | null;
+}
+
+export interface RoleProvenanceEntry {
+  source: 'role';
+  roleId: string;
+  // Ancestor whose row was used, null for an explicit permission on the role itself
+  inheritedFromRoleId: string | null;
+  permissionId?: string;
+  status: PermissionStatus;
+  limitValue: number | null;
+  conditions: string | null;
+  conditionSpec: Condition[] | null;
+  validUntil: string | null;
+}
+
+export interface ExclusionProvenanceEntry {
+  source: 'exclusion';
+  exclusionId: string;
+  status: PermissionStatus;
+  conditions: string | null;
+  conditionSpec: Condition[] | null;
+  validUntil: string | null;
+  reason: string;
+}
+
+export interface DelegationProvenanceEntry {
+  source: 'delegation';
+  delegationId: string;
+  delegatorId: string;
+  status: PermissionStatus;
+  limitValue: number | null;
+  conditions: string | null;
+  conditionSpec: Condition[] | null;
+  // Whichever ends first, the delegation or the delegator's own grant
+  validUntil: string | null;
+}
+
+export type ProvenanceEntry = RoleProvenanceEntry | ExclusionProvenanceEntry | DelegationProvenanceEntry;
+
+type GrantEntry = RoleProvenanceEntry | DelegationProvenanceEntry;
+
+export interface EffectivePermission {
+  actionId: string;
+  status: PermissionStatus;
+  limitValue: number | null;
+  conditions: string | null;
+  conditionSpec: Condition[] | null;
+  // Only present for conditional decisions resolved with a context
+  evaluation?: ConditionEvaluation;
+  rule: PrecedenceRule;
+  // The entry that produced the decision, null when nothing matched
+  decidedBy: ProvenanceEntry | null;
+  // Every entry that was considered, highest precedence first
+  trail: ProvenanceEntry[];
+}
+
+export interface ResolverInput {
+  profile: UserProfile;
+  // Assignments of every user are fine, only the profile's own are used
+  assignments: RoleAssignment[];
+  // Needed to follow inheritance; without it only explicit role rows are used
+  roles?: RoleNode[];
+  permissions: RolePermission[];
+  exclusions: UserExclusion[];
+  // Authority other users lent to the profile; delegated authority is never passed on again
+  delegations?: Delegation[];
+  // Entries outside their validity window at this moment are ignored; defaults to now
+  at?: Date;
+}
+
+export interface RoleGrant<T extends RolePermission = RolePermission> {
+  permission: T;
+  // Role whose row supplied the permission
+  sourceRoleId: string;
+  inherited: boolean;
+}
+
+export function getRoleAssignments(input: Pick<ResolverInput, 'profile' | 'assignments' | 'at'>): string[] {
+  return input.assignments
+    .filter(assignment => assignment.user_id === input.profile.id && isActive(assignment, input.at))
+    .map(assignment => assignment.role_id);
+}
+
+const statusRank: Record<PermissionStatus, number> = {
+  denied: 0,
+  conditional: 1,
+  granted: 2,
+};
+
+// Orders role and delegated grants, most permissive first.
+// A denial on one role never takes away what another role grants; that needs a user override.
+function compareGrants(a: GrantEntry, b: GrantEntry): number {
+  if (statusRank[a.status] !== statusRank[b.status]) {
+    return statusRank[b.status] - statusRank[a.status];
+  }
+  // No limit is the widest possible grant
+  if (a.limitValue === b.limitValue) return 0;
+  if (a.limitValue === null) return -1;
+  if (b.limitValue === null) return 1;
+  return b.limitValue - a.limitValue;
+}
+
+// Ancestors from the direct parent upwards. Stops at a repeated role so a bad
+// hierarchy cannot loop forever.
+export function getRoleAncestors(roleId: string, roles: RoleNode[]): string[] {
+  const ancestors: string[] = [];
+  const visited = new Set<string>([roleId]);
+  let current = roles.find(r => r.id === roleId)?.parent_role_id;
+
+  while (current && !visited.has(current)) {
+    ancestors.push(current);
+    visited.add(current);
+    current = roles.find(r => r.id === current)?.parent_role_id;
+  }
+
+  return ancestors;
+}
+
+export function getRoleDescendants(roleId: string, roles: RoleNode[]): string[] {
+  const descendants: string[] = [];
+  const queue = [roleId];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const child of roles.filter(r => r.parent_role_id === current)) {
+      if (child.id === roleId || descendants.includes(child.id)) continue;
+      descendants.push(child.id);
+      queue.push(child.id);
+    }
+  }
+
+  return descendants;
+}
+
+export function wouldCreateCycle(roleId: string, parentRoleId: string | null, roles: RoleNode[]): boolean {
+  if (!parentRoleId) return false;
+  if (parentRoleId === roleId) return true;
+  return getRoleAncestors(parentRoleId, roles).includes(roleId);
+}
+
+export function resolveRolePermission<T extends RolePermission>(
+  roleId: string,
+  actionId: string,
+  permissions: T[],
+  roles: RoleNode[] = [],
+  at: Date = new Date()
+): RoleGrant<T> | undefined {
+  // An expired or not yet valid row counts as absent, so the role falls back to its ancestors
+  for (const candidate of [roleId, ...getRoleAncestors(roleId, roles)]) {
+    const permission = permissions.find(p => p.role_id === candidate && p.action_id === actionId && isActive(p, at));
+    if (permission) {
+      return { permission, sourceRoleId: candidate, inherited: candidate !== roleId };
+    }
+  }
+  return undefined;
+}
+
+// Delegations lent to the user for this action that are in effect at the given moment
+export function getActiveDelegations<T extends Delegation>(
+  delegations: T[],
+  delegateId: string,
+  actionId: string,
+  at?: Date
+): T[] {
+  return delegations.filter(delegation =>
+    delegation.delegate_id === delegateId &&
+    delegation.delegator_id !== delegateId &&
+    (delegation.action_ids.length === 0 || delegation.action_ids.includes(actionId)) &&
+    isActive(delegation, at)
+  );
+}
+
+// The lower of two limits, where null means unlimited
+function capLimit(limit: number | null, cap: number | null | undefined): number | null {
+  if (cap === null || cap === undefined) return limit;
+  return limit === null ? cap : Math.min(limit, cap);
+}
+
+function earliest(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null;
+  return new Date(a) <= new Date(b) ? a : b;
+}
+
+function getDecisionRule(decidedBy: ProvenanceEntry, roleGrantCount: number): PrecedenceRule {
+  if (decidedBy.source === 'exclusion') return 'user-exclusion';
+  if (decidedBy.source === 'delegation') return 'delegation';
+  if (roleGrantCount > 1) return 'role-union';
+  return decidedBy.inheritedFromRoleId ? 'role-inheritance' : 'role-grant';
+}
+
+// Pass a context to evaluate structured conditions of a conditional decision
+export function resolveEffectivePermission(
+  input: ResolverInput,
+  actionId: string,
+  context?: ConditionContext
+): EffectivePermission {
+  const trail: ProvenanceEntry[] = [];
+
+  const exclusion = input.exclusions.find(
+    e => e.user_id === input.profile.id && e.action_id === actionId && isActive(e, input.at)
+  );
+  if (exclusion) {
+    trail.push({
+      source: 'exclusion',
+      exclusionId: exclusion.id,
+      status: exclusion.status,
+      conditions: exclusion.conditions ?? null,
+      conditionSpec: exclusion.condition_spec ?? null,
+      validUntil: exclusion.valid_until ?? null,
+      reason: exclusion.reason,
+    });
+  }
+
+  const roleEntries: RoleProvenanceEntry[] = [];
+  for (const roleId of getRoleAssignments(input)) {
+    const grant = resolveRolePermission(roleId, actionId, input.permissions, input.roles, input.at);
+    if (!grant) continue;
+    roleEntries.push({
+      source: 'role',
+      roleId,
+      inheritedFromRoleId: grant.inherited ? grant.sourceRoleId : null,
+      permissionId: grant.permission.id,
+      status: grant.permission.status,
+      limitValue: grant.permission.limit_value ?? null,
+      conditions: grant.permission.conditions ?? null,
+      conditionSpec: grant.permission.condition_spec ?? null,
+      validUntil: grant.permission.valid_until ?? null,
+    });
+  }
+
+  const delegationEntries: DelegationProvenanceEntry[] = [];
+  for (const delegation of getActiveDelegations(input.delegations ?? [], input.profile.id, actionId, input.at)) {
+    const lent = resolveEffectivePermission(
+      { ...input, profile: { id: delegation.delegator_id }, delegations: [] },
+      actionId
+    );
+    if (lent.status === 'denied') continue;
+    delegationEntries.push({
+      source: 'delegation',
+      delegationId: delegation.id,
+      delegatorId: delegation.delegator_id,
+      status: lent.status,
+      limitValue: capLimit(lent.limitValue, delegation.limit_value),
+      conditions: lent.conditions,
+      conditionSpec: lent.conditionSpec,
+      validUntil: earliest(delegation.valid_until, lent.decidedBy?.validUntil),
+    });
+  }
+
+  const grantEntries: GrantEntry[] = [...roleEntries, ...delegationEntries];
+  grantEntries.sort(compareGrants);
+  trail.push(...grantEntries);
+
+  const decidedBy = trail[0] ?? null;
+  if (!decidedBy) {
+    return {
+      actionId,
+      status: 'denied',
+      limitValue: null,
+      conditions: null,
+      conditionSpec: null,
+      rule: 'default-deny',
+      decidedBy: null,
+      trail,
+    };
+  }
+
+  return {
+    actionId,
+    status: decidedBy.status,
+    limitValue: decidedBy.source === 'exclusion' ? null : decidedBy.limitValue,
+    conditions: decidedBy.conditions,
+    conditionSpec: decidedBy.conditionSpec,
+    evaluation: context && decidedBy.status === 'conditional' && decidedBy.conditionSpec
+      ? evaluateConditions(decidedBy.conditionSpec, context)
+      : undefined,
+    rule: getDecisionRule(decidedBy, roleEntries.length),
+    decidedBy,
+    trail,
+  };
+}
+
+export function resolveEffectivePermissions(
+  input: ResolverInput,
+  actionIds: string[],
+  context?: ConditionContext
+): Record<string, EffectivePermission> {
+  const result: Record<string, EffectivePermission> = {};
+  for (const actionId of actionIds) {
+    result[actionId] = resolveEffectivePermission(input, actionId, context);
+  }
+  return result;
+}
+
+// Replaces (or adds) the row for the change's role/action, leaving the input untouched
+export function applyPermissionChange(permissions: RolePermission[], change: RolePermission): RolePermission[] {
+  const others = permissions.filter(p => !(p.role_id === change.role_id && p.action_id === change.action_id));
+  return [...others, change];
+}
+
+// Users whose effective status for the action would become more permissive,
+// including members of descendant roles that inherit the changed cell
+export function findUsersGainingAccess<P extends UserProfile>(
+  profiles: P[],
+  data: Omit<ResolverInput, 'profile'>,
+  change: RolePermission
+): P[] {
+  const changedPermissions = applyPermissionChange(data.permissions, change);
+
+  return profiles.filter(profile => {
+    const before = resolveEffectivePermission({ ...data, profile }, change.action_id);
+    const after = resolveEffectivePermission({ ...data, profile, permissions: changedPermissions }, change.action_id);
+    return statusRank[after.status] > statusRank[before.status];
+  });
+}
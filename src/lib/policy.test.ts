@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPolicy,
+  formatPolicy,
+  isEmptyPlan,
+  parsePolicy,
+  planPolicyImport,
+  type PolicyData,
+  type PolicyDocument,
+} from './policy';
+
+// A small slice of the seeded matrix as the API hands it back: timestamps with an offset rather than Z,
+// JSONB keys in their own order and every column present. Ids are the names.
+const data: PolicyData = {
+  roles: [
+    { id: 'Employee', name: 'Employee', description: 'Regular staff', color: '#10B981', parent_role_id: null },
+    { id: 'Manager', name: 'Manager', description: null, color: '#3B82F6', parent_role_id: 'Employee' },
+  ],
+  actions: [
+    { id: 'Approve Expense Reports', name: 'Approve Expense Reports', description: null, category: 'Finance', risk_level: 'high' },
+    { id: 'Process Payroll', name: 'Process Payroll', description: 'Monthly run', category: 'Finance', risk_level: 'critical' },
+    { id: 'View Project Reports', name: 'View Project Reports', description: null, category: 'Projects', risk_level: 'low' },
+  ],
+  permissions: [
+    {
+      role_id: 'Employee',
+      action_id: 'View Project Reports',
+      status: 'granted',
+      limit_value: null,
+      conditions: null,
+      condition_spec: null,
+      condition_needs_review: false,
+      valid_from: null,
+      valid_until: null,
+    },
+    {
+      role_id: 'Manager',
+      action_id: 'Approve Expense Reports',
+      status: 'conditional',
+      limit_value: 10000,
+      conditions: 'With Finance approval; Up to $10,000',
+      condition_spec: [{ role: 'Finance', type: 'approval' }, { max: 10000, type: 'amount' }],
+      condition_needs_review: false,
+      valid_from: '2025-01-01T00:00:00+00:00',
+      valid_until: null,
+    },
+    {
+      role_id: 'Manager',
+      action_id: 'Process Payroll',
+      status: 'denied',
+      limit_value: null,
+      conditions: null,
+      condition_spec: null,
+      condition_needs_review: false,
+      valid_from: null,
+      valid_until: null,
+    },
+  ],
+  exclusions: [
+    {
+      id: 'ada/Process Payroll',
+      user_id: 'ada',
+      action_id: 'Process Payroll',
+      status: 'granted',
+      conditions: null,
+      condition_spec: null,
+      condition_needs_review: false,
+      valid_from: '2025-09-01T00:00:00+00:00',
+      valid_until: '2025-09-30T00:00:00+00:00',
+      reason: 'Covering payroll in September',
+    },
+    {
+      id: 'nomail/View Project Reports',
+      user_id: 'nomail',
+      action_id: 'View Project Reports',
+      status: 'denied',
+      reason: 'Left the project',
+    },
+  ],
+  profiles: [
+    { id: 'ada', email: 'ada@example.com' },
+    { id: 'nomail', email: null },
+  ],
+};
+
+const roundTrip = (format: 'json' | 'yaml') => parsePolicy(formatPolicy(buildPolicy(data), format), format);
+
+describe('policy round trip', () => {
+  it.each(['json', 'yaml'] as const)('reads its own %s export back without errors', format => {
+    const { policy, errors } = roundTrip(format);
+    expect(errors).toEqual([]);
+    expect(policy).toEqual(buildPolicy(data));
+  });
+
+  it.each(['json', 'yaml'] as const)('plans no changes when the %s export is imported into the same data', format => {
+    const { policy } = roundTrip(format);
+    const plan = planPolicyImport(policy, data);
+    expect(plan.invalid).toEqual([]);
+    expect(plan.unknownUsers).toEqual([]);
+    expect(isEmptyPlan(plan)).toBe(true);
+  });
+
+  it('writes the same file for the same data', () => {
+    const reordered = { ...data, roles: [...data.roles].reverse(), permissions: [...data.permissions].reverse() };
+    expect(formatPolicy(buildPolicy(reordered), 'yaml')).toBe(formatPolicy(buildPolicy(data), 'yaml'));
+  });
+
+  it('leaves out overrides of users without an email', () => {
+    expect(buildPolicy(data).exclusions.map(exclusion => exclusion.user)).toEqual(['ada@example.com']);
+  });
+});
+
+describe('planPolicyImport', () => {
+  const exported = () => buildPolicy(data);
+
+  it('plans a changed cell as an upsert with the old values', () => {
+    const policy = exported();
+    policy.permissions = policy.permissions.map(permission =>
+      permission.role === 'Employee' ? { ...permission, status: 'denied' } : permission
+    );
+    const plan = planPolicyImport(policy, data);
+    expect(plan.permissions).toHaveLength(1);
+    expect(plan.permissions[0]).toMatchObject({
+      subject: 'Employee',
+      action: 'View Project Reports',
+      operation: 'upsert',
+      before: { status: 'granted' },
+      after: { status: 'denied' },
+    });
+  });
+
+  it('plans a delete for a cell of a listed role and action the file leaves out', () => {
+    const policy = exported();
+    policy.permissions = policy.permissions.filter(permission => permission.action !== 'Process Payroll');
+    const plan = planPolicyImport(policy, data);
+    expect(plan.permissions).toEqual([
+      expect.objectContaining({ subject: 'Manager', action: 'Process Payroll', operation: 'delete', after: null }),
+    ]);
+  });
+
+  it('drops the limit and conditions of a denied cell, as the editor does', () => {
+    const policy = exported();
+    policy.permissions = policy.permissions.map(permission =>
+      permission.action === 'Approve Expense Reports' ? { ...permission, status: 'denied' } : permission
+    );
+    const [change] = planPolicyImport(policy, data).permissions;
+    expect(change.after).toMatchObject({
+      status: 'denied',
+      limit_value: null,
+      conditions: null,
+      condition_spec: null,
+      condition_needs_review: false,
+    });
+  });
+
+  it('reports cells the editor would refuse instead of planning them', () => {
+    const policy: PolicyDocument = exported();
+    policy.permissions = policy.permissions.map(permission =>
+      permission.role === 'Employee' ? { ...permission, status: 'conditional' } : permission
+    );
+    const plan = planPolicyImport(policy, data);
+    expect(plan.permissions).toEqual([]);
+    expect(plan.invalid).toEqual([{
+      subject: 'Employee',
+      action: 'View Project Reports',
+      error: 'A conditional permission needs at least one condition.',
+    }]);
+  });
+
+  it('lists overrides for unknown emails rather than planning them', () => {
+    const policy = exported();
+    policy.exclusions.push({ user: 'grace@example.com', action: 'Process Payroll', status: 'denied', reason: 'Audit' });
+    const plan = planPolicyImport(policy, data);
+    expect(plan.unknownUsers).toEqual(['grace@example.com']);
+    expect(plan.exclusions).toEqual([]);
+  });
+});
+
+describe('parsePolicy', () => {
+  it('names the entry of a schema error', () => {
+    const policy = buildPolicy(data);
+    policy.permissions[0] = { ...policy.permissions[0], role: 'Intern' };
+    const { policy: parsed, errors } = parsePolicy(formatPolicy(policy, 'json'), 'json');
+    expect(parsed).toBeNull();
+    expect(errors).toContain('permissions.0.role: Unknown role "Intern"');
+  });
+
+  it('rejects a validity window that ends before it starts', () => {
+    const policy = buildPolicy(data);
+    policy.exclusions[0] = { ...policy.exclusions[0], valid_from: '2025-10-01T00:00:00.000Z', valid_until: '2025-09-01T00:00:00.000Z' };
+    const { errors } = parsePolicy(formatPolicy(policy, 'yaml'), 'yaml');
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^exclusions\.0: /);
+  });
+
+  it('reports unreadable input', () => {
+    const { policy, errors } = parsePolicy('{ "version": 1,', 'json');
+    expect(policy).toBeNull();
+    expect(errors[0]).toMatch(/^The file is not valid JSON: /);
+  });
+});
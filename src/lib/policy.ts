@@ -0,0 +1,619 @@
+// Policy as code: the authorization model as one versioned document that can live in git.
+// Documents are written as JSON or YAML with a fixed order of entries and keys, so a diff shows
+// only real changes, and are checked with zod when read back. Importing an unchanged export
+// changes nothing.
+//
+//   version: 1
+//   categories: [Finance]
+//   roles:
+//     - name: Manager
+//       description: Team leads          # optional
+//       color: "#6366F1"                 # optional, #3B82F6 when left out
+//       parent: Employee                 # optional; inherits that role's permissions
+//   actions:
+//     - name: Approve invoice
+//       category: Finance                # one of categories
+//       risk: high                       # low | medium | high | critical
+//       description: ...                 # optional
+//   permissions:                         # each role's own cells; cells not listed inherit or are denied
+//     - role: Manager
+//       action: Approve invoice
+//       status: conditional              # granted | denied | conditional
+//       limit: 5000                      # optional
+//       conditions: With Finance approval; Up to $10,000
+//       condition_spec:                  # optional, the conditions in structured form
+//         - { type: approval, role: Finance }
+//         - { type: amount, max: 10000 }
+//       needs_review: true               # optional; set when some condition text could not be parsed
+//       valid_from: 2025-01-01T00:00:00.000Z   # optional, like valid_until
+//   exclusions:                          # per-user overrides, the user given by email
+//     - user: ada@example.com
+//       action: Approve invoice
+//       status: denied
+//       reason: On leave
+//       # conditions, condition_spec, needs_review, valid_from and valid_until as above
+//
+// Users, role assignments, org units, SoD rules and delegations are not part of the document.
+// Roles and actions are matched by name. An import creates and updates the roles and actions it
+// lists but never deletes any; it replaces the cells and overrides of the roles and actions it
+// lists and leaves everything about others alone.
+
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { Condition } from './conditions';
+import type { PermissionValues } from './change-requests';
+import { normalizePermissionValues, validatePermissionValues } from './permission-edit';
+import { riskLevels, type RiskLevel } from './risk';
+import { validateValidityWindow } from './validity';
+import { sameStoredValue } from './compare';
+import { applyCellChanges, type BulkApplyResult } from './bulk-edit';
+import type { SodData } from './sod';
+
+export const POLICY_VERSION = 1;
+
+export type PolicyFormat = 'json' | 'yaml';
+
+// Matches the roles.color column default
+const DEFAULT_ROLE_COLOR = '#3B82F6';
+
+// The document as described above. Written out rather than inferred from the schema, since zod
+// infers every field as optional without strictNullChecks.
+export interface PolicyRole {
+  name: string;
+  description?: string;
+  color?: string;
+  parent?: string;
+}
+
+export interface PolicyAction {
+  name: string;
+  category: string;
+  risk: RiskLevel;
+  description?: string;
+}
+
+interface PolicyGrantFields {
+  action: string;
+  status: 'granted' | 'denied' | 'conditional';
+  conditions?: string;
+  condition_spec?: Condition[];
+  needs_review?: boolean;
+  valid_from?: string;
+  valid_until?: string;
+}
+
+export interface PolicyPermission extends PolicyGrantFields {
+  role: string;
+  limit?: number;
+}
+
+export interface PolicyExclusion extends PolicyGrantFields {
+  user: string;
+  reason: string;
+}
+
+export interface PolicyDocument {
+  version: typeof POLICY_VERSION;
+  categories: string[];
+  roles: PolicyRole[];
+  actions: PolicyAction[];
+  permissions: PolicyPermission[];
+  exclusions: PolicyExclusion[];
+}
+
+const name = z.string().trim().min(1);
+const timestamp = z.string().datetime({ offset: true });
+
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scope'),
+    scope: z.enum(['own', 'project', 'team', 'department']),
+    unit: z.string().optional(),
+    unitId: z.string().optional(),
+  }).strict(),
+  z.object({ type: z.literal('approval'), role: name }).strict(),
+  z.object({ type: z.literal('amount'), max: z.number().positive() }).strict(),
+  z.object({
+    type: z.literal('environment'),
+    environments: z.array(z.enum(['development', 'staging', 'production'])).min(1),
+  }).strict(),
+]);
+
+// Shared by role cells and user overrides
+const grantFields = {
+  action: name,
+  status: z.enum(['granted', 'denied', 'conditional']),
+  conditions: z.string().min(1).optional(),
+  condition_spec: z.array(conditionSchema).min(1).optional(),
+  needs_review: z.boolean().optional(),
+  valid_from: timestamp.optional(),
+  valid_until: timestamp.optional(),
+};
+
+const roleSchema = z.object({
+  name,
+  description: z.string().min(1).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a color like #3B82F6').optional(),
+  parent: name.optional(),
+}).strict();
+
+const actionSchema = z.object({
+  name,
+  category: name,
+  risk: z.enum(riskLevels as [RiskLevel, ...RiskLevel[]]),
+  description: z.string().min(1).optional(),
+}).strict();
+
+const permissionSchema = z.object({
+  role: name,
+  ...grantFields,
+  limit: z.number().int().positive().optional(),
+}).strict();
+
+const exclusionSchema = z.object({
+  user: z.string().email(),
+  ...grantFields,
+  reason: z.string().trim().min(1),
+}).strict();
+
+type PolicyGrant = PolicyPermission | PolicyExclusion;
+
+// Normalized like a cell saved in the editor, so a denied entry drops any limit or conditions
+function toGrantValues(grant: PolicyGrant): PermissionValues {
+  return normalizePermissionValues({
+    status: grant.status,
+    limit_value: 'limit' in grant ? grant.limit ?? null : null,
+    conditions: grant.conditions ?? null,
+    condition_spec: grant.condition_spec ?? null,
+    condition_needs_review: grant.needs_review ?? false,
+    valid_from: grant.valid_from ?? null,
+    valid_until: grant.valid_until ?? null,
+  });
+}
+
+const validateGrant = (values: PermissionValues) =>
+  validatePermissionValues(values) ?? validateValidityWindow(values);
+
+const duplicates = (values: string[]) => values.filter((value, index) => values.indexOf(value) !== index);
+
+export const policySchema = z.object({
+  version: z.literal(POLICY_VERSION),
+  categories: z.array(name),
+  roles: z.array(roleSchema),
+  actions: z.array(actionSchema),
+  permissions: z.array(permissionSchema),
+  exclusions: z.array(exclusionSchema),
+}).strict().superRefine((parsed, ctx) => {
+  const policy = parsed as PolicyDocument;
+  const issue = (path: (string | number)[], message: string) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+  };
+  const roleNames = policy.roles.map(role => role.name);
+  const actionNames = policy.actions.map(action => action.name);
+
+  duplicates(policy.categories).forEach(category => issue(['categories'], `"${category}" is listed twice`));
+  duplicates(roleNames).forEach(role => issue(['roles'], `Role "${role}" is listed twice`));
+  duplicates(actionNames).forEach(action => issue(['actions'], `Action "${action}" is listed twice`));
+
+  policy.roles.forEach((role, index) => {
+    if (!role.parent) return;
+    if (!roleNames.includes(role.parent)) {
+      issue(['roles', index, 'parent'], `Unknown role "${role.parent}"`);
+      return;
+    }
+    // Walk up from the parent; meeting the role again means the hierarchy loops
+    const seen = new Set([role.name]);
+    let current: string | undefined = role.parent;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      current = policy.roles.find(r => r.name === current)?.parent;
+    }
+    if (current) issue(['roles', index, 'parent'], `Role "${role.name}" would inherit from itself`);
+  });
+
+  policy.actions.forEach((action, index) => {
+    if (!policy.categories.includes(action.category)) {
+      issue(['actions', index, 'category'], `Category "${action.category}" is not listed in categories`);
+    }
+  });
+
+  const checkGrant = (section: 'permissions' | 'exclusions', index: number, grant: PolicyGrant) => {
+    if (!actionNames.includes(grant.action)) issue([section, index, 'action'], `Unknown action "${grant.action}"`);
+    const error = validateGrant(toGrantValues(grant));
+    if (error) issue([section, index], error);
+  };
+
+  policy.permissions.forEach((permission, index) => {
+    if (!roleNames.includes(permission.role)) issue(['permissions', index, 'role'], `Unknown role "${permission.role}"`);
+    checkGrant('permissions', index, permission);
+  });
+  duplicates(policy.permissions.map(p => `${p.role} / ${p.action}`))
+    .forEach(cell => issue(['permissions'], `${cell} is listed twice`));
+
+  policy.exclusions.forEach((exclusion, index) => checkGrant('exclusions', index, exclusion));
+  duplicates(policy.exclusions.map(e => `${e.user} / ${e.action}`))
+    .forEach(override => issue(['exclusions'], `${override} is listed twice`));
+});
+
+export interface PolicyData {
+  roles: { id: string; name: string; description?: string | null; color?: string | null; parent_role_id?: string | null }[];
+  actions: { id: string; name: string; description?: string | null; category: string; risk_level: RiskLevel }[];
+  permissions: {
+    role_id: string;
+    action_id: string;
+    status: PermissionValues['status'];
+    limit_value?: number | null;
+    conditions?: string | null;
+    condition_spec?: Condition[] | null;
+    condition_needs_review?: boolean;
+    valid_from?: string | null;
+    valid_until?: string | null;
+  }[];
+  exclusions: (Omit<PolicyData['permissions'][number], 'role_id' | 'limit_value'> & { id: string; user_id: string; reason: string })[];
+  profiles: { id: string; email?: string | null }[];
+}
+
+// Plain code-unit order, so the export does not depend on the browser's locale
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const toTimestamp = (value: string | null | undefined) => (value ? new Date(value).toISOString() : undefined);
+
+// Empty and default values are left out, so both sides of a round trip read the same
+const grantEntry = (row: PolicyData['permissions'][number] | PolicyData['exclusions'][number]) => ({
+  conditions: row.conditions || undefined,
+  // JSONB hands keys back in its own order; the type leads so clauses read naturally
+  condition_spec: row.condition_spec?.length
+    ? row.condition_spec.map(({ type, ...rest }) => ({ type, ...rest }) as Condition)
+    : undefined,
+  needs_review: row.condition_needs_review || undefined,
+  valid_from: toTimestamp(row.valid_from),
+  valid_until: toTimestamp(row.valid_until),
+});
+
+const withoutUndefined = <T extends object>(entry: T): T =>
+  Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+
+export function buildPolicy(data: PolicyData): PolicyDocument {
+  const roleName = (roleId: string) => data.roles.find(role => role.id === roleId)?.name;
+  const actionName = (actionId: string) => data.actions.find(action => action.id === actionId)?.name;
+  const email = (profileId: string) => data.profiles.find(profile => profile.id === profileId)?.email;
+
+  return {
+    version: POLICY_VERSION,
+    categories: Array.from(new Set(data.actions.map(action => action.category))).sort(compare),
+    roles: data.roles
+      .map(role => withoutUndefined({
+        name: role.name,
+        description: role.description || undefined,
+        color: role.color || undefined,
+        parent: role.parent_role_id ? roleName(role.parent_role_id) : undefined,
+      }))
+      .sort((a, b) => compare(a.name, b.name)),
+    actions: data.actions
+      .map(action => withoutUndefined({
+        name: action.name,
+        category: action.category,
+        risk: action.risk_level,
+        description: action.description || undefined,
+      }))
+      .sort((a, b) => compare(a.name, b.name)),
+    permissions: data.permissions
+      .map(permission => withoutUndefined({
+        role: roleName(permission.role_id) ?? '',
+        action: actionName(permission.action_id) ?? '',
+        status: permission.status ?? 'denied',
+        limit: permission.limit_value ?? undefined,
+        ...grantEntry(permission),
+      }))
+      .filter(permission => permission.role && permission.action)
+      .sort((a, b) => compare(a.role, b.role) || compare(a.action, b.action)),
+    // Users without an email cannot be named in the document
+    exclusions: data.exclusions
+      .map(exclusion => withoutUndefined({
+        user: email(exclusion.user_id) ?? '',
+        action: actionName(exclusion.action_id) ?? '',
+        status: exclusion.status ?? 'denied',
+        ...grantEntry(exclusion),
+        reason: exclusion.reason,
+      }))
+      .filter(exclusion => exclusion.user && exclusion.action)
+      .sort((a, b) => compare(a.user, b.user) || compare(a.action, b.action)),
+  };
+}
+
+export function formatPolicy(policy: PolicyDocument, format: PolicyFormat): string {
+  return format === 'json'
+    ? `${JSON.stringify(policy, null, 2)}\n`
+    : stringifyYaml(policy, { lineWidth: 0 });
+}
+
+export function parsePolicy(text: string, format: PolicyFormat): { policy: PolicyDocument | null; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return { policy: null, errors: [`The file is not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const result = policySchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      policy: null,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'document'}: ${issue.message}`),
+    };
+  }
+  return { policy: result.data as PolicyDocument, errors: [] };
+}
+
+export interface PolicyEntityChange {
+  name: string;
+  operation: 'create' | 'update';
+  // Changed fields of an update
+  fields: string[];
+}
+
+export interface PolicyGrantChange {
+  // Role name for cells, user email for overrides
+  subject: string;
+  action: string;
+  operation: 'upsert' | 'delete';
+  before: PermissionValues | null;
+  after: PermissionValues | null;
+  reason?: string;
+}
+
+export interface PolicyInvalidGrant {
+  subject: string;
+  action: string;
+  error: string;
+}
+
+export interface PolicyPlan {
+  roles: PolicyEntityChange[];
+  actions: PolicyEntityChange[];
+  permissions: PolicyGrantChange[];
+  exclusions: PolicyGrantChange[];
+  // Cells and overrides the editor would refuse; the import cannot be applied while there are any
+  invalid: PolicyInvalidGrant[];
+  // Overrides for emails without an account
+  unknownUsers: string[];
+  // Existing roles and actions the document does not list, left as they are
+  untouchedRoles: string[];
+  untouchedActions: string[];
+}
+
+const grantColumns: (keyof PermissionValues)[] = [
+  'status',
+  'limit_value',
+  'conditions',
+  'condition_spec',
+  'condition_needs_review',
+  'valid_from',
+  'valid_until',
+];
+
+const sameGrant = (a: PermissionValues, b: PermissionValues) =>
+  grantColumns.every(column => sameStoredValue(a[column], b[column]));
+
+const rowValues = (row: PolicyData['permissions'][number]): PermissionValues => ({
+  status: row.status,
+  limit_value: row.limit_value ?? null,
+  conditions: row.conditions || null,
+  condition_spec: row.condition_spec?.length ? row.condition_spec : null,
+  condition_needs_review: row.condition_needs_review ?? false,
+  valid_from: row.valid_from ?? null,
+  valid_until: row.valid_until ?? null,
+});
+
+const changedFields = (pairs: [string, unknown, unknown][]) =>
+  pairs.filter(([, before, after]) => !sameStoredValue(before || null, after || null)).map(([field]) => field);
+
+export function planPolicyImport(policy: PolicyDocument, data: PolicyData): PolicyPlan {
+  const roleByName = new Map(data.roles.map(role => [role.name, role]));
+  const actionByName = new Map(data.actions.map(action => [action.name, action]));
+  const listedRoles = new Set(policy.roles.map(role => role.name));
+  const listedActions = new Set(policy.actions.map(action => action.name));
+  const plan: PolicyPlan = {
+    roles: [],
+    actions: [],
+    permissions: [],
+    exclusions: [],
+    invalid: [],
+    unknownUsers: [],
+    untouchedRoles: data.roles.filter(role => !listedRoles.has(role.name)).map(role => role.name).sort(compare),
+    untouchedActions: data.actions.filter(action => !listedActions.has(action.name)).map(action => action.name).sort(compare),
+  };
+
+  policy.roles.forEach(role => {
+    const existing = roleByName.get(role.name);
+    if (!existing) {
+      plan.roles.push({ name: role.name, operation: 'create', fields: [] });
+      return;
+    }
+    const parent = data.roles.find(r => r.id === existing.parent_role_id)?.name;
+    const fields = changedFields([
+      ['description', existing.description, role.description],
+      ['color', existing.color, role.color ?? DEFAULT_ROLE_COLOR],
+      ['parent', parent, role.parent],
+    ]);
+    if (fields.length > 0) plan.roles.push({ name: role.name, operation: 'update', fields });
+  });
+
+  policy.actions.forEach(action => {
+    const existing = actionByName.get(action.name);
+    if (!existing) {
+      plan.actions.push({ name: action.name, operation: 'create', fields: [] });
+      return;
+    }
+    const fields = changedFields([
+      ['category', existing.category, action.category],
+      ['risk', existing.risk_level, action.risk],
+      ['description', existing.description, action.description],
+    ]);
+    if (fields.length > 0) plan.actions.push({ name: action.name, operation: 'update', fields });
+  });
+
+  // Cells: listed ones are written, unlisted own rows of listed roles and actions are removed
+  const permissionKey = (role: string, action: string) => `${role}\n${action}`;
+  const currentCells = new Map(data.permissions.flatMap(permission => {
+    const role = data.roles.find(r => r.id === permission.role_id)?.name;
+    const action = data.actions.find(a => a.id === permission.action_id)?.name;
+    return role && action ? [[permissionKey(role, action), rowValues(permission)] as const] : [];
+  }));
+
+  policy.permissions.forEach(permission => {
+    const before = currentCells.get(permissionKey(permission.role, permission.action)) ?? null;
+    const after = toGrantValues(permission);
+    const error = validateGrant(after);
+    if (error) {
+      plan.invalid.push({ subject: permission.role, action: permission.action, error });
+      return;
+    }
+    if (before && sameGrant(before, after)) return;
+    plan.permissions.push({ subject: permission.role, action: permission.action, operation: 'upsert', before, after });
+  });
+  const listedCells = new Set(policy.permissions.map(p => permissionKey(p.role, p.action)));
+  currentCells.forEach((before, key) => {
+    const [role, action] = key.split('\n');
+    if (!listedRoles.has(role) || !listedActions.has(action) || listedCells.has(key)) return;
+    plan.permissions.push({ subject: role, action, operation: 'delete', before, after: null });
+  });
+
+  // Overrides work the same way, for every user the document can name
+  const currentOverrides = new Map(data.exclusions.flatMap(exclusion => {
+    const email = data.profiles.find(p => p.id === exclusion.user_id)?.email;
+    const action = data.actions.find(a => a.id === exclusion.action_id)?.name;
+    return email && action
+      ? [[permissionKey(email, action), { values: rowValues({ ...exclusion, role_id: '' }), reason: exclusion.reason }] as const]
+      : [];
+  }));
+  const knownEmails = new Set(data.profiles.map(profile => profile.email).filter(Boolean));
+
+  policy.exclusions.forEach(exclusion => {
+    if (!knownEmails.has(exclusion.user)) {
+      if (!plan.unknownUsers.includes(exclusion.user)) plan.unknownUsers.push(exclusion.user);
+      return;
+    }
+    const current = currentOverrides.get(permissionKey(exclusion.user, exclusion.action));
+    const after = toGrantValues(exclusion);
+    const error = validateGrant(after);
+    if (error) {
+      plan.invalid.push({ subject: exclusion.user, action: exclusion.action, error });
+      return;
+    }
+    if (current && sameGrant(current.values, after) && current.reason === exclusion.reason) return;
+    plan.exclusions.push({
+      subject: exclusion.user,
+      action: exclusion.action,
+      operation: 'upsert',
+      before: current?.values ?? null,
+      after,
+      reason: exclusion.reason,
+    });
+  });
+  const listedOverrides = new Set(policy.exclusions.map(e => permissionKey(e.user, e.action)));
+  currentOverrides.forEach((current, key) => {
+    const [email, action] = key.split('\n');
+    if (!listedActions.has(action) || listedOverrides.has(key)) return;
+    plan.exclusions.push({ subject: email, action, operation: 'delete', before: current.values, after: null });
+  });
+
+  return plan;
+}
+
+export function isEmptyPlan(plan: PolicyPlan): boolean {
+  return plan.roles.length + plan.actions.length + plan.permissions.length + plan.exclusions.length === 0;
+}
+
+// Roles, cells and overrides as they would be after the import, for SoD previews. New roles and
+// actions have no id yet and no assignments or rules, so their cells cannot cause a conflict.
+export function applyPolicyPlan(
+  policy: PolicyDocument,
+  plan: PolicyPlan,
+  data: PolicyData
+): Pick<SodData, 'roles' | 'permissions' | 'exclusions'> {
+  const roleId = (name: string) => data.roles.find(role => role.name === name)?.id;
+  const actionId = (name: string) => data.actions.find(action => action.name === name)?.id;
+  const userId = (email: string) => data.profiles.find(profile => profile.email === email)?.id;
+
+  const reparented = new Set(plan.roles.filter(role => role.fields.includes('parent')).map(role => role.name));
+  const roles = data.roles.map(role => {
+    if (!reparented.has(role.name)) return role;
+    const parent = policy.roles.find(r => r.name === role.name)?.parent;
+    return { ...role, parent_role_id: (parent && roleId(parent)) ?? null };
+  });
+
+  const permissions = applyCellChanges(data.permissions, plan.permissions.flatMap(change => {
+    const role = roleId(change.subject);
+    const action = actionId(change.action);
+    return role && action
+      ? [{ role_id: role, action_id: action, operation: change.operation, values: change.after ?? undefined }]
+      : [];
+  }));
+
+  const exclusions = plan.exclusions.reduce((result, change) => {
+    const user = userId(change.subject);
+    const action = actionId(change.action);
+    if (!user || !action) return result;
+    const others = result.filter(e => !(e.user_id === user && e.action_id === action));
+    if (change.operation === 'delete') return others;
+    const existing = result.find(e => e.user_id === user && e.action_id === action);
+    return [...others, { ...existing, ...change.after, id: existing?.id ?? '', user_id: user, action_id: action, reason: change.reason }];
+  }, data.exclusions);
+
+  return { roles, permissions, exclusions };
+}
+
+// A type rather than an interface so it passes as JSON to the RPC
+export type PolicyImportPayload = {
+  role_changes: { name: string; description: string | null; color: string | null; parent: string | null }[];
+  action_changes: { name: string; description: string | null; category: string; risk_level: RiskLevel }[];
+  permission_changes: { role_name: string; action_name: string; operation: 'upsert' | 'delete'; values: PermissionValues }[];
+  exclusion_changes: { email: string; action_name: string; operation: 'upsert' | 'delete'; values: PermissionValues & { reason?: string } }[];
+};
+
+export interface PolicyImportResult extends Pick<BulkApplyResult, 'skipped'> {
+  roles_changed: number;
+  actions_changed: number;
+  applied: number;
+  requested: number;
+  exclusions_changed: number;
+  // Critical actions the file lowers, filed for approval instead of applied
+  risk_changes_requested: number;
+}
+
+export function toPolicyPayload(policy: PolicyDocument, plan: PolicyPlan): PolicyImportPayload {
+  const changedRoles = new Set(plan.roles.map(role => role.name));
+  const changedActions = new Set(plan.actions.map(action => action.name));
+
+  return {
+    role_changes: policy.roles
+      .filter(role => changedRoles.has(role.name))
+      .map(role => ({
+        name: role.name,
+        description: role.description ?? null,
+        color: role.color ?? null,
+        parent: role.parent ?? null,
+      })),
+    action_changes: policy.actions
+      .filter(action => changedActions.has(action.name))
+      .map(action => ({
+        name: action.name,
+        description: action.description ?? null,
+        category: action.category,
+        risk_level: action.risk,
+      })),
+    permission_changes: plan.permissions.map(change => ({
+      role_name: change.subject,
+      action_name: change.action,
+      operation: change.operation,
+      values: change.after ?? {},
+    })),
+    exclusion_changes: plan.exclusions.map(change => ({
+      email: change.subject,
+      action_name: change.action,
+      operation: change.operation,
+      values: { ...change.after, reason: change.reason },
+    })),
+  };
+}
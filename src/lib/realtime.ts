@@ -0,0 +1,47 @@
+// Live collaboration on the matrix: row changes arrive through Supabase realtime and are merged
+// into local state, and a presence channel tells editors which cells the others have open.
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+export const MATRIX_CHANNEL = 'authorization-matrix';
+
+// How long a cell changed by someone else stays highlighted
+export const REMOTE_HIGHLIGHT_MS = 4000;
+
+// Realtime echoes our own writes too; cells we wrote this recently are not highlighted
+export const LOCAL_EDIT_WINDOW_MS = 10000;
+
+export interface EditorPresence {
+  userId: string;
+  name: string;
+  // Key of the cell they have open, if any
+  cell: string | null;
+}
+
+export function mergeRealtimeChange<T extends { id: string }>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>
+): T[] {
+  if (payload.eventType === 'DELETE') {
+    return rows.filter(row => row.id !== payload.old.id);
+  }
+
+  const changed = payload.new;
+  return rows.some(row => row.id === changed.id)
+    ? rows.map(row => (row.id === changed.id ? changed : row))
+    : [...rows, changed];
+}
+
+// Everyone in the channel but us; several tabs of one person count once per open cell
+export function getOtherEditors(
+  state: Record<string, EditorPresence[]>,
+  ownUserId: string | undefined
+): EditorPresence[] {
+  const editors = Object.entries(state)
+    .filter(([key]) => key !== ownUserId)
+    .flatMap(([, presences]) => presences);
+
+  return editors.filter((editor, index) =>
+    editors.findIndex(other => other.userId === editor.userId && other.cell === editor.cell) === index
+  );
+}
@@ -0,0 +1,142 @@
+// Periodic access recertification. Campaigns are launched and closed by RPCs;
+// closing one removes every assignment or override a reviewer revoked.
+
+import type { CsvValue } from './csv';
+import { riskLevelLabels, type RiskLevel } from './risk';
+
+export type RecertificationCampaignStatus = 'open' | 'closed';
+
+export type RecertificationDecision = 'pending' | 'certify' | 'revoke';
+
+export type RecertificationItemType = 'role_assignment' | 'exclusion';
+
+export interface RecertificationCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  role_ids: string[];
+  categories: string[];
+  risk_levels: RiskLevel[];
+  due_date: string | null;
+  status: RecertificationCampaignStatus;
+  created_by: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  sign_off_note: string | null;
+  created_at: string;
+}
+
+export interface RecertificationItem {
+  id: string;
+  campaign_id: string;
+  item_type: RecertificationItemType;
+  source_id: string;
+  user_id: string;
+  role_id: string | null;
+  action_id: string | null;
+  granted_until: string | null;
+  reviewer_id: string | null;
+  decision: RecertificationDecision;
+  decided_by: string | null;
+  decided_at: string | null;
+  comment: string | null;
+  revoked_at: string | null;
+}
+
+export const recertificationDecisionLabels: Record<RecertificationDecision, string> = {
+  pending: 'Not reviewed',
+  certify: 'Certified',
+  revoke: 'Revoked',
+};
+
+export const recertificationItemTypeLabels: Record<RecertificationItemType, string> = {
+  role_assignment: 'Role assignment',
+  exclusion: 'User override',
+};
+
+export interface CampaignStats {
+  total: number;
+  certified: number;
+  revoked: number;
+  pending: number;
+  // Share of reviewed items, 0-100
+  completion: number;
+}
+
+export function getCampaignStats(items: Pick<RecertificationItem, 'decision'>[]): CampaignStats {
+  const certified = items.filter(item => item.decision === 'certify').length;
+  const revoked = items.filter(item => item.decision === 'revoke').length;
+  const pending = items.length - certified - revoked;
+  return {
+    total: items.length,
+    certified,
+    revoked,
+    pending,
+    completion: items.length === 0 ? 100 : Math.round(((certified + revoked) / items.length) * 100),
+  };
+}
+
+// Mirrors public.decide_recertification_item: admins review everything, reviewers their own items,
+// and nobody reviews their own access
+export function canReviewItem(
+  item: Pick<RecertificationItem, 'user_id' | 'reviewer_id'>,
+  reviewer: { profileId: string | null; isAdmin: boolean }
+): boolean {
+  if (!reviewer.profileId || item.user_id === reviewer.profileId) return false;
+  return reviewer.isAdmin || item.reviewer_id === reviewer.profileId;
+}
+
+export function describeCampaignScope(
+  campaign: Pick<RecertificationCampaign, 'role_ids' | 'categories' | 'risk_levels'>,
+  getRoleName: (roleId: string) => string
+): string {
+  const parts = [
+    campaign.role_ids.length > 0 && `Roles: ${campaign.role_ids.map(getRoleName).join(', ')}`,
+    campaign.categories.length > 0 && `Categories: ${campaign.categories.join(', ')}`,
+    campaign.risk_levels.length > 0 && `Risk: ${campaign.risk_levels.map(level => riskLevelLabels[level]).join(', ')}`,
+  ].filter(Boolean);
+  return parts.join('; ') || 'All access';
+}
+
+interface ReportLookups {
+  getUserName: (profileId: string | null) => string;
+  getRoleName: (roleId: string) => string;
+  getActionName: (actionId: string) => string;
+}
+
+// Campaign summary and sign-off followed by one row per reviewed item
+export function buildCampaignReport(
+  campaign: RecertificationCampaign,
+  items: RecertificationItem[],
+  lookups: ReportLookups
+): CsvValue[][] {
+  const stats = getCampaignStats(items);
+  const rows: CsvValue[][] = [
+    ['Campaign', campaign.name],
+    ['Scope', describeCampaignScope(campaign, lookups.getRoleName)],
+    ['Launched', new Date(campaign.created_at).toISOString(), lookups.getUserName(campaign.created_by)],
+    ['Due', campaign.due_date ? new Date(campaign.due_date).toISOString() : ''],
+    ['Status', campaign.status],
+    ['Signed off', campaign.closed_at ? new Date(campaign.closed_at).toISOString() : '', campaign.closed_at ? lookups.getUserName(campaign.closed_by) : ''],
+    ['Sign-off note', campaign.sign_off_note ?? ''],
+    ['Items', stats.total, 'Certified', stats.certified, 'Revoked', stats.revoked, 'Not reviewed', stats.pending],
+    [],
+    ['User', 'Type', 'Access', 'Granted Until', 'Decision', 'Decided By', 'Decided At', 'Comment', 'Revoked At'],
+  ];
+
+  items.forEach(item => {
+    rows.push([
+      lookups.getUserName(item.user_id),
+      recertificationItemTypeLabels[item.item_type],
+      item.role_id ? lookups.getRoleName(item.role_id) : item.action_id ? lookups.getActionName(item.action_id) : '',
+      item.granted_until ?? '',
+      recertificationDecisionLabels[item.decision],
+      item.decided_by ? lookups.getUserName(item.decided_by) : '',
+      item.decided_at ?? '',
+      item.comment ?? '',
+      item.revoked_at ?? '',
+    ]);
+  });
+
+  return rows;
+}
@@ -0,0 +1,17 @@
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export const riskLevels: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+export const riskRank: Record<RiskLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export const riskLevelLabels: Record<RiskLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
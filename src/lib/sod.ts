@@ -0,0 +1,83 @@
+// Segregation-of-duties checks: a rule names two actions that must never be held together.
+// An action counts as held when its effective status is anything but denied.
+
+import {
+  resolveEffectivePermission,
+  resolveRolePermission,
+  type ResolverInput,
+  type UserProfile,
+} from './permission-resolver';
+
+export type SodEnforcement = 'warn' | 'block';
+
+export const sodEnforcementLabels: Record<SodEnforcement, string> = {
+  warn: 'Warn',
+  block: 'Block',
+};
+
+export interface SodRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  action_a_id: string;
+  action_b_id: string;
+  enforcement: SodEnforcement;
+}
+
+export interface SodViolation {
+  rule: SodRule;
+  subject: 'role' | 'user';
+  subjectId: string;
+}
+
+export type SodData = Omit<ResolverInput, 'profile'>;
+
+const violationKey = (violation: SodViolation) =>
+  `${violation.rule.id}:${violation.subject}:${violation.subjectId}`;
+
+export function findRoleViolations(rules: SodRule[], data: SodData): SodViolation[] {
+  const roles = data.roles ?? [];
+  const holds = (roleId: string, actionId: string) => {
+    const grant = resolveRolePermission(roleId, actionId, data.permissions, roles, data.at);
+    return !!grant && grant.permission.status !== 'denied';
+  };
+
+  return roles.flatMap(role =>
+    rules
+      .filter(rule => holds(role.id, rule.action_a_id) && holds(role.id, rule.action_b_id))
+      .map(rule => ({ rule, subject: 'role' as const, subjectId: role.id }))
+  );
+}
+
+// Catches combinations that only arise from holding several roles or from user overrides
+export function findUserViolations(rules: SodRule[], data: SodData, profiles: UserProfile[]): SodViolation[] {
+  return profiles.flatMap(profile => {
+    const holds = (actionId: string) =>
+      resolveEffectivePermission({ ...data, profile }, actionId).status !== 'denied';
+
+    return rules
+      .filter(rule => holds(rule.action_a_id) && holds(rule.action_b_id))
+      .map(rule => ({ rule, subject: 'user' as const, subjectId: profile.id }));
+  });
+}
+
+export function findViolations(rules: SodRule[], data: SodData, profiles: UserProfile[]): SodViolation[] {
+  return [...findRoleViolations(rules, data), ...findUserViolations(rules, data, profiles)];
+}
+
+// Violations present after a change that were not already present before it
+export function findIntroducedViolations(
+  rules: SodRule[],
+  before: SodData,
+  after: SodData,
+  profiles: UserProfile[]
+): SodViolation[] {
+  if (rules.length === 0) return [];
+
+  const existing = new Set(findViolations(rules, before, profiles).map(violationKey));
+  return findViolations(rules, after, profiles).filter(violation => !existing.has(violationKey(violation)));
+}
+
+export function isBlocking(violations: SodViolation[]): boolean {
+  return violations.some(violation => violation.rule.enforcement === 'block');
+}
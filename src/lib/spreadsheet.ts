@@ -0,0 +1,30 @@
+// Uploaded spreadsheets read into plain rows of text. The XLSX library is large and only needed
+// here, so it is loaded when the first workbook is opened.
+
+import { parseCsv } from './csv';
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+// First worksheet only; cells are read as displayed, so formulas give their result
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (!/\.xlsx$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow(row => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cell.text;
+    });
+    rows.push(Array.from(cells, cell => cell ?? ''));
+  });
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateMatrixSql,
+  migrationFileName,
+  quoteIdentifier,
+  quoteLiteral,
+  type SqlGeneratorData,
+} from './sql-generator';
+
+const AT = new Date('2025-09-01T12:34:56.789Z');
+
+const data: SqlGeneratorData = {
+  roles: [
+    { id: 'r2', name: "Manager's Office", parent_role_id: 'r1' },
+    { id: 'r1', name: 'Employee', parent_role_id: null },
+  ],
+  actions: [
+    { id: 'a1', name: 'Approve Expense Reports', category: 'Finance', risk_level: 'high' },
+    { id: 'a2', name: 'View Project Reports', category: 'Projects', risk_level: 'low' },
+  ],
+  permissions: [
+    { role_id: 'r2', action_id: 'a1', status: 'conditional', limit_value: 10000, conditions: 'With Finance approval' },
+    { role_id: 'r1', action_id: 'a2', status: 'granted', valid_until: '2025-12-31T00:00:00+00:00' },
+    { role_id: 'gone', action_id: 'a2', status: 'granted' },
+  ],
+  exclusions: [
+    { user_id: 'ada', action_id: 'a1', status: 'denied' },
+    { user_id: 'nomail', action_id: 'a2', status: 'granted' },
+  ],
+  profiles: [
+    { id: 'ada', email: 'ada@example.com' },
+    { id: 'nomail', email: null },
+  ],
+};
+
+const options = { conditionalGrants: false, policyActionIds: [] };
+
+describe('quoteLiteral', () => {
+  it('doubles single quotes inside a string', () => {
+    expect(quoteLiteral("Manager's Office")).toBe("'Manager''s Office'");
+    expect(quoteLiteral("'; DROP TABLE authz_roles; --")).toBe("'''; DROP TABLE authz_roles; --'");
+  });
+
+  it('writes numbers bare and missing values as NULL', () => {
+    expect(quoteLiteral(10000)).toBe('10000');
+    expect(quoteLiteral(null)).toBe('NULL');
+    expect(quoteLiteral(undefined)).toBe('NULL');
+  });
+
+  it('keeps an empty string distinct from NULL', () => {
+    expect(quoteLiteral('')).toBe("''");
+  });
+});
+
+describe('quoteIdentifier', () => {
+  it('wraps the name in double quotes and doubles the ones inside', () => {
+    expect(quoteIdentifier('Approve invoice requires permission')).toBe('"Approve invoice requires permission"');
+    expect(quoteIdentifier('Say "hi"')).toBe('"Say ""hi"""');
+  });
+});
+
+describe('generateMatrixSql', () => {
+  it('names the migration after the generation time', () => {
+    expect(migrationFileName(AT)).toBe('20250901123456_authorization_matrix.sql');
+  });
+
+  it('gives the same file for the same matrix', () => {
+    const reordered = { ...data, roles: [...data.roles].reverse(), permissions: [...data.permissions].reverse() };
+    expect(generateMatrixSql(reordered, options, AT)).toBe(generateMatrixSql(data, options, AT));
+  });
+
+  it('writes roles with their parent and quotes every name', () => {
+    expect(generateMatrixSql(data, options, AT)).toContain(`INSERT INTO public.authz_roles (name, parent_name) VALUES
+  ('Employee', NULL),
+  ('Manager''s Office', 'Employee')`);
+  });
+
+  it('writes cells with normalized timestamps and leaves out cells of unknown roles', () => {
+    expect(generateMatrixSql(data, options, AT)).toContain(`INSERT INTO public.authz_permissions (role_name, action_name, status, limit_value, conditions, valid_from, valid_until) VALUES
+  ('Employee', 'View Project Reports', 'granted', NULL, NULL, NULL, '2025-12-31T00:00:00.000Z'),
+  ('Manager''s Office', 'Approve Expense Reports', 'conditional', 10000, 'With Finance approval', NULL, NULL);`);
+  });
+
+  it('writes overrides by email and leaves out users without one', () => {
+    expect(generateMatrixSql(data, options, AT)).toContain(`INSERT INTO public.authz_exclusions (user_email, action_name, status, valid_from, valid_until) VALUES
+  ('ada@example.com', 'Approve Expense Reports', 'denied', NULL, NULL);`);
+  });
+
+  it('writes a typed empty array when the matrix has no roles or actions', () => {
+    const sql = generateMatrixSql({ roles: [], actions: [], permissions: [], exclusions: [], profiles: [] }, options, AT);
+    expect(sql).toContain('DELETE FROM public.authz_roles WHERE name <> ALL (ARRAY[]::TEXT[]);');
+    expect(sql).toContain('DELETE FROM public.authz_actions WHERE name <> ALL (ARRAY[]::TEXT[]);');
+    expect(sql).not.toContain('INSERT INTO');
+  });
+
+  it('counts conditional cells as granted only when asked to', () => {
+    expect(generateMatrixSql(data, options, AT)).toContain("WHERE status IN ('granted')");
+    expect(generateMatrixSql(data, { ...options, conditionalGrants: true }, AT)).toContain("WHERE status IN ('granted', 'conditional')");
+  });
+
+  it('writes commented policy snippets for the chosen actions only', () => {
+    const sql = generateMatrixSql(data, { ...options, policyActionIds: ['a1'] }, AT);
+    expect(sql).toContain(`-- CREATE POLICY "Approve Expense Reports requires permission" ON public.your_table
+-- FOR ALL USING (public.has_permission('Approve Expense Reports'));`);
+    expect(sql).not.toContain('View Project Reports requires permission');
+  });
+});
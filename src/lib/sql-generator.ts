@@ -0,0 +1,258 @@
+// Generates a Postgres migration that carries the matrix into another database, so downstream apps
+// can check permissions in SQL instead of re-implementing the matrix by hand. The migration creates
+// snapshot tables of roles, actions, cells and user overrides, fills them with the current matrix and
+// adds has_permission(action_name), which resolves a user the way the matrix does: an override in
+// its validity window decides on its own, otherwise a role's own row wins over the nearest
+// ancestor's, and rows outside their validity window do not count.
+//
+// The downstream app fills authz_user_roles itself, keyed by auth.uid(). Overrides name the user by
+// email and are matched against auth.email(). Delegations and condition evaluation stay in this app
+// and are not generated, so access a user only has through a delegation is denied downstream.
+
+import type { PermissionStatus } from './permission-resolver';
+import type { RiskLevel } from './risk';
+
+export interface SqlGeneratorData {
+  roles: { id: string; name: string; parent_role_id?: string | null }[];
+  actions: { id: string; name: string; category: string; risk_level: RiskLevel }[];
+  permissions: {
+    role_id: string;
+    action_id: string;
+    status: PermissionStatus;
+    limit_value?: number | null;
+    conditions?: string | null;
+    valid_from?: string | null;
+    valid_until?: string | null;
+  }[];
+  exclusions: {
+    user_id: string;
+    action_id: string;
+    status: PermissionStatus;
+    valid_from?: string | null;
+    valid_until?: string | null;
+  }[];
+  profiles: { id: string; email?: string | null }[];
+}
+
+export interface SqlGeneratorOptions {
+  // Conditions cannot be checked in SQL, so conditional cells deny unless this is set
+  conditionalGrants: boolean;
+  // Actions to write a commented RLS policy snippet for
+  policyActionIds: string[];
+}
+
+// Plain code-unit order, so regenerating an unchanged matrix gives the same file
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const quoteLiteral = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+export const quoteIdentifier = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+const toTimestamp = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+
+// YYYYMMDDHHMMSS, the prefix the Supabase CLI orders migrations by
+export function migrationTimestamp(at: Date): string {
+  return at.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+export function migrationFileName(at: Date): string {
+  return `${migrationTimestamp(at)}_authorization_matrix.sql`;
+}
+
+const valuesList = (rows: string[][]) => rows.map(row => `  (${row.join(', ')})`).join(',\n');
+
+const SCHEMA = `CREATE TABLE IF NOT EXISTS public.authz_roles (
+  name TEXT PRIMARY KEY,
+  parent_name TEXT
+);
+
+CREATE TABLE IF NOT EXISTS public.authz_actions (
+  name TEXT PRIMARY KEY,
+  category TEXT NOT NULL,
+  risk_level TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.authz_permissions (
+  role_name TEXT NOT NULL REFERENCES public.authz_roles(name) ON DELETE CASCADE,
+  action_name TEXT NOT NULL REFERENCES public.authz_actions(name) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('granted', 'denied', 'conditional')),
+  limit_value NUMERIC,
+  conditions TEXT,
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (role_name, action_name)
+);
+
+-- Per-user overrides, matched by email; they decide before any role is looked at
+CREATE TABLE IF NOT EXISTS public.authz_exclusions (
+  user_email TEXT NOT NULL,
+  action_name TEXT NOT NULL REFERENCES public.authz_actions(name) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('granted', 'denied', 'conditional')),
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_email, action_name)
+);
+
+-- Maintained by the application: which roles each user holds
+CREATE TABLE IF NOT EXISTS public.authz_user_roles (
+  user_id UUID NOT NULL,
+  role_name TEXT NOT NULL REFERENCES public.authz_roles(name) ON DELETE CASCADE,
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_id, role_name)
+);
+
+-- Only has_permission reads the snapshot; users may see their own roles
+ALTER TABLE public.authz_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.authz_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.authz_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.authz_exclusions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.authz_user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own roles" ON public.authz_user_roles;
+CREATE POLICY "Users can view their own roles" ON public.authz_user_roles
+FOR SELECT USING (user_id = auth.uid());`;
+
+function hasPermissionFunction(options: SqlGeneratorOptions): string {
+  const allowed = options.conditionalGrants ? `('granted', 'conditional')` : `('granted')`;
+  return `-- True when the current user's override allows the action or, without an override, when one of
+-- their roles holds it. Each role resolves to its own row or else its nearest ancestor's;
+-- ${options.conditionalGrants
+    ? 'conditional cells count as granted, so check their conditions in the app.'
+    : 'conditional cells count as denied.'}
+CREATE OR REPLACE FUNCTION public.has_permission(action_name TEXT)
+RETURNS BOOLEAN AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT ur.role_name AS held_role, ur.role_name, 0 AS depth
+    FROM public.authz_user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND (ur.valid_from IS NULL OR ur.valid_from <= now())
+      AND (ur.valid_until IS NULL OR ur.valid_until > now())
+    UNION ALL
+    SELECT l.held_role, r.parent_name, l.depth + 1
+    FROM lineage l
+    JOIN public.authz_roles r ON r.name = l.role_name
+    WHERE r.parent_name IS NOT NULL AND l.depth < 32
+  ),
+  resolved AS (
+    SELECT DISTINCT ON (l.held_role) p.status
+    FROM lineage l
+    JOIN public.authz_permissions p ON p.role_name = l.role_name AND p.action_name = has_permission.action_name
+    WHERE (p.valid_from IS NULL OR p.valid_from <= now())
+      AND (p.valid_until IS NULL OR p.valid_until > now())
+    ORDER BY l.held_role, l.depth
+  ),
+  override AS (
+    SELECT e.status
+    FROM public.authz_exclusions e
+    WHERE lower(e.user_email) = lower(auth.email())
+      AND e.action_name = has_permission.action_name
+      AND (e.valid_from IS NULL OR e.valid_from <= now())
+      AND (e.valid_until IS NULL OR e.valid_until > now())
+  )
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM override) THEN EXISTS (SELECT 1 FROM override WHERE status IN ${allowed})
+    ELSE EXISTS (SELECT 1 FROM resolved WHERE status IN ${allowed})
+  END;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;`;
+}
+
+function policySnippets(data: SqlGeneratorData, options: SqlGeneratorOptions): string | null {
+  const actions = data.actions
+    .filter(action => options.policyActionIds.includes(action.id))
+    .sort((a, b) => compare(a.category, b.category) || compare(a.name, b.name));
+  if (actions.length === 0) return null;
+
+  const snippets = actions.map(action => {
+    const policyName = quoteIdentifier(`${action.name} requires permission`);
+    return [
+      `-- ${action.name} (${action.category}, ${action.risk_level} risk)`,
+      `-- CREATE POLICY ${policyName} ON public.your_table`,
+      `-- FOR ALL USING (public.has_permission(${quoteLiteral(action.name)}));`,
+    ].join('\n');
+  });
+
+  return `-- Policy snippets: point each at the table the action protects, narrow FOR ALL to the command it
+-- covers, and uncomment.
+${snippets.join('\n\n')}`;
+}
+
+export function generateMatrixSql(data: SqlGeneratorData, options: SqlGeneratorOptions, at: Date = new Date()): string {
+  const roleName = (roleId: string | null | undefined) => data.roles.find(role => role.id === roleId)?.name ?? null;
+  const actionName = (actionId: string) => data.actions.find(action => action.id === actionId)?.name ?? null;
+
+  const roles = [...data.roles].sort((a, b) => compare(a.name, b.name));
+  const actions = [...data.actions].sort((a, b) => compare(a.name, b.name));
+  const permissions = data.permissions
+    .map(permission => ({ ...permission, role: roleName(permission.role_id), action: actionName(permission.action_id) }))
+    .filter(permission => permission.role && permission.action)
+    .sort((a, b) => compare(a.role, b.role) || compare(a.action, b.action));
+  // Users without an email cannot be matched downstream
+  const exclusions = data.exclusions
+    .map(exclusion => ({
+      ...exclusion,
+      email: data.profiles.find(profile => profile.id === exclusion.user_id)?.email ?? null,
+      action: actionName(exclusion.action_id),
+    }))
+    .filter(exclusion => exclusion.email && exclusion.action)
+    .sort((a, b) => compare(a.email, b.email) || compare(a.action, b.action));
+
+  const sections = [
+    `-- Authorization matrix snapshot, generated ${at.toISOString()}.
+-- Regenerate rather than edit: the next snapshot replaces these rows.
+-- Delegations are not included: access a user only has through a delegation is denied here.`,
+    SCHEMA,
+  ];
+
+  if (roles.length > 0) {
+    sections.push(`INSERT INTO public.authz_roles (name, parent_name) VALUES
+${valuesList(roles.map(role => [quoteLiteral(role.name), quoteLiteral(roleName(role.parent_role_id))]))}
+ON CONFLICT (name) DO UPDATE SET parent_name = EXCLUDED.parent_name;`);
+  }
+  sections.push(`DELETE FROM public.authz_roles WHERE name <> ALL (ARRAY[${roles.map(role => quoteLiteral(role.name)).join(', ')}]::TEXT[]);`);
+
+  if (actions.length > 0) {
+    sections.push(`INSERT INTO public.authz_actions (name, category, risk_level) VALUES
+${valuesList(actions.map(action => [quoteLiteral(action.name), quoteLiteral(action.category), quoteLiteral(action.risk_level)]))}
+ON CONFLICT (name) DO UPDATE SET category = EXCLUDED.category, risk_level = EXCLUDED.risk_level;`);
+  }
+  sections.push(`DELETE FROM public.authz_actions WHERE name <> ALL (ARRAY[${actions.map(action => quoteLiteral(action.name)).join(', ')}]::TEXT[]);`);
+
+  // Cells are replaced wholesale; denied rows are kept since they override a parent's grant
+  sections.push('DELETE FROM public.authz_permissions;');
+  if (permissions.length > 0) {
+    sections.push(`INSERT INTO public.authz_permissions (role_name, action_name, status, limit_value, conditions, valid_from, valid_until) VALUES
+${valuesList(permissions.map(permission => [
+  quoteLiteral(permission.role),
+  quoteLiteral(permission.action),
+  quoteLiteral(permission.status),
+  quoteLiteral(permission.limit_value),
+  quoteLiteral(permission.conditions || null),
+  quoteLiteral(toTimestamp(permission.valid_from)),
+  quoteLiteral(toTimestamp(permission.valid_until)),
+]))};`);
+  }
+
+  sections.push('DELETE FROM public.authz_exclusions;');
+  if (exclusions.length > 0) {
+    sections.push(`INSERT INTO public.authz_exclusions (user_email, action_name, status, valid_from, valid_until) VALUES
+${valuesList(exclusions.map(exclusion => [
+  quoteLiteral(exclusion.email),
+  quoteLiteral(exclusion.action),
+  quoteLiteral(exclusion.status),
+  quoteLiteral(toTimestamp(exclusion.valid_from)),
+  quoteLiteral(toTimestamp(exclusion.valid_until)),
+]))};`);
+  }
+
+  sections.push(hasPermissionFunction(options));
+
+  const snippets = policySnippets(data, options);
+  if (snippets) sections.push(snippets);
+
+  return `${sections.join('\n\n')}\n`;
+}
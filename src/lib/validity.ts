@@ -0,0 +1,67 @@
+// Optional validity windows on permissions, user overrides and role assignments.
+// A missing bound is open-ended; valid_until is exclusive.
+
+export interface ValidityWindow {
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+export const EXPIRING_SOON_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isActive(entry: ValidityWindow, at: Date = new Date()): boolean {
+  if (entry.valid_from && new Date(entry.valid_from) > at) return false;
+  if (entry.valid_until && new Date(entry.valid_until) <= at) return false;
+  return true;
+}
+
+export function isExpired(entry: ValidityWindow, at: Date = new Date()): boolean {
+  return !!entry.valid_until && new Date(entry.valid_until) <= at;
+}
+
+// Active now and ending within the given number of days
+export function isExpiringSoon(entry: ValidityWindow, days = EXPIRING_SOON_DAYS, at: Date = new Date()): boolean {
+  if (!entry.valid_until || !isActive(entry, at)) return false;
+  return new Date(entry.valid_until).getTime() - at.getTime() <= days * DAY_MS;
+}
+
+export function daysUntil(timestamp: string, at: Date = new Date()): number {
+  return Math.ceil((new Date(timestamp).getTime() - at.getTime()) / DAY_MS);
+}
+
+// Date inputs work in whole local days: a window starts at the beginning of
+// valid_from and ends after the last moment of valid_until.
+export function toDateInputValue(timestamp: string | null | undefined, bound: 'from' | 'until'): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  // An exclusive end belongs to the day before it
+  if (bound === 'until') date.setMilliseconds(date.getMilliseconds() - 1);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+export function fromDateInputValue(value: string, bound: 'from' | 'until'): string | null {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = bound === 'from'
+    ? new Date(year, month - 1, day)
+    : new Date(year, month - 1, day + 1);
+  return date.toISOString();
+}
+
+export function formatValidityDate(timestamp: string, bound: 'from' | 'until'): string {
+  const date = new Date(timestamp);
+  if (bound === 'until') date.setMilliseconds(date.getMilliseconds() - 1);
+  return date.toLocaleDateString();
+}
+
+export function validateValidityWindow(entry: ValidityWindow): string | null {
+  if (entry.valid_from && entry.valid_until && new Date(entry.valid_until) <= new Date(entry.valid_from)) {
+    return 'The end date must be after the start date';
+  }
+  return null;
+}
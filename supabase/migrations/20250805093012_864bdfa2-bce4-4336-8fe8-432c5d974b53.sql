@@ -0,0 +1,26 @@
+-- Turn permission exclusions into full per-user overrides. Every existing row was a deny, so it is
+-- backfilled as one; from then on writers must name the status.
+ALTER TABLE public.permission_exclusions
+  ADD COLUMN status public.permission_status NOT NULL DEFAULT 'denied',
+  ADD COLUMN conditions TEXT,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.permission_exclusions
+  ALTER COLUMN status DROP DEFAULT;
+
+-- Every override must be justified
+UPDATE public.permission_exclusions
+SET reason = 'No reason recorded'
+WHERE reason IS NULL OR btrim(reason) = '';
+
+ALTER TABLE public.permission_exclusions
+  ALTER COLUMN reason SET NOT NULL,
+  ADD CONSTRAINT permission_exclusions_reason_not_blank CHECK (btrim(reason) <> '');
+
+CREATE TRIGGER update_permission_exclusions_updated_at BEFORE UPDATE ON public.permission_exclusions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only admins manage user overrides
+DROP POLICY IF EXISTS "Authenticated users can manage exclusions" ON public.permission_exclusions;
+
+CREATE POLICY "Exclusions manageable by admins" ON public.permission_exclusions
+FOR ALL USING (public.is_admin());
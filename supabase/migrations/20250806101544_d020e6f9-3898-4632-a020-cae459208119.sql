@@ -0,0 +1,38 @@
+-- Parent/child role hierarchy: a role inherits its parent's grants unless it overrides them
+ALTER TABLE public.roles
+  ADD COLUMN parent_role_id UUID REFERENCES public.roles(id) ON DELETE SET NULL,
+  ADD CONSTRAINT roles_parent_not_self CHECK (parent_role_id IS NULL OR parent_role_id <> id);
+
+CREATE INDEX idx_roles_parent_role_id ON public.roles(parent_role_id);
+
+-- Reject any parent assignment that would make a role its own ancestor
+CREATE OR REPLACE FUNCTION public.prevent_role_hierarchy_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_role_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT r.id, r.parent_role_id
+      FROM public.roles r
+      WHERE r.id = NEW.parent_role_id
+      UNION
+      SELECT r.id, r.parent_role_id
+      FROM public.roles r
+      JOIN ancestors a ON r.id = a.parent_role_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Role hierarchy cycle: role % cannot inherit from %', NEW.id, NEW.parent_role_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_role_hierarchy_cycle
+  BEFORE INSERT OR UPDATE OF parent_role_id ON public.roles
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_role_hierarchy_cycle();
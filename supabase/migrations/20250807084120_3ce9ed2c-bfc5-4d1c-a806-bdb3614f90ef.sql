@@ -0,0 +1,48 @@
+-- Replace the single profiles.role_id with a many-to-many user <-> role assignment
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, role_id)
+);
+
+CREATE INDEX idx_user_roles_role_id ON public.user_roles(role_id);
+
+-- Carry over existing single-role assignments
+INSERT INTO public.user_roles (user_id, role_id)
+SELECT p.id, p.role_id
+FROM public.profiles p
+WHERE p.role_id IS NOT NULL;
+
+-- All role names held by a user
+CREATE OR REPLACE FUNCTION public.get_user_roles(user_uuid uuid)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(r.name ORDER BY r.name), ARRAY[]::TEXT[])
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  JOIN public.roles r ON r.id = ur.role_id
+  WHERE p.user_id = user_uuid;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT 'Admin' = ANY(public.get_user_roles(auth.uid()));
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit()
+RETURNS BOOLEAN AS $$
+  SELECT public.get_user_roles(auth.uid()) && ARRAY['Edit & View', 'Admin'];
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+DROP FUNCTION public.get_user_role(uuid);
+
+ALTER TABLE public.profiles DROP COLUMN role_id;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Role assignments visible to authenticated users" ON public.user_roles
+FOR SELECT USING (true);
+
+CREATE POLICY "Role assignments manageable by admins" ON public.user_roles
+FOR ALL USING (public.is_admin());
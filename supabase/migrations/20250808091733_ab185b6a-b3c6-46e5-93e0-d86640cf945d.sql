@@ -0,0 +1,108 @@
+-- Structured conditions: a JSON list of typed clauses (all must hold) alongside the free-text column.
+-- Rows whose text cannot be parsed keep condition_spec NULL and are flagged for review.
+ALTER TABLE public.permissions
+  ADD COLUMN condition_spec JSONB,
+  ADD COLUMN condition_needs_review BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.permission_exclusions
+  ADD COLUMN condition_spec JSONB,
+  ADD COLUMN condition_needs_review BOOLEAN NOT NULL DEFAULT false;
+
+-- Mirrors parseCondition in src/lib/conditions.ts, so text the editor accepts parses the same here
+CREATE OR REPLACE FUNCTION public.parse_condition_clause(clause TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  c TEXT := regexp_replace(btrim(clause), '\.$', '');
+  m TEXT[];
+BEGIN
+  IF c IS NULL OR c = '' THEN
+    RETURN NULL;
+  END IF;
+
+  m := regexp_match(c, '^up to \$?([0-9][0-9,]*(\.[0-9]+)?)$', 'i');
+  IF m IS NOT NULL THEN
+    RETURN jsonb_build_object('type', 'amount', 'max', replace(m[1], ',', '')::NUMERIC);
+  END IF;
+
+  m := regexp_match(c, '^with (.+?) approval$', 'i');
+  IF m IS NULL THEN
+    m := regexp_match(c, '^(.+?) approval required$', 'i');
+  END IF;
+  IF m IS NOT NULL THEN
+    RETURN jsonb_build_object('type', 'approval', 'role', btrim(m[1]));
+  END IF;
+
+  -- One environment or a list such as 'Staging, development or production environments only'
+  m := regexp_match(
+    c,
+    '^((?:development|staging|production)(?:(?:,| or | and )\s*(?:development|staging|production))*) environments? only$',
+    'i'
+  );
+  IF m IS NOT NULL THEN
+    RETURN jsonb_build_object('type', 'environment', 'environments', (
+      SELECT jsonb_agg(listed.env ORDER BY listed.first_position)
+      FROM (
+        SELECT btrim(e) AS env, min(ord) AS first_position
+        FROM unnest(regexp_split_to_array(lower(m[1]), ',| or | and ')) WITH ORDINALITY AS t(e, ord)
+        WHERE btrim(e) <> ''
+        GROUP BY btrim(e)
+      ) listed
+    ));
+  END IF;
+
+  IF c ~* '^(within )?assigned projects only$' THEN
+    RETURN jsonb_build_object('type', 'scope', 'scope', 'project');
+  END IF;
+
+  IF c ~* '^own (records|data) only$' THEN
+    RETURN jsonb_build_object('type', 'scope', 'scope', 'own');
+  END IF;
+
+  m := regexp_match(c, '^(department|team)( level)? only$', 'i');
+  IF m IS NOT NULL THEN
+    RETURN jsonb_build_object('type', 'scope', 'scope', lower(m[1]));
+  END IF;
+
+  m := regexp_match(c, '^(.+?) (department|team)( level)? only$', 'i');
+  IF m IS NOT NULL THEN
+    RETURN jsonb_build_object('type', 'scope', 'scope', lower(m[2]), 'unit', btrim(m[1]));
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Parses semicolon-separated clauses; returns NULL if any clause is not understood
+CREATE OR REPLACE FUNCTION public.parse_condition_text(condition_text TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  clause TEXT;
+  parsed JSONB;
+  result JSONB := '[]'::JSONB;
+BEGIN
+  IF condition_text IS NULL OR btrim(condition_text) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  FOREACH clause IN ARRAY string_to_array(condition_text, ';') LOOP
+    CONTINUE WHEN btrim(clause) = '';
+    parsed := public.parse_condition_clause(clause);
+    IF parsed IS NULL THEN
+      RETURN NULL;
+    END IF;
+    result := result || jsonb_build_array(parsed);
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+UPDATE public.permissions
+SET condition_spec = public.parse_condition_text(conditions),
+    condition_needs_review = public.parse_condition_text(conditions) IS NULL
+WHERE conditions IS NOT NULL AND btrim(conditions) <> '';
+
+UPDATE public.permission_exclusions
+SET condition_spec = public.parse_condition_text(conditions),
+    condition_needs_review = public.parse_condition_text(conditions) IS NULL
+WHERE conditions IS NOT NULL AND btrim(conditions) <> '';
@@ -0,0 +1,24 @@
+-- Risk classification for actions
+CREATE TYPE public.risk_level AS ENUM ('low', 'medium', 'high', 'critical');
+
+ALTER TABLE public.actions
+  ADD COLUMN risk_level public.risk_level NOT NULL DEFAULT 'low';
+
+UPDATE public.actions SET risk_level = CASE name
+  WHEN 'Create User Account' THEN 'medium'
+  WHEN 'Delete User Account' THEN 'high'
+  WHEN 'View User Profiles' THEN 'low'
+  WHEN 'Approve Expense Reports' THEN 'medium'
+  WHEN 'Process Payroll' THEN 'critical'
+  WHEN 'Access Financial Reports' THEN 'high'
+  WHEN 'Manage Projects' THEN 'low'
+  WHEN 'Assign Tasks' THEN 'low'
+  WHEN 'View Project Reports' THEN 'low'
+  WHEN 'Access HR Records' THEN 'high'
+  WHEN 'Conduct Performance Reviews' THEN 'medium'
+  WHEN 'Manage Benefits' THEN 'medium'
+  WHEN 'System Administration' THEN 'critical'
+  WHEN 'Database Access' THEN 'critical'
+  WHEN 'Security Configuration' THEN 'critical'
+  ELSE risk_level
+END::public.risk_level;
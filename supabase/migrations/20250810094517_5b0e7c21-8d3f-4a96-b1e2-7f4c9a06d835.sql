@@ -0,0 +1,37 @@
+-- Segregation of duties: pairs of actions that no single role or user may hold together
+CREATE TYPE public.sod_enforcement AS ENUM ('warn', 'block');
+
+CREATE TABLE public.sod_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  action_a_id UUID NOT NULL REFERENCES public.actions(id) ON DELETE CASCADE,
+  action_b_id UUID NOT NULL REFERENCES public.actions(id) ON DELETE CASCADE,
+  enforcement public.sod_enforcement NOT NULL DEFAULT 'warn',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT sod_rules_distinct_actions CHECK (action_a_id <> action_b_id)
+);
+
+-- A pair is the same rule whichever way round it was entered
+CREATE UNIQUE INDEX idx_sod_rules_action_pair ON public.sod_rules (LEAST(action_a_id, action_b_id), GREATEST(action_a_id, action_b_id));
+
+CREATE TRIGGER update_sod_rules_updated_at BEFORE UPDATE ON public.sod_rules FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.sod_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "SoD rules visible to authenticated users" ON public.sod_rules
+FOR SELECT USING (true);
+
+CREATE POLICY "SoD rules manageable by admins" ON public.sod_rules
+FOR ALL USING (public.is_admin());
+
+-- Starter rules for the seeded actions
+INSERT INTO public.sod_rules (name, description, action_a_id, action_b_id, enforcement)
+SELECT r.name, r.description, a.id, b.id, r.enforcement::public.sod_enforcement
+FROM (VALUES
+  ('Expense approval vs payroll', 'Whoever approves expenses must not also pay them out', 'Approve Expense Reports', 'Process Payroll', 'block'),
+  ('Security vs data access', 'Security configuration and direct database access should be held by different people', 'Security Configuration', 'Database Access', 'warn')
+) AS r(name, description, action_a, action_b, enforcement)
+JOIN public.actions a ON a.name = r.action_a
+JOIN public.actions b ON b.name = r.action_b;
@@ -0,0 +1,31 @@
+-- Optional validity windows; NULL bounds are open-ended and an entry outside its window is inactive
+ALTER TABLE public.permissions
+  ADD COLUMN valid_from TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN valid_until TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT permissions_validity_window CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from);
+
+ALTER TABLE public.permission_exclusions
+  ADD COLUMN valid_from TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN valid_until TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT permission_exclusions_validity_window CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from);
+
+ALTER TABLE public.user_roles
+  ADD COLUMN valid_from TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN valid_until TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT user_roles_validity_window CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from);
+
+CREATE INDEX idx_permissions_valid_until ON public.permissions(valid_until) WHERE valid_until IS NOT NULL;
+CREATE INDEX idx_permission_exclusions_valid_until ON public.permission_exclusions(valid_until) WHERE valid_until IS NOT NULL;
+CREATE INDEX idx_user_roles_valid_until ON public.user_roles(valid_until) WHERE valid_until IS NOT NULL;
+
+-- Expired or not yet started assignments no longer count towards is_admin()/can_edit()
+CREATE OR REPLACE FUNCTION public.get_user_roles(user_uuid uuid)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(r.name ORDER BY r.name), ARRAY[]::TEXT[])
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.id
+  JOIN public.roles r ON r.id = ur.role_id
+  WHERE p.user_id = user_uuid
+    AND (ur.valid_from IS NULL OR ur.valid_from <= now())
+    AND (ur.valid_until IS NULL OR ur.valid_until > now());
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
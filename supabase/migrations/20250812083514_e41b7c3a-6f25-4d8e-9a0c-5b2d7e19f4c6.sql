@@ -0,0 +1,76 @@
+-- Append-only audit trail written by triggers, so every path into these tables is recorded
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID,
+  actor_email TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_table_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id);
+
+-- Decodes the percent-encoded x-change-reason header (HTTP headers cannot carry raw UTF-8)
+CREATE OR REPLACE FUNCTION public.url_decode(input TEXT)
+RETURNS TEXT AS $$
+  SELECT convert_from(
+    string_agg(
+      CASE WHEN t.m[1] IS NOT NULL THEN decode(substr(t.m[1], 2), 'hex') ELSE convert_to(t.m[2], 'UTF8') END,
+      ''::BYTEA ORDER BY t.n
+    ),
+    'UTF8'
+  )
+  FROM regexp_matches(input, '(%[0-9A-Fa-f]{2})|([^%]+)', 'g') WITH ORDINALITY AS t(m, n);
+$$ LANGUAGE SQL IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  change_reason TEXT;
+BEGIN
+  -- Ignore updates that only bump updated_at
+  IF TG_OP = 'UPDATE' AND (old_row - 'updated_at') = (new_row - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  change_reason := NULLIF(btrim(public.url_decode(
+    current_setting('request.headers', true)::JSONB ->> 'x-change-reason'
+  )), '');
+
+  INSERT INTO public.audit_log (table_name, record_id, operation, actor_id, actor_email, old_values, new_values, reason)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(new_row ->> 'id', old_row ->> 'id')::UUID,
+    TG_OP,
+    auth.uid(),
+    (SELECT p.email FROM public.profiles p WHERE p.user_id = auth.uid() LIMIT 1),
+    old_row,
+    new_row,
+    change_reason
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_roles AFTER INSERT OR UPDATE OR DELETE ON public.roles FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_actions AFTER INSERT OR UPDATE OR DELETE ON public.actions FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_permissions AFTER INSERT OR UPDATE OR DELETE ON public.permissions FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_profiles AFTER INSERT OR UPDATE OR DELETE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_permission_exclusions AFTER INSERT OR UPDATE OR DELETE ON public.permission_exclusions FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_user_roles AFTER INSERT OR UPDATE OR DELETE ON public.user_roles FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_sod_rules AFTER INSERT OR UPDATE OR DELETE ON public.sod_rules FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+-- Readable by admins only; there are no write policies, so entries cannot be edited or removed through the API
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Audit log visible to admins" ON public.audit_log
+FOR SELECT USING (public.is_admin());
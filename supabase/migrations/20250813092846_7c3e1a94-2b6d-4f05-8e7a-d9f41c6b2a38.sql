@@ -0,0 +1,138 @@
+-- Four-eyes control for matrix edits: editors propose, a different admin approves.
+-- Critical-risk actions always go through a request, even for admins.
+CREATE TYPE public.change_request_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+
+CREATE TABLE public.permission_change_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  action_id UUID NOT NULL REFERENCES public.actions(id) ON DELETE CASCADE,
+  -- 'upsert' writes proposed_values onto the cell, 'delete' removes the row so the cell inherits
+  operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')),
+  proposed_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- The cell as the requester saw it, for reviewers
+  current_values JSONB,
+  reason TEXT,
+  status public.change_request_status NOT NULL DEFAULT 'pending',
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per cell
+CREATE UNIQUE INDEX idx_permission_change_requests_pending_cell
+  ON public.permission_change_requests(role_id, action_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_permission_change_requests_status ON public.permission_change_requests(status);
+
+CREATE TRIGGER update_permission_change_requests_updated_at BEFORE UPDATE ON public.permission_change_requests FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_permission_change_requests AFTER INSERT OR UPDATE OR DELETE ON public.permission_change_requests FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE OR REPLACE FUNCTION public.current_profile_id()
+RETURNS UUID AS $$
+  SELECT id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_critical_action(action_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((SELECT risk_level = 'critical' FROM public.actions WHERE id = action_uuid), false);
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- Direct writes are now limited to admins on non-critical actions; everything else goes through a request
+DROP POLICY IF EXISTS "Authenticated users can manage permissions" ON public.permissions;
+DROP POLICY IF EXISTS "Permissions manageable by editors" ON public.permissions;
+
+CREATE POLICY "Permissions manageable by admins" ON public.permissions
+FOR ALL USING (public.is_admin() AND NOT public.is_critical_action(action_id))
+WITH CHECK (public.is_admin() AND NOT public.is_critical_action(action_id));
+
+ALTER TABLE public.permission_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Change requests visible to authenticated users" ON public.permission_change_requests
+FOR SELECT USING (true);
+
+CREATE POLICY "Change requests creatable by editors" ON public.permission_change_requests
+FOR INSERT WITH CHECK (
+  public.can_edit()
+  AND requested_by = public.current_profile_id()
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+);
+
+-- Applies the request and closes it in one transaction
+CREATE OR REPLACE FUNCTION public.approve_permission_change(request_id UUID, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  req public.permission_change_requests%ROWTYPE;
+  reviewer UUID := public.current_profile_id();
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve change requests';
+  END IF;
+
+  SELECT * INTO req FROM public.permission_change_requests WHERE id = request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', request_id;
+  END IF;
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change request is already %', req.status;
+  END IF;
+  IF req.requested_by = reviewer THEN
+    RAISE EXCEPTION 'A change request must be approved by someone other than its author';
+  END IF;
+
+  IF req.operation = 'delete' THEN
+    DELETE FROM public.permissions WHERE role_id = req.role_id AND action_id = req.action_id;
+  ELSE
+    INSERT INTO public.permissions (role_id, action_id, status)
+    VALUES (req.role_id, req.action_id, COALESCE((req.proposed_values ->> 'status')::public.permission_status, 'denied'))
+    ON CONFLICT (role_id, action_id) DO NOTHING;
+
+    -- Keys missing from proposed_values keep their current value
+    UPDATE public.permissions p
+    SET (status, limit_value, conditions, condition_spec, condition_needs_review, valid_from, valid_until) = (
+      SELECT r.status, r.limit_value, r.conditions, r.condition_spec, r.condition_needs_review, r.valid_from, r.valid_until
+      FROM jsonb_populate_record(p, req.proposed_values) r
+    )
+    WHERE p.role_id = req.role_id AND p.action_id = req.action_id;
+  END IF;
+
+  UPDATE public.permission_change_requests
+  SET status = 'approved', reviewed_by = reviewer, reviewed_at = now(), review_comment = comment
+  WHERE id = request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_permission_change(request_id UUID, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reject change requests';
+  END IF;
+
+  UPDATE public.permission_change_requests
+  SET status = 'rejected', reviewed_by = public.current_profile_id(), reviewed_at = now(), review_comment = comment
+  WHERE id = request_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending change request %', request_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Authors may withdraw their own pending request
+CREATE OR REPLACE FUNCTION public.cancel_permission_change(request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.permission_change_requests
+  SET status = 'cancelled', reviewed_at = now()
+  WHERE id = request_id AND status = 'pending' AND requested_by = public.current_profile_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending change request % of yours', request_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
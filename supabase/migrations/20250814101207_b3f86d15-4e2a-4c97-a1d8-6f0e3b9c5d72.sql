@@ -0,0 +1,151 @@
+-- Self-service access requests: users ask for an action or a role, admins or the role's owner decide
+ALTER TABLE public.roles
+  ADD COLUMN owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE TYPE public.access_request_status AS ENUM ('pending', 'approved', 'denied', 'cancelled');
+
+CREATE TABLE public.access_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  action_id UUID REFERENCES public.actions(id) ON DELETE CASCADE,
+  role_id UUID REFERENCES public.roles(id) ON DELETE CASCADE,
+  justification TEXT NOT NULL CHECK (btrim(justification) <> ''),
+  -- NULL asks for open-ended access
+  duration_days INTEGER CHECK (duration_days > 0),
+  status public.access_request_status NOT NULL DEFAULT 'pending',
+  approver_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT access_requests_single_target CHECK ((action_id IS NULL) <> (role_id IS NULL))
+);
+
+-- One open request per user and target
+CREATE UNIQUE INDEX idx_access_requests_pending_target
+  ON public.access_requests(requester_id, COALESCE(action_id, role_id))
+  WHERE status = 'pending';
+
+CREATE INDEX idx_access_requests_status ON public.access_requests(status);
+
+CREATE TRIGGER update_access_requests_updated_at BEFORE UPDATE ON public.access_requests FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_access_requests AFTER INSERT OR UPDATE OR DELETE ON public.access_requests FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+-- Admins decide every request; a role's owner decides requests for that role
+CREATE OR REPLACE FUNCTION public.can_decide_access_request(req public.access_requests)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_admin()
+    OR (req.role_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.roles r WHERE r.id = req.role_id AND r.owner_id = public.current_profile_id()
+    ));
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+ALTER TABLE public.access_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Access requests visible to requester and approvers" ON public.access_requests
+FOR SELECT USING (
+  requester_id = public.current_profile_id()
+  OR public.can_decide_access_request(access_requests)
+);
+
+CREATE POLICY "Access requests creatable by the requester" ON public.access_requests
+FOR INSERT WITH CHECK (
+  requester_id = public.current_profile_id()
+  AND status = 'pending'
+  AND approver_id IS NULL
+);
+
+-- Approval grants the access in the same transaction: a user override for an action,
+-- a role assignment for a role, limited to the requested duration. Access the user already has
+-- is only ever widened, and an override that denies the action is never replaced by approval.
+CREATE OR REPLACE FUNCTION public.decide_access_request(request_id UUID, approve BOOLEAN, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  req public.access_requests%ROWTYPE;
+  approver UUID := public.current_profile_id();
+  grant_from TIMESTAMP WITH TIME ZONE := now();
+  grant_until TIMESTAMP WITH TIME ZONE;
+  existing_status public.permission_status;
+  existing_from TIMESTAMP WITH TIME ZONE;
+  existing_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO req FROM public.access_requests WHERE id = request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access request % not found', request_id;
+  END IF;
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Access request is already %', req.status;
+  END IF;
+  IF NOT public.can_decide_access_request(req) THEN
+    RAISE EXCEPTION 'You cannot decide this access request';
+  END IF;
+  IF req.requester_id = approver THEN
+    RAISE EXCEPTION 'Users cannot decide their own access requests';
+  END IF;
+
+  IF approve THEN
+    grant_until := CASE WHEN req.duration_days IS NOT NULL THEN now() + make_interval(days => req.duration_days) END;
+
+    IF req.action_id IS NOT NULL THEN
+      SELECT e.status, e.valid_from, e.valid_until INTO existing_status, existing_from, existing_until
+      FROM public.permission_exclusions e
+      WHERE e.user_id = req.requester_id AND e.action_id = req.action_id
+      FOR UPDATE;
+    ELSE
+      SELECT ur.valid_from, ur.valid_until INTO existing_from, existing_until
+      FROM public.user_roles ur
+      WHERE ur.user_id = req.requester_id AND ur.role_id = req.role_id
+      FOR UPDATE;
+    END IF;
+
+    -- Rows that have already ended are simply replaced
+    IF FOUND AND (existing_until IS NULL OR existing_until > now()) THEN
+      IF existing_status = 'denied' THEN
+        RAISE EXCEPTION 'An override denies this action to the requester; lift it before approving access'
+          USING ERRCODE = 'check_violation';
+      END IF;
+      grant_from := CASE WHEN existing_from IS NULL THEN NULL ELSE LEAST(existing_from, grant_from) END;
+      grant_until := CASE WHEN existing_until IS NULL OR grant_until IS NULL THEN NULL ELSE GREATEST(existing_until, grant_until) END;
+    END IF;
+
+    IF req.action_id IS NOT NULL THEN
+      INSERT INTO public.permission_exclusions (user_id, action_id, status, reason, valid_from, valid_until)
+      VALUES (req.requester_id, req.action_id, 'granted', 'Access request: ' || req.justification, grant_from, grant_until)
+      ON CONFLICT (user_id, action_id) DO UPDATE
+      SET status = 'granted',
+          conditions = NULL,
+          condition_spec = NULL,
+          condition_needs_review = false,
+          reason = EXCLUDED.reason,
+          valid_from = EXCLUDED.valid_from,
+          valid_until = EXCLUDED.valid_until;
+    ELSE
+      INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+      VALUES (req.requester_id, req.role_id, grant_from, grant_until)
+      ON CONFLICT (user_id, role_id) DO UPDATE
+      SET valid_from = EXCLUDED.valid_from,
+          valid_until = EXCLUDED.valid_until;
+    END IF;
+  END IF;
+
+  UPDATE public.access_requests
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'denied' END::public.access_request_status,
+      approver_id = approver,
+      decided_at = now(),
+      decision_comment = comment
+  WHERE id = request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_access_request(request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.access_requests
+  SET status = 'cancelled', decided_at = now()
+  WHERE id = request_id AND status = 'pending' AND requester_id = public.current_profile_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending access request % of yours', request_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
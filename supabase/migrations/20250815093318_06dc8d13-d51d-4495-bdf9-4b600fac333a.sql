@@ -0,0 +1,199 @@
+-- Access recertification: a campaign snapshots the role assignments and granting overrides in scope,
+-- reviewers certify or revoke each one, and closing the campaign applies the revocations
+CREATE TYPE public.recertification_campaign_status AS ENUM ('open', 'closed');
+CREATE TYPE public.recertification_decision AS ENUM ('pending', 'certify', 'revoke');
+
+CREATE TABLE public.recertification_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  -- Empty arrays leave that dimension unrestricted
+  role_ids UUID[] NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  risk_levels public.risk_level[] NOT NULL DEFAULT '{}',
+  due_date TIMESTAMP WITH TIME ZONE,
+  status public.recertification_campaign_status NOT NULL DEFAULT 'open',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  closed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  sign_off_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.recertification_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.recertification_campaigns(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('role_assignment', 'exclusion')),
+  -- The user_roles or permission_exclusions row under review; no foreign key, revocation deletes it
+  source_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role_id UUID REFERENCES public.roles(id) ON DELETE CASCADE,
+  action_id UUID REFERENCES public.actions(id) ON DELETE CASCADE,
+  granted_until TIMESTAMP WITH TIME ZONE,
+  -- NULL routes the item to admins
+  reviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decision public.recertification_decision NOT NULL DEFAULT 'pending',
+  decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  comment TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(campaign_id, item_type, source_id)
+);
+
+CREATE INDEX idx_recertification_items_campaign ON public.recertification_items(campaign_id);
+CREATE INDEX idx_recertification_items_reviewer ON public.recertification_items(reviewer_id);
+
+CREATE TRIGGER update_recertification_campaigns_updated_at BEFORE UPDATE ON public.recertification_campaigns FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_recertification_items_updated_at BEFORE UPDATE ON public.recertification_items FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_recertification_campaigns AFTER INSERT OR UPDATE OR DELETE ON public.recertification_campaigns FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_recertification_items AFTER INSERT OR UPDATE OR DELETE ON public.recertification_items FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+-- Campaigns and items are only written through the functions below
+ALTER TABLE public.recertification_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recertification_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Recertification campaigns visible to authenticated users" ON public.recertification_campaigns
+FOR SELECT USING (true);
+
+CREATE POLICY "Recertification items visible to admins and reviewers" ON public.recertification_items
+FOR SELECT USING (public.is_admin() OR reviewer_id = public.current_profile_id());
+
+-- Roles narrow the assignments under review. Categories and risk levels narrow both assignments,
+-- to roles that grant a matching action themselves or through a parent, and overrides, to matching
+-- actions. Overrides are left out of campaigns scoped to specific roles.
+CREATE OR REPLACE FUNCTION public.launch_recertification_campaign(
+  campaign_name TEXT,
+  campaign_description TEXT DEFAULT NULL,
+  scope_role_ids UUID[] DEFAULT '{}',
+  scope_categories TEXT[] DEFAULT '{}',
+  scope_risk_levels public.risk_level[] DEFAULT '{}',
+  due TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_campaign_id UUID;
+  has_action_scope BOOLEAN := cardinality(scope_categories) > 0 OR cardinality(scope_risk_levels) > 0;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can launch recertification campaigns';
+  END IF;
+
+  INSERT INTO public.recertification_campaigns (name, description, role_ids, categories, risk_levels, due_date, created_by)
+  VALUES (campaign_name, campaign_description, scope_role_ids, scope_categories, scope_risk_levels, due, public.current_profile_id())
+  RETURNING id INTO new_campaign_id;
+
+  INSERT INTO public.recertification_items (campaign_id, item_type, source_id, user_id, role_id, granted_until, reviewer_id)
+  SELECT new_campaign_id, 'role_assignment', ur.id, ur.user_id, ur.role_id, ur.valid_until,
+         CASE WHEN r.owner_id <> ur.user_id THEN r.owner_id END
+  FROM public.user_roles ur
+  JOIN public.roles r ON r.id = ur.role_id
+  WHERE (ur.valid_until IS NULL OR ur.valid_until > now())
+    AND (cardinality(scope_role_ids) = 0 OR ur.role_id = ANY(scope_role_ids))
+    AND (NOT has_action_scope OR EXISTS (
+      WITH RECURSIVE lineage(id) AS (
+        SELECT ur.role_id
+        UNION
+        SELECT parent.parent_role_id FROM public.roles parent JOIN lineage l ON parent.id = l.id
+        WHERE parent.parent_role_id IS NOT NULL
+      )
+      SELECT 1 FROM lineage l
+      JOIN public.permissions p ON p.role_id = l.id AND p.status <> 'denied'
+      JOIN public.actions a ON a.id = p.action_id
+      WHERE (cardinality(scope_categories) = 0 OR a.category = ANY(scope_categories))
+        AND (cardinality(scope_risk_levels) = 0 OR a.risk_level = ANY(scope_risk_levels))
+    ));
+
+  IF cardinality(scope_role_ids) = 0 THEN
+    INSERT INTO public.recertification_items (campaign_id, item_type, source_id, user_id, action_id, granted_until)
+    SELECT new_campaign_id, 'exclusion', pe.id, pe.user_id, pe.action_id, pe.valid_until
+    FROM public.permission_exclusions pe
+    JOIN public.actions a ON a.id = pe.action_id
+    WHERE pe.status <> 'denied'
+      AND (pe.valid_until IS NULL OR pe.valid_until > now())
+      AND (cardinality(scope_categories) = 0 OR a.category = ANY(scope_categories))
+      AND (cardinality(scope_risk_levels) = 0 OR a.risk_level = ANY(scope_risk_levels));
+  END IF;
+
+  RETURN new_campaign_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.decide_recertification_item(item_id UUID, decision public.recertification_decision, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  item public.recertification_items%ROWTYPE;
+  reviewer UUID := public.current_profile_id();
+BEGIN
+  IF decision = 'pending' THEN
+    RAISE EXCEPTION 'Choose certify or revoke';
+  END IF;
+
+  SELECT * INTO item FROM public.recertification_items WHERE id = item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recertification item % not found', item_id;
+  END IF;
+  IF NOT public.is_admin() AND item.reviewer_id IS DISTINCT FROM reviewer THEN
+    RAISE EXCEPTION 'You are not a reviewer of this item';
+  END IF;
+  IF item.user_id = reviewer THEN
+    RAISE EXCEPTION 'Users cannot recertify their own access';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.recertification_campaigns WHERE id = item.campaign_id AND status <> 'open') THEN
+    RAISE EXCEPTION 'The campaign is closed';
+  END IF;
+
+  UPDATE public.recertification_items
+  SET decision = decide_recertification_item.decision,
+      decided_by = reviewer,
+      decided_at = now(),
+      comment = decide_recertification_item.comment
+  WHERE id = item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes every revoked assignment or override and signs the campaign off; returns the number revoked.
+-- Items nobody reviewed stay pending and keep their access.
+CREATE OR REPLACE FUNCTION public.close_recertification_campaign(campaign_id UUID, sign_off_note TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  revoked_count INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close recertification campaigns';
+  END IF;
+
+  PERFORM 1 FROM public.recertification_campaigns c
+  WHERE c.id = close_recertification_campaign.campaign_id AND c.status = 'open'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open campaign %', close_recertification_campaign.campaign_id;
+  END IF;
+
+  DELETE FROM public.user_roles ur
+  USING public.recertification_items i
+  WHERE i.campaign_id = close_recertification_campaign.campaign_id
+    AND i.item_type = 'role_assignment' AND i.decision = 'revoke' AND ur.id = i.source_id;
+
+  DELETE FROM public.permission_exclusions pe
+  USING public.recertification_items i
+  WHERE i.campaign_id = close_recertification_campaign.campaign_id
+    AND i.item_type = 'exclusion' AND i.decision = 'revoke' AND pe.id = i.source_id;
+
+  UPDATE public.recertification_items i
+  SET revoked_at = now()
+  WHERE i.campaign_id = close_recertification_campaign.campaign_id AND i.decision = 'revoke';
+  GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+  UPDATE public.recertification_campaigns c
+  SET status = 'closed',
+      closed_by = public.current_profile_id(),
+      closed_at = now(),
+      sign_off_note = close_recertification_campaign.sign_off_note
+  WHERE c.id = close_recertification_campaign.campaign_id;
+
+  RETURN revoked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,45 @@
+-- Delegation of authority: a user lends some or all of their effective permissions to another user
+-- for a date range, optionally capped at a lower limit. Nothing has to run at expiry, a delegation
+-- outside its window is simply ignored by the resolver.
+CREATE TABLE public.delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delegator_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Empty delegates every action the delegator holds
+  action_ids UUID[] NOT NULL DEFAULT '{}',
+  limit_value INTEGER CHECK (limit_value >= 0),
+  reason TEXT,
+  valid_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT delegations_distinct_users CHECK (delegator_id <> delegate_id),
+  CONSTRAINT delegations_validity_window CHECK (valid_until > valid_from)
+);
+
+CREATE INDEX idx_delegations_delegate ON public.delegations(delegate_id);
+CREATE INDEX idx_delegations_delegator ON public.delegations(delegator_id);
+CREATE INDEX idx_delegations_valid_until ON public.delegations(valid_until);
+
+CREATE TRIGGER update_delegations_updated_at BEFORE UPDATE ON public.delegations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_delegations AFTER INSERT OR UPDATE OR DELETE ON public.delegations FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+ALTER TABLE public.delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Delegations visible to authenticated users" ON public.delegations
+FOR SELECT USING (true);
+
+-- Users delegate their own authority; admins may set up a delegation on someone's behalf
+CREATE POLICY "Delegations creatable by the delegator" ON public.delegations
+FOR INSERT WITH CHECK (
+  (delegator_id = public.current_profile_id() OR public.is_admin())
+  AND created_by = public.current_profile_id()
+);
+
+CREATE POLICY "Delegations manageable by the delegator" ON public.delegations
+FOR UPDATE USING (delegator_id = public.current_profile_id() OR public.is_admin())
+WITH CHECK (delegator_id = public.current_profile_id() OR public.is_admin());
+
+CREATE POLICY "Delegations removable by the delegator" ON public.delegations
+FOR DELETE USING (delegator_id = public.current_profile_id() OR public.is_admin());
@@ -0,0 +1,118 @@
+-- Org units: a tree of departments and teams. Roles and users each belong to at most one unit,
+-- and "own department/team only" conditions compare the requester's unit with the target's.
+CREATE TABLE public.org_units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  kind TEXT NOT NULL DEFAULT 'department' CHECK (kind IN ('department', 'team')),
+  parent_id UUID REFERENCES public.org_units(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT org_units_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX idx_org_units_parent_id ON public.org_units(parent_id);
+
+ALTER TABLE public.roles
+  ADD COLUMN org_unit_id UUID REFERENCES public.org_units(id) ON DELETE SET NULL;
+
+ALTER TABLE public.profiles
+  ADD COLUMN org_unit_id UUID REFERENCES public.org_units(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_roles_org_unit_id ON public.roles(org_unit_id);
+CREATE INDEX idx_profiles_org_unit_id ON public.profiles(org_unit_id);
+
+-- Reject any parent assignment that would make a unit its own ancestor
+CREATE OR REPLACE FUNCTION public.prevent_org_unit_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT u.id, u.parent_id
+      FROM public.org_units u
+      WHERE u.id = NEW.parent_id
+      UNION
+      SELECT u.id, u.parent_id
+      FROM public.org_units u
+      JOIN ancestors a ON u.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Org unit cycle: unit % cannot be placed under %', NEW.id, NEW.parent_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_org_unit_cycle
+  BEFORE INSERT OR UPDATE OF parent_id ON public.org_units
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_org_unit_cycle();
+
+-- Unit membership decides what "own department" means, so users cannot move themselves
+CREATE OR REPLACE FUNCTION public.protect_profile_org_unit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.org_unit_id IS DISTINCT FROM OLD.org_unit_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change a user''s org unit'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_profile_org_unit
+  BEFORE UPDATE OF org_unit_id ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_org_unit();
+
+CREATE TRIGGER update_org_units_updated_at BEFORE UPDATE ON public.org_units FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_org_units AFTER INSERT OR UPDATE OR DELETE ON public.org_units FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+ALTER TABLE public.org_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org units visible to authenticated users" ON public.org_units
+FOR SELECT USING (true);
+
+CREATE POLICY "Org units manageable by admins" ON public.org_units
+FOR ALL USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- Nearest unit of the given kind at or above the unit, e.g. the department a team belongs to
+CREATE OR REPLACE FUNCTION public.enclosing_org_unit(unit_id UUID, unit_kind TEXT)
+RETURNS UUID AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT u.id, u.parent_id, u.kind, 0 AS depth
+    FROM public.org_units u
+    WHERE u.id = unit_id
+    UNION
+    SELECT u.id, u.parent_id, u.kind, l.depth + 1
+    FROM public.org_units u
+    JOIN lineage l ON u.id = l.parent_id
+    WHERE l.depth < 100
+  )
+  SELECT id FROM lineage WHERE kind = unit_kind ORDER BY depth LIMIT 1;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- Enforces an "own department/team only" condition: is the target unit inside the current
+-- user's department (or team)? Usable from the RLS policies of business tables.
+CREATE OR REPLACE FUNCTION public.in_requester_org_unit(target_unit_id UUID, unit_kind TEXT DEFAULT 'department')
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT public.enclosing_org_unit(p.org_unit_id, unit_kind) = public.enclosing_org_unit(target_unit_id, unit_kind)
+    FROM public.profiles p
+    WHERE p.id = public.current_profile_id()
+  ), false);
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- Departments named by the legacy role list and existing scope conditions
+INSERT INTO public.org_units (name, kind) VALUES
+  ('Executive', 'department'),
+  ('Finance', 'department'),
+  ('HR', 'department'),
+  ('Operations', 'department'),
+  ('Technology', 'department')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,323 @@
+-- Break-glass emergency access: a user elevates themselves to a predefined role for a short, fixed
+-- window. A reason is mandatory, every admin is notified in-app, a post-incident review is opened,
+-- and every change made during the window is tagged in the audit log.
+
+-- NULL means the role cannot be used for break-glass; otherwise the fixed length of the window
+ALTER TABLE public.roles
+  ADD COLUMN break_glass_minutes INTEGER CHECK (break_glass_minutes BETWEEN 5 AND 480);
+
+CREATE TABLE public.break_glass_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set when the elevation is given up before it expires
+  ended_at TIMESTAMP WITH TIME ZONE,
+  ended_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- A scheduled assignment of the role that the elevation took over, restored if it ends early;
+  -- NULL when the user had none
+  replaced_valid_from TIMESTAMP WITH TIME ZONE,
+  replaced_valid_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT break_glass_sessions_window CHECK (expires_at > started_at)
+);
+
+CREATE INDEX idx_break_glass_sessions_user_id ON public.break_glass_sessions(user_id, expires_at DESC);
+
+CREATE TYPE public.post_incident_review_status AS ENUM ('open', 'completed');
+
+-- One mandatory review per session, opened together with the session
+CREATE TABLE public.post_incident_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL UNIQUE REFERENCES public.break_glass_sessions(id) ON DELETE CASCADE,
+  status public.post_incident_review_status NOT NULL DEFAULT 'open',
+  findings TEXT,
+  reviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_incident_reviews_status ON public.post_incident_reviews(status);
+
+-- In-app notifications, written only by SECURITY DEFINER functions
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- The record the notification is about, e.g. a break-glass session
+  related_table TEXT,
+  related_id UUID,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_recipient ON public.notifications(recipient_id, created_at DESC);
+
+-- No foreign key: audit entries outlive the sessions they refer to
+ALTER TABLE public.audit_log
+  ADD COLUMN break_glass_session_id UUID;
+
+CREATE INDEX idx_audit_log_break_glass_session_id ON public.audit_log(break_glass_session_id)
+  WHERE break_glass_session_id IS NOT NULL;
+
+CREATE TRIGGER update_post_incident_reviews_updated_at BEFORE UPDATE ON public.post_incident_reviews FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_break_glass_sessions AFTER INSERT OR UPDATE OR DELETE ON public.break_glass_sessions FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+CREATE TRIGGER audit_post_incident_reviews AFTER INSERT OR UPDATE OR DELETE ON public.post_incident_reviews FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE OR REPLACE FUNCTION public.active_break_glass_session(profile_uuid UUID)
+RETURNS UUID AS $$
+  SELECT s.id
+  FROM public.break_glass_sessions s
+  WHERE s.user_id = profile_uuid
+    AND s.ended_at IS NULL
+    AND s.started_at <= now()
+    AND s.expires_at > now()
+  ORDER BY s.started_at DESC
+  LIMIT 1;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- Same as before, plus the actor's active break-glass session if there is one
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  change_reason TEXT;
+BEGIN
+  -- Ignore updates that only bump updated_at
+  IF TG_OP = 'UPDATE' AND (old_row - 'updated_at') = (new_row - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  change_reason := NULLIF(btrim(public.url_decode(
+    current_setting('request.headers', true)::JSONB ->> 'x-change-reason'
+  )), '');
+
+  INSERT INTO public.audit_log (table_name, record_id, operation, actor_id, actor_email, old_values, new_values, reason, break_glass_session_id)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(new_row ->> 'id', old_row ->> 'id')::UUID,
+    TG_OP,
+    auth.uid(),
+    (SELECT p.email FROM public.profiles p WHERE p.user_id = auth.uid() LIMIT 1),
+    old_row,
+    new_row,
+    change_reason,
+    public.active_break_glass_session(public.current_profile_id())
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.break_glass_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_incident_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Sessions and reviews are only written by the functions below
+CREATE POLICY "Break-glass sessions visible to their user and admins" ON public.break_glass_sessions
+FOR SELECT USING (user_id = public.current_profile_id() OR public.is_admin());
+
+CREATE POLICY "Post-incident reviews visible to the session user and admins" ON public.post_incident_reviews
+FOR SELECT USING (
+  public.is_admin()
+  OR EXISTS (
+    SELECT 1 FROM public.break_glass_sessions s
+    WHERE s.id = session_id AND s.user_id = public.current_profile_id()
+  )
+);
+
+CREATE POLICY "Notifications visible to their recipient" ON public.notifications
+FOR SELECT USING (recipient_id = public.current_profile_id());
+
+-- Elevation is an ordinary time-boxed role assignment, so it lapses by itself when the window ends.
+-- An assignment of the role that has not started yet is merged into the window and kept; one that
+-- only starts after the window cannot share the row, so it is never overwritten.
+CREATE OR REPLACE FUNCTION public.invoke_break_glass(emergency_role_id UUID, reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  requester UUID := public.current_profile_id();
+  emergency_role public.roles%ROWTYPE;
+  new_session_id UUID;
+  window_end TIMESTAMP WITH TIME ZONE;
+  scheduled public.user_roles%ROWTYPE;
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'No profile found for the current user';
+  END IF;
+  IF reason IS NULL OR btrim(reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required for emergency access';
+  END IF;
+
+  SELECT * INTO emergency_role FROM public.roles WHERE id = emergency_role_id;
+  IF NOT FOUND OR emergency_role.break_glass_minutes IS NULL THEN
+    RAISE EXCEPTION 'Role % is not available for emergency access', emergency_role_id;
+  END IF;
+
+  -- Serialise invocations by the same user
+  PERFORM 1 FROM public.profiles WHERE id = requester FOR UPDATE;
+
+  IF public.active_break_glass_session(requester) IS NOT NULL THEN
+    RAISE EXCEPTION 'You already have an active emergency elevation';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = requester
+      AND ur.role_id = emergency_role.id
+      AND (ur.valid_from IS NULL OR ur.valid_from <= now())
+      AND (ur.valid_until IS NULL OR ur.valid_until > now())
+  ) THEN
+    RAISE EXCEPTION 'You already hold the % role', emergency_role.name;
+  END IF;
+
+  window_end := now() + make_interval(mins => emergency_role.break_glass_minutes);
+
+  -- Not active, so anything that has not ended yet starts in the future
+  SELECT * INTO scheduled
+  FROM public.user_roles ur
+  WHERE ur.user_id = requester
+    AND ur.role_id = emergency_role.id
+    AND (ur.valid_until IS NULL OR ur.valid_until > now())
+  FOR UPDATE;
+  IF FOUND AND scheduled.valid_from > window_end THEN
+    RAISE EXCEPTION 'You are assigned the % role from %; ask an admin to bring that assignment forward',
+      emergency_role.name, to_char(scheduled.valid_from, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  INSERT INTO public.break_glass_sessions (user_id, role_id, reason, started_at, expires_at, replaced_valid_from, replaced_valid_until)
+  VALUES (requester, emergency_role.id, btrim(reason), now(), window_end, scheduled.valid_from, scheduled.valid_until)
+  RETURNING id INTO new_session_id;
+
+  INSERT INTO public.user_roles (user_id, role_id, valid_from, valid_until)
+  VALUES (
+    requester,
+    emergency_role.id,
+    now(),
+    CASE
+      WHEN scheduled.id IS NULL THEN window_end
+      WHEN scheduled.valid_until IS NULL THEN NULL
+      ELSE GREATEST(scheduled.valid_until, window_end)
+    END
+  )
+  ON CONFLICT (user_id, role_id) DO UPDATE
+  SET valid_from = EXCLUDED.valid_from,
+      valid_until = EXCLUDED.valid_until;
+
+  INSERT INTO public.post_incident_reviews (session_id) VALUES (new_session_id);
+
+  INSERT INTO public.notifications (recipient_id, kind, title, body, related_table, related_id)
+  SELECT p.id,
+         'break_glass',
+         'Emergency access: ' || (SELECT COALESCE(rp.full_name, rp.email) FROM public.profiles rp WHERE rp.id = requester),
+         format('Elevated to %s until %s. Reason: %s', emergency_role.name, to_char(window_end, 'YYYY-MM-DD HH24:MI TZ'), btrim(reason)),
+         'break_glass_sessions',
+         new_session_id
+  FROM public.profiles p
+  WHERE 'Admin' = ANY(public.get_user_roles(p.user_id));
+
+  RETURN new_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The user or an admin can end an elevation early
+CREATE OR REPLACE FUNCTION public.end_break_glass(session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  elevation public.break_glass_sessions%ROWTYPE;
+  caller UUID := public.current_profile_id();
+BEGIN
+  SELECT * INTO elevation FROM public.break_glass_sessions s WHERE s.id = session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Break-glass session % not found', session_id;
+  END IF;
+  IF elevation.user_id <> caller AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'You cannot end this emergency elevation';
+  END IF;
+  IF elevation.ended_at IS NOT NULL OR elevation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This emergency elevation is already over';
+  END IF;
+
+  UPDATE public.break_glass_sessions s
+  SET ended_at = now(), ended_by = caller
+  WHERE s.id = session_id;
+
+  -- Only touch the assignment if it is still the one the session wrote: put back the scheduled
+  -- assignment it took over, otherwise cut it short
+  UPDATE public.user_roles ur
+  SET valid_from = CASE WHEN elevation.replaced_valid_from IS NOT NULL THEN elevation.replaced_valid_from ELSE ur.valid_from END,
+      valid_until = CASE WHEN elevation.replaced_valid_from IS NOT NULL THEN elevation.replaced_valid_until ELSE now() END
+  WHERE ur.user_id = elevation.user_id
+    AND ur.role_id = elevation.role_id
+    AND ur.valid_from = elevation.started_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins other than the elevated user close the review once the window is over
+CREATE OR REPLACE FUNCTION public.complete_post_incident_review(review_id UUID, findings TEXT)
+RETURNS VOID AS $$
+DECLARE
+  review public.post_incident_reviews%ROWTYPE;
+  elevation public.break_glass_sessions%ROWTYPE;
+  reviewer UUID := public.current_profile_id();
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can complete post-incident reviews';
+  END IF;
+  IF findings IS NULL OR btrim(findings) = '' THEN
+    RAISE EXCEPTION 'Review findings are required';
+  END IF;
+
+  SELECT * INTO review FROM public.post_incident_reviews r WHERE r.id = review_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post-incident review % not found', review_id;
+  END IF;
+  IF review.status <> 'open' THEN
+    RAISE EXCEPTION 'Post-incident review is already %', review.status;
+  END IF;
+
+  SELECT * INTO elevation FROM public.break_glass_sessions s WHERE s.id = review.session_id;
+  IF elevation.user_id = reviewer THEN
+    RAISE EXCEPTION 'Users cannot review their own emergency access';
+  END IF;
+  IF elevation.ended_at IS NULL AND elevation.expires_at > now() THEN
+    RAISE EXCEPTION 'The emergency elevation is still active';
+  END IF;
+
+  UPDATE public.post_incident_reviews r
+  SET status = 'completed',
+      findings = btrim(complete_post_incident_review.findings),
+      reviewer_id = reviewer,
+      reviewed_at = now()
+  WHERE r.id = review_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- NULL marks all of the caller's notifications as read
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(notification_ids UUID[] DEFAULT NULL)
+RETURNS VOID AS $$
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE recipient_id = public.current_profile_id()
+    AND read_at IS NULL
+    AND (notification_ids IS NULL OR id = ANY(notification_ids));
+$$ LANGUAGE SQL SECURITY DEFINER SET search_path = public;
+
+-- The emergency action from the original matrix, behind a one-hour break-glass role
+INSERT INTO public.actions (name, description, category, risk_level) VALUES
+  ('Emergency System Access', 'Access systems during emergencies', 'System', 'critical')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.roles (name, description, color, break_glass_minutes) VALUES
+  ('Emergency Access', 'Break-glass role, only held during an emergency elevation', '#B91C1C', 60)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.permissions (role_id, action_id, status)
+SELECT r.id, a.id, 'granted'
+FROM public.roles r, public.actions a
+WHERE r.name = 'Emergency Access' AND a.name = 'Emergency System Access'
+ON CONFLICT (role_id, action_id) DO NOTHING;
@@ -0,0 +1,150 @@
+-- Role and action management from the admin panel. The original blanket policies let any signed-in
+-- user write roles and actions; restrict both to admins, and keep system roles intact because
+-- is_admin() and can_edit() look them up by name.
+DROP POLICY IF EXISTS "Authenticated users can manage roles" ON public.roles;
+DROP POLICY IF EXISTS "Authenticated users can manage actions" ON public.actions;
+
+CREATE POLICY "Actions manageable by admins" ON public.actions
+FOR ALL USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.protect_system_roles()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_system_role THEN
+      RAISE EXCEPTION 'System role % cannot be deleted', OLD.name
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.is_system_role AND (NEW.name IS DISTINCT FROM OLD.name OR NOT NEW.is_system_role) THEN
+    RAISE EXCEPTION 'System role % cannot be renamed or unprotected', OLD.name
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_system_roles
+  BEFORE UPDATE OR DELETE ON public.roles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_system_roles();
+
+-- Lowering a critical action's risk level takes its cells out of four-eyes control, so the change
+-- is a request of its own that a second admin approves. Every other risk change is direct.
+CREATE TABLE public.action_change_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  action_id UUID NOT NULL REFERENCES public.actions(id) ON DELETE CASCADE,
+  proposed_risk_level public.risk_level NOT NULL,
+  -- The level as the requester saw it, for reviewers
+  current_risk_level public.risk_level NOT NULL,
+  reason TEXT,
+  status public.change_request_status NOT NULL DEFAULT 'pending',
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per action
+CREATE UNIQUE INDEX idx_action_change_requests_pending_action
+  ON public.action_change_requests(action_id)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_action_change_requests_updated_at BEFORE UPDATE ON public.action_change_requests FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER audit_action_change_requests AFTER INSERT OR UPDATE OR DELETE ON public.action_change_requests FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+ALTER TABLE public.action_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Action change requests visible to authenticated users" ON public.action_change_requests
+FOR SELECT USING (true);
+
+CREATE POLICY "Action change requests creatable by admins" ON public.action_change_requests
+FOR INSERT WITH CHECK (
+  public.is_admin()
+  AND requested_by = public.current_profile_id()
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+);
+
+-- Only approve_action_change may take an action out of the critical level
+CREATE OR REPLACE FUNCTION public.protect_critical_risk_level()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.risk_level = 'critical' AND NEW.risk_level <> 'critical'
+    AND current_setting('authz.approved_risk_change', true) IS DISTINCT FROM OLD.id::TEXT THEN
+    RAISE EXCEPTION 'Lowering the risk level of critical action % needs an approved change request', OLD.name
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_critical_risk_level
+  BEFORE UPDATE OF risk_level ON public.actions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_critical_risk_level();
+
+CREATE OR REPLACE FUNCTION public.approve_action_change(request_id UUID, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  req public.action_change_requests%ROWTYPE;
+  reviewer UUID := public.current_profile_id();
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve change requests';
+  END IF;
+
+  SELECT * INTO req FROM public.action_change_requests WHERE id = request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', request_id;
+  END IF;
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change request is already %', req.status;
+  END IF;
+  IF req.requested_by = reviewer THEN
+    RAISE EXCEPTION 'A change request must be approved by someone other than its author';
+  END IF;
+
+  PERFORM set_config('authz.approved_risk_change', req.action_id::TEXT, true);
+  UPDATE public.actions SET risk_level = req.proposed_risk_level WHERE id = req.action_id;
+  PERFORM set_config('authz.approved_risk_change', '', true);
+
+  UPDATE public.action_change_requests
+  SET status = 'approved', reviewed_by = reviewer, reviewed_at = now(), review_comment = comment
+  WHERE id = request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_action_change(request_id UUID, comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reject change requests';
+  END IF;
+
+  UPDATE public.action_change_requests
+  SET status = 'rejected', reviewed_by = public.current_profile_id(), reviewed_at = now(), review_comment = comment
+  WHERE id = request_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending change request %', request_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Authors may withdraw their own pending request
+CREATE OR REPLACE FUNCTION public.cancel_action_change(request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.action_change_requests
+  SET status = 'cancelled', reviewed_at = now()
+  WHERE id = request_id AND status = 'pending' AND requested_by = public.current_profile_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending change request % of yours', request_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
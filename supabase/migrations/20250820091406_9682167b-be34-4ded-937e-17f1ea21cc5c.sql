@@ -0,0 +1,107 @@
+-- Bulk matrix edits. A batch of cell changes is applied in one transaction: cells the caller may
+-- write directly are written, the rest are filed as change requests, and any failure rolls back
+-- the whole batch. The result carries the inverse of what was written so the client can undo it
+-- as one operation by sending it back through the same function. A cell that already has a request
+-- awaiting approval is skipped and listed in the result rather than failing the batch.
+--
+-- changes: [{ "role_id": ..., "action_id": ..., "operation": "upsert" | "delete", "values": {...} }]
+CREATE OR REPLACE FUNCTION public.apply_permission_changes(changes JSONB, reason TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  change JSONB;
+  cell_role UUID;
+  cell_action UUID;
+  cell_operation TEXT;
+  cell_values JSONB;
+  previous public.permissions%ROWTYPE;
+  requester UUID := public.current_profile_id();
+  undo JSONB := '[]'::JSONB;
+  applied INTEGER := 0;
+  requested INTEGER := 0;
+  filed INTEGER;
+  skipped JSONB := '[]'::JSONB;
+BEGIN
+  IF NOT public.can_edit() THEN
+    RAISE EXCEPTION 'Only editors can change permissions';
+  END IF;
+  IF jsonb_typeof(changes) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'changes must be an array';
+  END IF;
+
+  FOR change IN SELECT value FROM jsonb_array_elements(changes) LOOP
+    cell_role := (change ->> 'role_id')::UUID;
+    cell_action := (change ->> 'action_id')::UUID;
+    cell_operation := COALESCE(change ->> 'operation', 'upsert');
+    cell_values := COALESCE(change -> 'values', '{}'::JSONB);
+
+    IF cell_operation NOT IN ('upsert', 'delete') THEN
+      RAISE EXCEPTION 'Unknown operation %', cell_operation;
+    END IF;
+
+    SELECT * INTO previous FROM public.permissions
+    WHERE role_id = cell_role AND action_id = cell_action
+    FOR UPDATE;
+
+    -- Same rule as single-cell edits: only admins write directly, and never on critical actions
+    IF NOT public.is_admin() OR public.is_critical_action(cell_action) THEN
+      INSERT INTO public.permission_change_requests (role_id, action_id, operation, proposed_values, current_values, reason, requested_by)
+      VALUES (
+        cell_role,
+        cell_action,
+        cell_operation,
+        CASE WHEN cell_operation = 'delete' THEN '{}'::JSONB ELSE cell_values END,
+        CASE WHEN previous.id IS NULL THEN NULL ELSE jsonb_build_object(
+          'status', previous.status,
+          'limit_value', previous.limit_value,
+          'conditions', previous.conditions,
+          'condition_spec', previous.condition_spec,
+          'valid_from', previous.valid_from,
+          'valid_until', previous.valid_until
+        ) END,
+        NULLIF(btrim(reason), ''),
+        requester
+      )
+      ON CONFLICT (role_id, action_id) WHERE status = 'pending' DO NOTHING;
+      GET DIAGNOSTICS filed = ROW_COUNT;
+
+      IF filed = 0 THEN
+        skipped := skipped || jsonb_build_object('role_id', cell_role, 'action_id', cell_action);
+      ELSE
+        requested := requested + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    undo := undo || CASE
+      WHEN previous.id IS NULL THEN
+        jsonb_build_object('role_id', cell_role, 'action_id', cell_action, 'operation', 'delete')
+      ELSE
+        jsonb_build_object(
+          'role_id', cell_role,
+          'action_id', cell_action,
+          'operation', 'upsert',
+          'values', to_jsonb(previous) - 'id' - 'role_id' - 'action_id' - 'created_at' - 'updated_at'
+        )
+    END;
+
+    IF cell_operation = 'delete' THEN
+      DELETE FROM public.permissions WHERE role_id = cell_role AND action_id = cell_action;
+    ELSE
+      INSERT INTO public.permissions (role_id, action_id, status)
+      VALUES (cell_role, cell_action, COALESCE((cell_values ->> 'status')::public.permission_status, 'denied'))
+      ON CONFLICT (role_id, action_id) DO NOTHING;
+
+      -- Keys missing from values keep their current value
+      UPDATE public.permissions p
+      SET (status, limit_value, conditions, condition_spec, condition_needs_review, valid_from, valid_until) = (
+        SELECT r.status, r.limit_value, r.conditions, r.condition_spec, r.condition_needs_review, r.valid_from, r.valid_until
+        FROM jsonb_populate_record(p, cell_values) r
+      )
+      WHERE p.role_id = cell_role AND p.action_id = cell_action;
+    END IF;
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('applied', applied, 'requested', requested, 'skipped', skipped, 'undo', undo);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
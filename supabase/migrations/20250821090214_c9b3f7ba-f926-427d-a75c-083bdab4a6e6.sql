@@ -0,0 +1,9 @@
+-- Live matrix updates. The client subscribes to row changes on the tables the matrix is drawn
+-- from. Full replica identity makes deletes carry the whole old row, so a removed permission
+-- still names its role and action and the cell can be highlighted.
+ALTER TABLE public.roles REPLICA IDENTITY FULL;
+ALTER TABLE public.actions REPLICA IDENTITY FULL;
+ALTER TABLE public.permissions REPLICA IDENTITY FULL;
+ALTER TABLE public.profiles REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.roles, public.actions, public.permissions, public.profiles;
@@ -0,0 +1,62 @@
+-- Optimistic concurrency for matrix cells. Every update of a permission bumps its revision, and
+-- single-cell saves name the revision they were based on. A save based on an outdated revision,
+-- or an insert for a cell someone else created meanwhile, is rejected as a conflict
+-- (serialization_failure) so the client can show both versions instead of overwriting.
+ALTER TABLE public.permissions
+  ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_permission_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_permissions_revision
+  BEFORE UPDATE ON public.permissions
+  FOR EACH ROW EXECUTE FUNCTION public.bump_permission_revision();
+
+-- Inserts when expected_revision is NULL (the caller saw no row), otherwise updates that revision.
+-- Keys missing from permission_values keep their current value.
+CREATE OR REPLACE FUNCTION public.upsert_permission(
+  role_uuid UUID,
+  action_uuid UUID,
+  permission_values JSONB,
+  expected_revision INTEGER DEFAULT NULL
+)
+RETURNS public.permissions AS $$
+DECLARE
+  saved public.permissions%ROWTYPE;
+BEGIN
+  -- Same rule as the table policy; everything else goes through a change request
+  IF NOT public.is_admin() OR public.is_critical_action(action_uuid) THEN
+    RAISE EXCEPTION 'Only admins can change permissions directly, and never on critical actions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF expected_revision IS NULL THEN
+    INSERT INTO public.permissions (role_id, action_id, status, limit_value, conditions, condition_spec, condition_needs_review, valid_from, valid_until)
+    SELECT role_uuid, action_uuid, COALESCE(r.status, 'denied'), r.limit_value, r.conditions, r.condition_spec,
+           COALESCE(r.condition_needs_review, false), r.valid_from, r.valid_until
+    FROM jsonb_populate_record(NULL::public.permissions, permission_values) r
+    ON CONFLICT (role_id, action_id) DO NOTHING
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE public.permissions p
+    SET (status, limit_value, conditions, condition_spec, condition_needs_review, valid_from, valid_until) = (
+      SELECT r.status, r.limit_value, r.conditions, r.condition_spec, r.condition_needs_review, r.valid_from, r.valid_until
+      FROM jsonb_populate_record(p, permission_values) r
+    )
+    WHERE p.role_id = role_uuid AND p.action_id = action_uuid AND p.revision = expected_revision
+    RETURNING * INTO saved;
+  END IF;
+
+  IF saved.id IS NULL THEN
+    RAISE EXCEPTION 'The permission was changed by someone else'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,57 @@
+-- Spreadsheet import of the matrix. Missing roles and actions are created first and the cells are
+-- then written through apply_permission_changes, so the whole import is one transaction and cells
+-- that need approval become change requests exactly as in a bulk edit. Roles and actions are
+-- named rather than referenced by id, since some of them only exist once the import runs.
+--
+-- new_roles:   [{ "name": ... }]
+-- new_actions: [{ "name": ..., "category": ..., "risk_level": ... }]
+-- changes:     [{ "role_name": ..., "action_name": ..., "operation": "upsert" | "delete", "values": {...} }]
+CREATE OR REPLACE FUNCTION public.import_permission_matrix(
+  new_roles JSONB,
+  new_actions JSONB,
+  changes JSONB,
+  reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  roles_created INTEGER := 0;
+  actions_created INTEGER := 0;
+  resolved JSONB;
+  result JSONB;
+BEGIN
+  IF (jsonb_array_length(new_roles) > 0 OR jsonb_array_length(new_actions) > 0) AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create roles and actions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A name someone created meanwhile is used as it is
+  INSERT INTO public.roles (name)
+  SELECT r.name FROM jsonb_to_recordset(new_roles) AS r(name TEXT)
+  ON CONFLICT (name) DO NOTHING;
+  GET DIAGNOSTICS roles_created = ROW_COUNT;
+
+  INSERT INTO public.actions (name, category, risk_level)
+  SELECT a.name, a.category, COALESCE(a.risk_level, 'low')::public.risk_level
+  FROM jsonb_to_recordset(new_actions) AS a(name TEXT, category TEXT, risk_level TEXT)
+  ON CONFLICT (name) DO NOTHING;
+  GET DIAGNOSTICS actions_created = ROW_COUNT;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'role_id', r.id,
+    'action_id', a.id,
+    'operation', c.operation,
+    'values', c."values"
+  )), '[]'::JSONB)
+  INTO resolved
+  FROM jsonb_to_recordset(changes) AS c(role_name TEXT, action_name TEXT, operation TEXT, "values" JSONB)
+  JOIN public.roles r ON r.name = c.role_name
+  JOIN public.actions a ON a.name = c.action_name;
+
+  IF jsonb_array_length(resolved) <> jsonb_array_length(changes) THEN
+    RAISE EXCEPTION 'The import names a role or action that does not exist';
+  END IF;
+
+  result := public.apply_permission_changes(resolved, reason);
+  RETURN result || jsonb_build_object('roles_created', roles_created, 'actions_created', actions_created);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,137 @@
+-- Import of a policy document (src/lib/policy.ts). Roles and actions are created or updated by
+-- name, cells go through import_permission_matrix and so through the same approval rules as any
+-- bulk edit, and user overrides are written for users named by email. All of it is one
+-- transaction. Nothing is deleted other than the cells and overrides listed as deletes.
+-- Lowering a critical action's risk level is filed as an action change request rather than applied,
+-- so the action and its cells stay under four-eyes control until a second admin approves.
+--
+-- role_changes:       [{ "name": ..., "description": ..., "color": ..., "parent": ... }]
+-- action_changes:     [{ "name": ..., "description": ..., "category": ..., "risk_level": ... }]
+-- permission_changes: [{ "role_name": ..., "action_name": ..., "operation": "upsert" | "delete", "values": {...} }]
+-- exclusion_changes:  [{ "email": ..., "action_name": ..., "operation": "upsert" | "delete", "values": {..., "reason": ...} }]
+CREATE OR REPLACE FUNCTION public.import_policy(
+  role_changes JSONB,
+  action_changes JSONB,
+  permission_changes JSONB,
+  exclusion_changes JSONB,
+  reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  roles_changed INTEGER := 0;
+  actions_changed INTEGER := 0;
+  exclusions_changed INTEGER := 0;
+  risk_changes_requested INTEGER := 0;
+  critical_before UUID[];
+  resolved_count INTEGER;
+  result JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import a policy'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- A color left out falls back to the column default
+  INSERT INTO public.roles (name, description, color)
+  SELECT r.name, r.description, COALESCE(r.color, '#3B82F6')
+  FROM jsonb_to_recordset(role_changes) AS r(name TEXT, description TEXT, color TEXT)
+  ON CONFLICT (name) DO UPDATE
+  SET description = EXCLUDED.description,
+      color = EXCLUDED.color;
+  GET DIAGNOSTICS roles_changed = ROW_COUNT;
+
+  -- Parents are set once every role exists. Clearing them first lets two roles swap places
+  -- without the hierarchy trigger seeing a cycle halfway through.
+  UPDATE public.roles ro
+  SET parent_role_id = NULL
+  FROM jsonb_to_recordset(role_changes) AS r(name TEXT)
+  WHERE ro.name = r.name;
+
+  UPDATE public.roles ro
+  SET parent_role_id = parent.id
+  FROM jsonb_to_recordset(role_changes) AS r(name TEXT, parent TEXT)
+  JOIN public.roles parent ON parent.name = r.parent
+  WHERE ro.name = r.name;
+
+  -- Taken before the upsert: actions that are critical now keep that level, so their cells are still
+  -- routed to approval below, and actions the file makes critical are routed from now on
+  critical_before := ARRAY(SELECT id FROM public.actions WHERE risk_level = 'critical');
+
+  INSERT INTO public.actions (name, description, category, risk_level)
+  SELECT a.name, a.description, a.category, a.risk_level::public.risk_level
+  FROM jsonb_to_recordset(action_changes) AS a(name TEXT, description TEXT, category TEXT, risk_level TEXT)
+  ON CONFLICT (name) DO UPDATE
+  SET description = EXCLUDED.description,
+      category = EXCLUDED.category,
+      risk_level = CASE WHEN actions.id = ANY(critical_before) THEN actions.risk_level ELSE EXCLUDED.risk_level END;
+  GET DIAGNOSTICS actions_changed = ROW_COUNT;
+
+  INSERT INTO public.action_change_requests (action_id, proposed_risk_level, current_risk_level, reason, requested_by)
+  SELECT ac.id, a.risk_level::public.risk_level, ac.risk_level, import_policy.reason, public.current_profile_id()
+  FROM jsonb_to_recordset(action_changes) AS a(name TEXT, risk_level TEXT)
+  JOIN public.actions ac ON ac.name = a.name
+  WHERE ac.id = ANY(critical_before)
+    AND a.risk_level <> 'critical'
+    -- An open request for the action is left to its reviewer
+    AND NOT EXISTS (
+      SELECT 1 FROM public.action_change_requests pending
+      WHERE pending.action_id = ac.id AND pending.status = 'pending'
+    );
+  GET DIAGNOSTICS risk_changes_requested = ROW_COUNT;
+
+  result := public.import_permission_matrix('[]'::JSONB, '[]'::JSONB, permission_changes, reason);
+
+  SELECT count(*) INTO resolved_count
+  FROM jsonb_to_recordset(exclusion_changes) AS e(email TEXT, action_name TEXT)
+  JOIN public.profiles p ON p.email = e.email
+  JOIN public.actions a ON a.name = e.action_name;
+
+  IF resolved_count <> jsonb_array_length(exclusion_changes) THEN
+    RAISE EXCEPTION 'The import names a user or action that does not exist';
+  END IF;
+
+  DELETE FROM public.permission_exclusions x
+  USING jsonb_to_recordset(exclusion_changes) AS e(email TEXT, action_name TEXT, operation TEXT),
+    public.profiles p, public.actions a
+  WHERE e.operation = 'delete'
+    AND p.email = e.email AND a.name = e.action_name
+    AND x.user_id = p.id AND x.action_id = a.id;
+  GET DIAGNOSTICS exclusions_changed = ROW_COUNT;
+
+  INSERT INTO public.permission_exclusions (
+    user_id, action_id, status, conditions, condition_spec, condition_needs_review, valid_from, valid_until, reason
+  )
+  SELECT
+    p.id,
+    a.id,
+    (e."values" ->> 'status')::public.permission_status,
+    e."values" ->> 'conditions',
+    NULLIF(e."values" -> 'condition_spec', 'null'::JSONB),
+    COALESCE((e."values" ->> 'condition_needs_review')::BOOLEAN, false),
+    (e."values" ->> 'valid_from')::TIMESTAMP WITH TIME ZONE,
+    (e."values" ->> 'valid_until')::TIMESTAMP WITH TIME ZONE,
+    e."values" ->> 'reason'
+  FROM jsonb_to_recordset(exclusion_changes) AS e(email TEXT, action_name TEXT, operation TEXT, "values" JSONB)
+  JOIN public.profiles p ON p.email = e.email
+  JOIN public.actions a ON a.name = e.action_name
+  WHERE e.operation = 'upsert'
+  ON CONFLICT (user_id, action_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      conditions = EXCLUDED.conditions,
+      condition_spec = EXCLUDED.condition_spec,
+      condition_needs_review = EXCLUDED.condition_needs_review,
+      valid_from = EXCLUDED.valid_from,
+      valid_until = EXCLUDED.valid_until,
+      reason = EXCLUDED.reason;
+
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+  exclusions_changed := exclusions_changed + resolved_count;
+
+  RETURN result - 'undo' || jsonb_build_object(
+    'roles_changed', roles_changed,
+    'actions_changed', actions_changed,
+    'exclusions_changed', exclusions_changed,
+    'risk_changes_requested', risk_changes_requested
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
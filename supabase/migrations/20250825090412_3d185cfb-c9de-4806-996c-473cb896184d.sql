@@ -0,0 +1,140 @@
+-- Server-side enforcement of blocking segregation-of-duties rules. The matrix checks them before a
+-- cell edit, but approvals, imports, delegations and break-glass elevations write directly, so the
+-- database refuses any transaction that leaves a role or user in a blocked combination they were
+-- not already in when it started. Warn rules stay advisory and are only shown by the client.
+--
+-- The first write to a watched table snapshots the current violations; a deferred trigger compares
+-- at commit, so the intermediate states of a multi-statement import do not count.
+
+-- Mirrors resolveRolePermission: the role's own row, else the nearest ancestor's, skipping rows
+-- outside their validity window
+CREATE OR REPLACE FUNCTION public.role_holds_action(role_uuid UUID, action_uuid UUID)
+RETURNS BOOLEAN AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT r.id, r.parent_role_id, 0 AS depth
+    FROM public.roles r
+    WHERE r.id = role_uuid
+    UNION ALL
+    SELECT r.id, r.parent_role_id, l.depth + 1
+    FROM lineage l
+    JOIN public.roles r ON r.id = l.parent_role_id
+    WHERE l.depth < 32
+  )
+  SELECT COALESCE((
+    SELECT p.status <> 'denied'
+    FROM lineage l
+    JOIN public.permissions p ON p.role_id = l.id AND p.action_id = action_uuid
+    WHERE (p.valid_from IS NULL OR p.valid_from <= now())
+      AND (p.valid_until IS NULL OR p.valid_until > now())
+    ORDER BY l.depth
+    LIMIT 1
+  ), false);
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- Mirrors resolveEffectivePermission: an override decides on its own, otherwise any role or
+-- delegation that leaves the action anything but denied. Assignments and delegations count from
+-- the moment they are made, so a future start date cannot slip a combination past the check.
+-- Delegated authority is never passed on again.
+CREATE OR REPLACE FUNCTION public.user_holds_action(profile_uuid UUID, action_uuid UUID, include_delegations BOOLEAN DEFAULT true)
+RETURNS BOOLEAN AS $$
+DECLARE
+  override_status public.permission_status;
+BEGIN
+  SELECT e.status INTO override_status
+  FROM public.permission_exclusions e
+  WHERE e.user_id = profile_uuid
+    AND e.action_id = action_uuid
+    AND (e.valid_from IS NULL OR e.valid_from <= now())
+    AND (e.valid_until IS NULL OR e.valid_until > now());
+  IF FOUND THEN
+    RETURN override_status <> 'denied';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = profile_uuid
+      AND (ur.valid_until IS NULL OR ur.valid_until > now())
+      AND public.role_holds_action(ur.role_id, action_uuid)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN include_delegations AND EXISTS (
+    SELECT 1 FROM public.delegations d
+    WHERE d.delegate_id = profile_uuid
+      AND d.delegator_id <> profile_uuid
+      AND (cardinality(d.action_ids) = 0 OR action_uuid = ANY(d.action_ids))
+      AND d.valid_until > now()
+      AND public.user_holds_action(d.delegator_id, action_uuid, false)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Current violations of blocking rules as 'rule:role|user:subject' keys, like violationKey in
+-- src/lib/sod.ts
+CREATE OR REPLACE FUNCTION public.sod_block_violations()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(v.key ORDER BY v.key), ARRAY[]::TEXT[])
+  FROM (
+    SELECT s.id || ':role:' || r.id AS key
+    FROM public.sod_rules s
+    CROSS JOIN public.roles r
+    WHERE s.enforcement = 'block'
+      AND public.role_holds_action(r.id, s.action_a_id)
+      AND public.role_holds_action(r.id, s.action_b_id)
+    UNION ALL
+    SELECT s.id || ':user:' || p.id
+    FROM public.sod_rules s
+    CROSS JOIN public.profiles p
+    WHERE s.enforcement = 'block'
+      AND public.user_holds_action(p.id, s.action_a_id)
+      AND public.user_holds_action(p.id, s.action_b_id)
+  ) v;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.snapshot_sod_violations()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('authz.sod_snapshot', true), '') = '' THEN
+    PERFORM set_config('authz.sod_snapshot', public.sod_block_violations()::TEXT, true);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs once per transaction, at commit
+CREATE OR REPLACE FUNCTION public.enforce_sod_block_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  introduced TEXT;
+BEGIN
+  IF current_setting('authz.sod_checked', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+  PERFORM set_config('authz.sod_checked', 'on', true);
+
+  SELECT v.key INTO introduced
+  FROM unnest(public.sod_block_violations()) AS v(key)
+  WHERE v.key <> ALL (COALESCE(NULLIF(current_setting('authz.sod_snapshot', true), ''), '{}')::TEXT[])
+  LIMIT 1;
+
+  IF introduced IS NOT NULL THEN
+    RAISE EXCEPTION 'Blocked by segregation-of-duties rule "%"',
+      (SELECT s.name FROM public.sod_rules s WHERE s.id = split_part(introduced, ':', 1)::UUID)
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_sod_permissions BEFORE INSERT OR UPDATE OR DELETE ON public.permissions FOR EACH STATEMENT EXECUTE FUNCTION public.snapshot_sod_violations();
+CREATE TRIGGER snapshot_sod_permission_exclusions BEFORE INSERT OR UPDATE OR DELETE ON public.permission_exclusions FOR EACH STATEMENT EXECUTE FUNCTION public.snapshot_sod_violations();
+CREATE TRIGGER snapshot_sod_user_roles BEFORE INSERT OR UPDATE OR DELETE ON public.user_roles FOR EACH STATEMENT EXECUTE FUNCTION public.snapshot_sod_violations();
+CREATE TRIGGER snapshot_sod_delegations BEFORE INSERT OR UPDATE OR DELETE ON public.delegations FOR EACH STATEMENT EXECUTE FUNCTION public.snapshot_sod_violations();
+CREATE TRIGGER snapshot_sod_roles BEFORE UPDATE OF parent_role_id ON public.roles FOR EACH STATEMENT EXECUTE FUNCTION public.snapshot_sod_violations();
+
+CREATE CONSTRAINT TRIGGER enforce_sod_permissions AFTER INSERT OR UPDATE OR DELETE ON public.permissions DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.enforce_sod_block_rules();
+CREATE CONSTRAINT TRIGGER enforce_sod_permission_exclusions AFTER INSERT OR UPDATE OR DELETE ON public.permission_exclusions DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.enforce_sod_block_rules();
+CREATE CONSTRAINT TRIGGER enforce_sod_user_roles AFTER INSERT OR UPDATE OR DELETE ON public.user_roles DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.enforce_sod_block_rules();
+CREATE CONSTRAINT TRIGGER enforce_sod_delegations AFTER INSERT OR UPDATE OR DELETE ON public.delegations DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.enforce_sod_block_rules();
+CREATE CONSTRAINT TRIGGER enforce_sod_roles AFTER UPDATE OF parent_role_id ON public.roles DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.enforce_sod_block_rules();